@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { toListPage } from "../../lib/pages";
+import { getBackend } from "../../lib/backend";
+import { ApiError, errorResponse, readJsonBody, requireString } from "../../lib/errors";
+import {
+  requireClientContact,
+  requireClientListQuery,
+  requireClientPricing,
+  requireIdempotencyKey,
+} from "../../lib/validation";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/clients?customer_id=ID&offset=N&limit=N&sort=SORT&status=STATUS&search=TEXT
+ * Returns a page of the clients assigned to a sub-org as { total, is_last_page, data }
+ * sort is name, created or status, prefixed with - for descending; search matches the name, email and external reference
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const customerId = request.nextUrl.searchParams.get("customer_id");
+    if (!customerId) {
+      throw new ApiError("'customer_id' query parameter is required", 400);
+    }
+
+    const data = await getBackend().getClients(customerId, requireClientListQuery(request.nextUrl.searchParams));
+    return NextResponse.json(toListPage(data));
+  } catch (err) {
+    return errorResponse(err, "Failed to fetch clients");
+  }
+}
+
+/**
+ * POST /api/clients
+ * Creates a client and its Stripe subscription within a sub-org
+ * Priced with either an existing Stripe price or a currency and unit amount
+ * A repeated idempotency_key returns the client created the first time, flagged with existing: true
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await readJsonBody(request);
+    const pricing = requireClientPricing(body);
+
+    const data = await getBackend().createClient({
+      name: requireString(body, "name"),
+      customer_id: requireString(body, "customer_id"),
+      org_name: requireString(body, "org_name"),
+      parent_org_id: body.parent_org_id ? String(body.parent_org_id) : undefined,
+      parent_org_name: body.parent_org_name ? String(body.parent_org_name) : undefined,
+      ...requireClientContact(body),
+      ...pricing,
+      idempotency_key: requireIdempotencyKey(body),
+    });
+    return NextResponse.json(data);
+  } catch (err) {
+    return errorResponse(err, "Failed to create client");
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { getBackend } from "../../../../lib/backend";
+import { errorResponse } from "../../../../lib/errors";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * GET /api/customers/[id]/delete-preview
+ * Returns the sub-orgs, clients and subscriptions that deleting this customer would remove
+ * Nothing is changed - the delete-customer workflow runs as a dry run
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const data = await getBackend().previewCustomerDeletion(params.id);
+    return NextResponse.json(data);
+  } catch (err) {
+    return errorResponse(err, "Failed to load delete preview");
+  }
+}
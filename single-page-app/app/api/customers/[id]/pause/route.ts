@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { getBackend } from "../../../../lib/backend";
+import { ApiError, errorResponse, readJsonBody } from "../../../../lib/errors";
+import { requirePauseFields } from "../../../../lib/validation";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * POST /api/customers/[id]/pause
+ * Pauses collection on every active client of an org (across all its sub-orgs) or sub-org
+ * Returns the outcome for each client
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const body = await readJsonBody(request);
+
+    const data = await getBackend().pauseCustomer(params.id, requirePauseFields(body));
+    if (!data) {
+      throw new ApiError("The pause workflow did not return a result", 502);
+    }
+    return NextResponse.json(data);
+  } catch (err) {
+    return errorResponse(err, "Failed to pause customer");
+  }
+}
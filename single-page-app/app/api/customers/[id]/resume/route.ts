@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { getBackend } from "../../../../lib/backend";
+import { ApiError, errorResponse } from "../../../../lib/errors";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * POST /api/customers/[id]/resume
+ * Resumes collection on every paused client of an org (across all its sub-orgs) or sub-org
+ * Returns the outcome for each client
+ */
+export async function POST(_request: Request, { params }: RouteContext) {
+  try {
+    const data = await getBackend().resumeCustomer(params.id);
+    if (!data) {
+      throw new ApiError("The resume workflow did not return a result", 502);
+    }
+    return NextResponse.json(data);
+  } catch (err) {
+    return errorResponse(err, "Failed to resume customer");
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { getBackend } from "../../../lib/backend";
+import { ApiError, errorResponse, readJsonBody, requireString } from "../../../lib/errors";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * GET /api/customers/[id]
+ * Returns an org or sub-org with its hierarchy, subscription buckets and recent clients
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const data = await getBackend().getCustomer(params.id);
+    if (!data?.customer) {
+      throw new ApiError(`Customer ${params.id} not found`, 404);
+    }
+    return NextResponse.json(data);
+  } catch (err) {
+    return errorResponse(err, "Failed to fetch customer");
+  }
+}
+
+/**
+ * PATCH /api/customers/[id]
+ * Renames an org or sub-org in Stripe and the CMS
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const body = await readJsonBody(request);
+
+    const data = await getBackend().updateCustomer({
+      id: params.id,
+      name: requireString(body, "name").trim(),
+    });
+    return NextResponse.json(data ?? { success: true });
+  } catch (err) {
+    return errorResponse(err, "Failed to update customer");
+  }
+}
+
+/**
+ * DELETE /api/customers/[id]
+ * Cancels every client subscription under an org or sub-org, then deletes its
+ * sub-orgs, clients and Stripe customers. Returns a per-item result list
+ */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const data = await getBackend().deleteCustomer(params.id);
+    if (!data) {
+      throw new ApiError("The deleteCustomer webhook returned no results", 502);
+    }
+    return NextResponse.json(data);
+  } catch (err) {
+    return errorResponse(err, "Failed to delete customer");
+  }
+}
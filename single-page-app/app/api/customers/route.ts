@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getBackend } from "../../lib/backend";
+import { errorResponse, readJsonBody } from "../../lib/errors";
+import { toListPage } from "../../lib/pages";
+import { requireCreateCustomer, requirePageQuery } from "../../lib/validation";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/customers?offset=N&limit=N
+ * Returns a page of orgs with their sub-orgs as { total, is_last_page, data } - the first 1000 orgs without a page
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const data = await getBackend().getCustomers(requirePageQuery(request.nextUrl.searchParams));
+    return NextResponse.json(toListPage(data));
+  } catch (err) {
+    return errorResponse(err, "Failed to fetch customers");
+  }
+}
+
+/**
+ * POST /api/customers
+ * Creates an org, or a sub-org when parent_org_id is supplied
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await readJsonBody(request);
+
+    const data = await getBackend().createCustomer(requireCreateCustomer(body));
+    return NextResponse.json(data);
+  } catch (err) {
+    return errorResponse(err, "Failed to create customer");
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest } from "next/server";
+import { ApiError, errorResponse } from "../../lib/errors";
+import { createClientExport, EXPORT_FORMATS, ExportFormat } from "../../lib/export";
+import { requireClientListQuery } from "../../lib/validation";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/export?format=csv|json&customer_id=ID&status=STATUS&search=TEXT
+ * Streams the clients of a sub-org, of every sub-org of an org, or of everything when customer_id is left out
+ * status and search filter the clients as the clients list does
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const format = (params.get("format") || "csv") as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new ApiError(`'format' must be one of ${EXPORT_FORMATS.join(", ")}`, 400);
+    }
+
+    const { status, search } = requireClientListQuery(params);
+    const { body, filename, contentType } = await createClientExport(format, params.get("customer_id") || undefined, {
+      status,
+      search,
+    });
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    return errorResponse(err, "Failed to export clients");
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { errorResponse } from "../../../../lib/errors";
+import { resumeBatchJob } from "../../../../lib/jobs";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * POST /api/jobs/[id]/resume
+ * Retries the failed and unfinished clients of a job with their original idempotency keys
+ */
+export async function POST(_request: Request, { params }: RouteContext) {
+  try {
+    return NextResponse.json(await resumeBatchJob(params.id), { status: 202 });
+  } catch (err) {
+    return errorResponse(err, "Failed to resume job");
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { ApiError, errorResponse } from "../../../lib/errors";
+import { getBatchJob } from "../../../lib/jobs";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * GET /api/jobs/[id]
+ * Returns a batch job with the outcome of each client - poll it while the job is running
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const job = await getBatchJob(params.id);
+    if (!job) {
+      throw new ApiError("Job not found", 404);
+    }
+    return NextResponse.json(job);
+  } catch (err) {
+    return errorResponse(err, "Failed to fetch job");
+  }
+}
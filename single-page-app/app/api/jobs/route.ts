@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { ApiError, errorResponse, readJsonBody, requireString } from "../../lib/errors";
+import { BatchClient, createBatchJob, listBatchJobs } from "../../lib/jobs";
+import { MAX_BATCH_SIZE } from "../../lib/batch";
+import { ClientPricingPayload } from "../../lib/pricing";
+import { requireClientContact, requireClientPricing } from "../../lib/validation";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/jobs
+ * Lists batch jobs, newest first, without their items
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(await listBatchJobs());
+  } catch (err) {
+    return errorResponse(err, "Failed to list jobs");
+  }
+}
+
+/**
+ * POST /api/jobs
+ * Starts a server-side job that creates each listed client within a sub-org
+ * A client's own pricing wins over the job's, which is only required when some client has none
+ * Returns the job straight away - progress is read from GET /api/jobs/[id]
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await readJsonBody(request);
+
+    const input = Array.isArray(body.clients) ? body.clients : [];
+    if (input.length === 0 || input.length > MAX_BATCH_SIZE) {
+      throw new ApiError(`'clients' must list between 1 and ${MAX_BATCH_SIZE} clients`, 400);
+    }
+
+    let jobPricing: ClientPricingPayload | undefined;
+    const clients: BatchClient[] = input.map((item, index) => {
+      if (!item || typeof item !== "object") {
+        throw new ApiError(`'clients[${index}]' must be an object`, 400);
+      }
+      const client = item as Record<string, unknown>;
+      try {
+        const pricing =
+          client.pricing && typeof client.pricing === "object"
+            ? requireClientPricing(client.pricing as Record<string, unknown>)
+            : (jobPricing ??= requireClientPricing(body));
+        return {
+          name: requireString(client, "name").trim(),
+          ...requireClientContact(client),
+          pricing,
+        };
+      } catch (err) {
+        if (err instanceof ApiError) {
+          throw new ApiError(`clients[${index}]: ${err.message}`, err.status);
+        }
+        throw err;
+      }
+    });
+
+    const customer = {
+      id: requireString(body, "customer_id"),
+      name: requireString(body, "org_name"),
+      parent_org_id: body.parent_org_id ? String(body.parent_org_id) : undefined,
+      parent_org_name: body.parent_org_name ? String(body.parent_org_name) : undefined,
+    };
+
+    const job = await createBatchJob(
+      {
+        customer_id: customer.id,
+        org_name: customer.name,
+        parent_org_id: customer.parent_org_id,
+        parent_org_name: customer.parent_org_name,
+      },
+      customer,
+      clients
+    );
+    return NextResponse.json(job, { status: 202 });
+  } catch (err) {
+    return errorResponse(err, "Failed to start job");
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { getBackend } from "../../../../lib/backend";
+import { errorResponse } from "../../../../lib/errors";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * POST /api/plans/[id]/archive
+ * Archives a plan and its Stripe price so it can no longer be chosen for new clients
+ */
+export async function POST(_request: Request, { params }: RouteContext) {
+  try {
+    const data = await getBackend().archivePlan(params.id);
+    return NextResponse.json(data ?? { success: true });
+  } catch (err) {
+    return errorResponse(err, "Failed to archive plan");
+  }
+}
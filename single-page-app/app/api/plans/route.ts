@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getBackend } from "../../lib/backend";
+import { errorResponse, readJsonBody, requireString } from "../../lib/errors";
+import { requirePriceFields } from "../../lib/validation";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/plans?include_archived=true
+ * Returns the active plans, or every plan when include_archived is set
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const includeArchived = request.nextUrl.searchParams.get("include_archived") === "true";
+
+    const data = await getBackend().getPlans(includeArchived);
+    return NextResponse.json(data ?? []);
+  } catch (err) {
+    return errorResponse(err, "Failed to fetch plans");
+  }
+}
+
+/**
+ * POST /api/plans
+ * Creates a plan backed by a Stripe product and recurring price
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await readJsonBody(request);
+
+    const data = await getBackend().createPlan({
+      name: requireString(body, "name").trim(),
+      description: body.description ? String(body.description).trim() : "",
+      ...requirePriceFields(body),
+    });
+    return NextResponse.json(data);
+  } catch (err) {
+    return errorResponse(err, "Failed to create plan");
+  }
+}
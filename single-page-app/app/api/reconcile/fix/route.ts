@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { getBackend } from "../../../lib/backend";
+import { errorResponse, readJsonBody } from "../../../lib/errors";
+import { requireReconcileFix } from "../../../lib/validation";
+
+/**
+ * POST /api/reconcile/fix
+ * Applies one fix from the reconciliation report: link, mark_orphan or cancel
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await readJsonBody(request);
+
+    const data = await getBackend().applyReconcileFix(requireReconcileFix(body));
+    return NextResponse.json(data ?? { success: true });
+  } catch (err) {
+    return errorResponse(err, "Failed to apply reconciliation fix");
+  }
+}
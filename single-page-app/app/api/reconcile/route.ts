@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getBackend } from "../../lib/backend";
+import { ApiError, errorResponse } from "../../lib/errors";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/reconcile?customer_id=ID
+ * Dry run - compares the clients table with each bucket's Stripe subscriptions and returns the issues found
+ * customer_id limits the check to one sub-org's buckets and clients
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const customerId = request.nextUrl.searchParams.get("customer_id") || undefined;
+
+    const data = await getBackend().reconcileReport(customerId);
+    if (!data) {
+      throw new ApiError("The reconcile workflow did not return a report", 502);
+    }
+    return NextResponse.json(data);
+  } catch (err) {
+    return errorResponse(err, "Failed to build reconciliation report");
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { getBackend } from "../../lib/backend";
+import { errorResponse } from "../../lib/errors";
+import { EMPTY_OVERALL_STATS } from "../../lib/schema";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/stats
+ * Returns the cached overall stats (orgs, sub-orgs, active/paused clients) - all zero until they are first computed
+ */
+export async function GET() {
+  try {
+    const data = await getBackend().getStats();
+    return NextResponse.json(data ?? EMPTY_OVERALL_STATS);
+  } catch (err) {
+    return errorResponse(err, "Failed to fetch stats");
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import Stripe from "stripe";
+import { getBackend } from "../../../lib/backend";
+import { errorResponse } from "../../../lib/errors";
+import { constructWebhookEvent, getStripe, toSubscriptionSync } from "../../../lib/stripe";
+
+/**
+ * Find the subscription a Stripe event is about
+ * Invoice events only carry the subscription id, so it is fetched to get its current status
+ */
+async function getEventSubscription(event: Stripe.Event): Promise<Stripe.Subscription | null> {
+  switch (event.type) {
+    case "customer.subscription.updated":
+    case "customer.subscription.deleted":
+      return event.data.object;
+    case "invoice.payment_failed": {
+      const { subscription } = event.data.object;
+      if (!subscription) {
+        return null;
+      }
+      return typeof subscription === "string"
+        ? getStripe().subscriptions.retrieve(subscription)
+        : subscription;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * POST /api/stripe/webhook
+ * Receives signed Stripe events and copies subscription changes made outside the portal
+ * (Dashboard edits, failed payments, cancellations) onto the client row, then recounts the sub-org
+ * Other event types are acknowledged and ignored; a failed sync returns an error so Stripe retries
+ */
+export async function POST(request: Request) {
+  try {
+    // The signature covers the raw body, so it must be read as text rather than parsed
+    const event = constructWebhookEvent(await request.text(), request.headers.get("stripe-signature"));
+
+    const subscription = await getEventSubscription(event);
+    if (!subscription) {
+      return NextResponse.json({ received: true, ignored: event.type });
+    }
+
+    const data = await getBackend().syncSubscription(toSubscriptionSync(subscription, event.type));
+    return NextResponse.json({ received: true, sync: data });
+  } catch (err) {
+    return errorResponse(err, "Failed to process Stripe webhook");
+  }
+}
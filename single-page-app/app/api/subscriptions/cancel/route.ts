@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { getBackend } from "../../../lib/backend";
+import { CancelSubscriptionRequest } from "../../../lib/n8n";
+import { ApiError, errorResponse, readJsonBody, requireString } from "../../../lib/errors";
+
+const CANCEL_WHEN: CancelSubscriptionRequest["when"][] = ["now", "period_end"];
+
+/**
+ * POST /api/subscriptions/cancel
+ * Cancels a client subscription immediately or at the end of the current period
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await readJsonBody(request);
+
+    const when = requireString(body, "when") as CancelSubscriptionRequest["when"];
+    if (!CANCEL_WHEN.includes(when)) {
+      throw new ApiError(`'when' must be one of ${CANCEL_WHEN.join(", ")}`, 400);
+    }
+
+    const data = await getBackend().cancelSubscription({
+      customer_id: requireString(body, "customer_id"),
+      stripe_subscription_id: requireString(body, "stripe_subscription_id"),
+      when,
+    });
+    return NextResponse.json(data ?? { success: true });
+  } catch (err) {
+    return errorResponse(err, "Failed to cancel subscription");
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { getBackend } from "../../../../lib/backend";
+import { ApiError, errorResponse, readJsonBody } from "../../../../lib/errors";
+import { requirePlanChange } from "../../../../lib/validation";
+
+/**
+ * POST /api/subscriptions/change-plan/preview
+ * Returns Stripe's preview of the next invoice, including prorations, if the plan were changed now
+ * Nothing is changed in Stripe or the CMS
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await readJsonBody(request);
+
+    const data = await getBackend().previewPlanChange(requirePlanChange(body));
+    if (!data) {
+      throw new ApiError("The plan change preview was empty", 502);
+    }
+    return NextResponse.json(data);
+  } catch (err) {
+    return errorResponse(err, "Failed to preview plan change");
+  }
+}
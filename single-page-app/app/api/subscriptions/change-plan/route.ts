@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { getBackend } from "../../../lib/backend";
+import { errorResponse, readJsonBody } from "../../../lib/errors";
+import { requirePlanChange } from "../../../lib/validation";
+
+/**
+ * POST /api/subscriptions/change-plan
+ * Moves a client subscription to a new price and/or quantity with prorations
+ * and records the new price (and plan) on the client
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await readJsonBody(request);
+
+    const data = await getBackend().changePlan(requirePlanChange(body));
+    return NextResponse.json(data ?? { success: true });
+  } catch (err) {
+    return errorResponse(err, "Failed to change plan");
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { getBackend } from "../../../lib/backend";
+import { errorResponse, readJsonBody, requireString } from "../../../lib/errors";
+import { requirePauseFields } from "../../../lib/validation";
+
+/**
+ * POST /api/subscriptions/pause
+ * Pauses collection on a client subscription and marks the client as paused
+ * behavior defaults to "void"; resumes_at optionally schedules the resume
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await readJsonBody(request);
+    const { behavior, resumes_at } = requirePauseFields(body);
+
+    const data = await getBackend().pauseSubscription({
+      customer_id: requireString(body, "customer_id"),
+      stripe_subscription_id: requireString(body, "stripe_subscription_id"),
+      db_status: "paused",
+      stripe_status: behavior,
+      resumes_at,
+    });
+    return NextResponse.json(data ?? { success: true });
+  } catch (err) {
+    return errorResponse(err, "Failed to pause subscription");
+  }
+}
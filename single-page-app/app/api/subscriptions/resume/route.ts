@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { getBackend } from "../../../lib/backend";
+import { errorResponse, readJsonBody, requireString } from "../../../lib/errors";
+
+/**
+ * POST /api/subscriptions/resume
+ * Clears pause_collection on a client subscription and marks the client as active
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await readJsonBody(request);
+
+    const data = await getBackend().resumeSubscription({
+      customer_id: requireString(body, "customer_id"),
+      stripe_subscription_id: requireString(body, "stripe_subscription_id"),
+      db_status: "active",
+      stripe_status: "",
+    });
+    return NextResponse.json(data ?? { success: true });
+  } catch (err) {
+    return errorResponse(err, "Failed to resume subscription");
+  }
+}
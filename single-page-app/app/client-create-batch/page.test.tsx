@@ -0,0 +1,99 @@
+import { fireEvent, screen, waitFor, within } from "@testing-library/react";
+import userEvent, { UserEvent } from "@testing-library/user-event";
+import { File as NodeFile } from "node:buffer";
+import { describe, expect, it } from "vitest";
+import ClientCreateBatch from "./page";
+import { ApiCall, apiError, mockApi } from "../../test/api";
+import { batchJob, clientRow, customerPage, plans } from "../../test/fixtures";
+import { router } from "../../test/navigation";
+import { renderWithProviders } from "../../test/render";
+
+const routes = {
+  "GET /api/customers": customerPage,
+  "GET /api/plans": plans,
+  "GET /api/clients": { total: 1, is_last_page: true, data: [clientRow(21, "Existing Client", "active")] },
+};
+
+async function selectSubOrg(user: UserEvent, name: string) {
+  await user.type(screen.getByPlaceholderText("Search customers..."), name);
+  await user.click(within(screen.getByRole("listbox")).getByRole("option", { name: new RegExp(name) }));
+}
+
+async function selectPlan(user: UserEvent, name: string) {
+  const option = await screen.findByRole("option", { name: new RegExp(name) });
+  await user.selectOptions(screen.getByRole("combobox", { name: /^Plan \*/ }), option);
+}
+
+interface JobBody {
+  customer_id: string;
+  clients: { name: string; email?: string }[];
+}
+
+describe("client-create-batch page", () => {
+  it("starts a job for random clients and opens its progress page", async () => {
+    const user = userEvent.setup();
+    const api = mockApi({ ...routes, "POST /api/jobs": batchJob("job_1", "3", "South Clinic") });
+    renderWithProviders(<ClientCreateBatch />);
+
+    await selectSubOrg(user, "South Clinic");
+    fireEvent.change(screen.getByLabelText(/Number of Clients/), { target: { value: "3" } });
+    await selectPlan(user, "Standard");
+    await user.click(screen.getByRole("button", { name: "Create 3 Clients" }));
+
+    await waitFor(() => expect(router.push).toHaveBeenCalledWith("/jobs/job_1"));
+    const body = api.callsTo("POST /api/jobs")[0].body as JobBody;
+    expect(body).toMatchObject({
+      customer_id: "3",
+      org_name: "South Clinic",
+      parent_org_id: "1",
+      parent_org_name: "Acme Health",
+      plan_id: "7",
+      stripe_price_id: "price_standard",
+    });
+    expect(body.clients).toHaveLength(3);
+    body.clients.forEach((client) => expect(client.name).toEqual(expect.any(String)));
+  });
+
+  it("imports only the ready rows of a file", async () => {
+    const user = userEvent.setup();
+    const api = mockApi({
+      ...routes,
+      // The duplicate is on the second page of the sub-org's clients
+      "GET /api/clients": ({ url }: ApiCall) =>
+        url.searchParams.get("offset") === "0"
+          ? { total: 2, is_last_page: false, data: [clientRow(20, "Other Client", "active")] }
+          : { total: 2, is_last_page: true, data: [clientRow(21, "Existing Client", "active")] },
+      "POST /api/jobs": batchJob("job_2", "2", "North Clinic"),
+    });
+    renderWithProviders(<ClientCreateBatch />);
+
+    await selectSubOrg(user, "North Clinic");
+    await user.click(screen.getByLabelText("Import file"));
+    // jsdom's File cannot be read with text(), Node's can
+    const file = new NodeFile(["name,email\nJane Doe,jane@example.com\nExisting Client,\n"], "clients.csv", {
+      type: "text/csv",
+    });
+    await user.upload(screen.getByLabelText(/Client File/), file as unknown as File);
+    await selectPlan(user, "Standard");
+    await user.click(await screen.findByRole("button", { name: "Create 1 Clients" }));
+
+    await waitFor(() => expect(router.push).toHaveBeenCalledWith("/jobs/job_2"));
+    const body = api.callsTo("POST /api/jobs")[0].body as JobBody;
+    expect(body.customer_id).toBe("2");
+    expect(body.clients).toEqual([expect.objectContaining({ name: "Jane Doe", email: "jane@example.com" })]);
+  });
+
+  it("stays on the form when the job cannot start", async () => {
+    const user = userEvent.setup();
+    mockApi({ ...routes, "POST /api/jobs": apiError(503, "Batch jobs are unavailable") });
+    renderWithProviders(<ClientCreateBatch />);
+
+    await selectSubOrg(user, "North Clinic");
+    await selectPlan(user, "Standard");
+    await user.click(screen.getByRole("button", { name: "Create 10 Clients" }));
+
+    expect(await screen.findByText("Batch jobs are unavailable")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Create 10 Clients" })).toBeEnabled();
+    expect(router.push).not.toHaveBeenCalled();
+  });
+});
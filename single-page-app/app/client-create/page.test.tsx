@@ -0,0 +1,126 @@
+import { screen, within } from "@testing-library/react";
+import userEvent, { UserEvent } from "@testing-library/user-event";
+import { describe, expect, it } from "vitest";
+import ClientCreate from "./page";
+import { apiError, mockApi } from "../../test/api";
+import { customerPage, plans } from "../../test/fixtures";
+import { renderWithProviders } from "../../test/render";
+
+/**
+ * Pick a sub-org from the autocomplete - only sub-orgs are offered
+ */
+async function selectSubOrg(user: UserEvent, name: string) {
+  await user.type(screen.getByPlaceholderText("Search customers..."), name);
+  await user.click(within(screen.getByRole("listbox")).getByRole("option", { name: new RegExp(name) }));
+}
+
+/**
+ * Choose a plan once the plans have loaded
+ */
+async function selectPlan(user: UserEvent, name: string) {
+  const option = await screen.findByRole("option", { name: new RegExp(name) });
+  await user.selectOptions(screen.getByRole("combobox", { name: /^Plan \*/ }), option);
+}
+
+async function fillForm(user: UserEvent) {
+  await selectSubOrg(user, "North Clinic");
+  await user.type(screen.getByLabelText(/Client Name/), "Jane Doe");
+  await selectPlan(user, "Standard");
+}
+
+describe("client-create page", () => {
+  it("subscribes the client to the chosen plan under the sub-org", async () => {
+    const user = userEvent.setup();
+    const api = mockApi({
+      "GET /api/customers": customerPage,
+      "GET /api/plans": plans,
+      "POST /api/clients": { Id: 12 },
+    });
+    renderWithProviders(<ClientCreate />);
+
+    await fillForm(user);
+    await user.click(screen.getByRole("button", { name: "Create Client" }));
+
+    expect(await screen.findByText("Client created successfully! Redirecting...")).toBeInTheDocument();
+    expect(api.callsTo("POST /api/clients")[0].body).toEqual({
+      name: "Jane Doe",
+      customer_id: "2",
+      org_name: "North Clinic",
+      parent_org_id: "1",
+      parent_org_name: "Acme Health",
+      plan_id: "7",
+      stripe_price_id: "price_standard",
+      idempotency_key: expect.any(String),
+    });
+  });
+
+  it("offers only sub-orgs and requires one", async () => {
+    const user = userEvent.setup();
+    const api = mockApi({ "GET /api/customers": customerPage, "GET /api/plans": plans });
+    renderWithProviders(<ClientCreate />);
+
+    await user.click(screen.getByPlaceholderText("Search customers..."));
+    const options = within(await screen.findByRole("listbox")).getAllByRole("option");
+    expect(options.map((option) => option.textContent)).toEqual([
+      expect.stringContaining("North Clinic"),
+      expect.stringContaining("South Clinic"),
+    ]);
+
+    await user.type(screen.getByLabelText(/Client Name/), "Jane Doe");
+    await selectPlan(user, "Standard");
+    await user.click(screen.getByRole("button", { name: "Create Client" }));
+
+    expect(screen.getByText("Please select a sub-organization")).toBeInTheDocument();
+    expect(api.callsTo("POST /api/clients")).toHaveLength(0);
+  });
+
+  it("retries with the same idempotency key and reports a client the first attempt created", async () => {
+    const user = userEvent.setup();
+    let attempts = 0;
+    const api = mockApi({
+      "GET /api/customers": customerPage,
+      "GET /api/plans": plans,
+      "POST /api/clients": () => (++attempts === 1 ? apiError(504, "The backend timed out") : { Id: 12, existing: true }),
+    });
+    renderWithProviders(<ClientCreate />);
+
+    await fillForm(user);
+    await user.click(screen.getByRole("button", { name: "Create Client" }));
+    expect(await screen.findByText("The backend timed out")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Create Client" }));
+
+    expect(
+      await screen.findByText("This client was already created by an earlier attempt! Redirecting...")
+    ).toBeInTheDocument();
+    const [first, retry] = api.callsTo("POST /api/clients").map((call) => call.body as { idempotency_key: string });
+    expect(retry.idempotency_key).toBe(first.idempotency_key);
+  });
+
+  it("keeps the idempotency key when the form is edited before retrying", async () => {
+    const user = userEvent.setup();
+    let attempts = 0;
+    const api = mockApi({
+      "GET /api/customers": customerPage,
+      "GET /api/plans": plans,
+      "POST /api/clients": () => (++attempts === 1 ? apiError(504, "The backend timed out") : { Id: 12, existing: true }),
+    });
+    renderWithProviders(<ClientCreate />);
+
+    await fillForm(user);
+    await user.click(screen.getByRole("button", { name: "Create Client" }));
+    expect(await screen.findByText("The backend timed out")).toBeInTheDocument();
+
+    await user.type(screen.getByLabelText(/Client Name/), " Jr");
+    await user.click(screen.getByRole("button", { name: "Create Client" }));
+
+    expect(
+      await screen.findByText("This client was already created by an earlier attempt! Redirecting...")
+    ).toBeInTheDocument();
+    const [first, retry] = api
+      .callsTo("POST /api/clients")
+      .map((call) => call.body as { name: string; idempotency_key: string });
+    expect(retry.name).toBe("Jane Doe Jr");
+    expect(retry.idempotency_key).toBe(first.idempotency_key);
+  });
+});
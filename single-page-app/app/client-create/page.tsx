@@ -4,7 +4,13 @@ import { useState, FormEvent } from "react";
 import { useRouter } from "next/navigation";
 import { useCustomers, Customer } from "../contexts/CustomerContext";
 import { useApp } from "../contexts/AppContext";
+import { useQueryCache } from "../contexts/QueryContext";
 import CustomerAutocomplete from "../components/CustomerAutocomplete";
+import PricingFields from "../components/PricingFields";
+import { createIdempotencyKey, fetchJson } from "../lib/api";
+import { queryKeys } from "../lib/query-cache";
+import { ClientPricing, ClientPricingPayload, DEFAULT_PRICING, getPricingPayload } from "../lib/pricing";
+import { createClientResultSchema } from "../lib/schema";
 
 /**
  * Client creation page component
@@ -14,17 +20,21 @@ export default function ClientCreate() {
   const router = useRouter();
   const { customers } = useCustomers();
   const { formDraft, saveFormDraft, clearFormDraft } = useApp();
+  const cache = useQueryCache();
   
   const [formData, setFormData] = useState({
     name: "",
   });
   const [customerSearch, setCustomerSearch] = useState("");
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
-  const [recurringInterval, setRecurringInterval] = useState<"day" | "week" | "month" | "year">("month");
-  const [recurringQuantity, setRecurringQuantity] = useState(1);
+  const [pricing, setPricing] = useState<ClientPricing>(DEFAULT_PRICING);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [alreadyCreated, setAlreadyCreated] = useState(false);
+  // Kept for the life of the form, edits included, so a retry after a timeout finds the client the first attempt
+  // started instead of creating a second one - only a confirmed create starts a new key
+  const [idempotencyKey, setIdempotencyKey] = useState(createIdempotencyKey);
 
   // Create flattened list the SAME way as homepage, then filter to sub-orgs only
   const allCustomersFlattened = customers.reduce<(Customer & { uniqueKey?: string; parent_org_id?: string })[]>((acc, customer) => {
@@ -65,21 +75,24 @@ export default function ClientCreate() {
       return;
     }
 
+    // Validate pricing
+    let pricingPayload: ClientPricingPayload;
+    try {
+      pricingPayload = getPricingPayload(pricing);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid pricing");
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
-      const webhookUrl = process.env.NEXT_PUBLIC_WEBHOOK_CREATE_CLIENT;
-      
-      if (!webhookUrl) {
-        throw new Error('NEXT_PUBLIC_WEBHOOK_CREATE_CLIENT is not configured');
-      }
-
       const clientData: any = {
         name: formData.name,
         customer_id: selectedCustomer.id,
         org_name: selectedCustomer.name,
-        recurring_interval: recurringInterval,
-        recurring_quantity: recurringQuantity,
+        ...pricingPayload,
+        idempotency_key: idempotencyKey,
       };
 
       // Add parent org details if this is a sub-org
@@ -95,20 +108,23 @@ export default function ClientCreate() {
 
       console.log('Sending client data:', clientData);
 
-      const response = await fetch(webhookUrl, {
+      const data = await fetchJson('/api/clients', createClientResultSchema, 'Failed to create client', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(clientData),
       });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to create client: ${response.statusText}`);
-      }
+      setAlreadyCreated(data.existing);
+
+      // The sub-org's client list, the client counts and the stats now include the client
+      cache.invalidate(queryKeys.clientsBySubOrg(selectedCustomer.id));
+      cache.invalidate(queryKeys.customers);
+      cache.invalidate(queryKeys.stats);
 
       console.log('Client created successfully');
       
       // Clear form draft on successful submission
       clearFormDraft();
+      setIdempotencyKey(createIdempotencyKey());
       
       setSuccess(true);
       
@@ -176,7 +192,9 @@ export default function ClientCreate() {
                 </div>
                 <div className="ml-3">
                   <p className="text-sm font-medium text-green-800 dark:text-green-200">
-                    Client created successfully! Redirecting...
+                    {alreadyCreated
+                      ? "This client was already created by an earlier attempt! Redirecting..."
+                      : "Client created successfully! Redirecting..."}
                   </p>
                 </div>
               </div>
@@ -267,56 +285,13 @@ export default function ClientCreate() {
             </p>
           </div>
 
-          {/* Recurring Interval Field */}
-          <div>
-            <label
-              htmlFor="recurringInterval"
-              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
-            >
-              Recurring Interval <span className="text-red-500 dark:text-red-400">*</span>
-            </label>
-            <select
-              id="recurringInterval"
-              name="recurringInterval"
-              required
-              value={recurringInterval}
-              onChange={(e) => setRecurringInterval(e.target.value as "day" | "week" | "month" | "year")}
-              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-gray-900 dark:text-white dark:bg-gray-700"
-              disabled={isSubmitting || success}
-            >
-              <option value="day">Day</option>
-              <option value="week">Week</option>
-              <option value="month">Month</option>
-              <option value="year">Year</option>
-            </select>
-            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
-              Billing frequency for this client
-            </p>
-          </div>
-
-          {/* Recurring Quantity Field */}
-          <div>
-            <label
-              htmlFor="recurringQuantity"
-              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
-            >
-              Recurring Quantity <span className="text-red-500 dark:text-red-400">*</span>
-            </label>
-            <input
-              type="number"
-              id="recurringQuantity"
-              name="recurringQuantity"
-              required
-              min="1"
-              value={recurringQuantity}
-              onChange={(e) => setRecurringQuantity(parseInt(e.target.value) || 1)}
-              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-gray-900 dark:text-white dark:bg-gray-700"
-              disabled={isSubmitting || success}
-            />
-            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
-              Number of intervals between billing (e.g., 1 month, 3 months, etc.)
-            </p>
-          </div>
+          {/* Pricing Fields */}
+          <PricingFields
+            value={pricing}
+            onChange={setPricing}
+            disabled={isSubmitting || success}
+            appliesTo="this client"
+          />
 
           {/* Form Actions */}
           <div className="flex gap-4 pt-4 border-t border-gray-200 dark:border-gray-700">
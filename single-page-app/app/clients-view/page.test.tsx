@@ -0,0 +1,207 @@
+import { screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+import ClientsView from "./page";
+import { ApiCall, apiError, mockApi } from "../../test/api";
+import { clientRow, customerPage } from "../../test/fixtures";
+import { router, setSearchParams } from "../../test/navigation";
+import { renderWithProviders } from "../../test/render";
+
+const clientPage = (...rows: ReturnType<typeof clientRow>[]) => ({ total: rows.length, is_last_page: true, data: rows });
+
+const rowFor = (name: string) => within(screen.getByRole("row", { name: new RegExp(name) }));
+
+// A response the test sends when it chooses, to look at the page while the request is in flight
+function deferred() {
+  let resolve: (value: unknown) => void = () => {};
+  const promise = new Promise((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+describe("clients-view page", () => {
+  it("asks for a sub-org when none is in the URL", async () => {
+    const api = mockApi({ "GET /api/customers": customerPage });
+    renderWithProviders(<ClientsView />);
+
+    expect(
+      await screen.findByText("No sub-organization specified. Please select a sub-org from the homepage.")
+    ).toBeInTheDocument();
+    expect(api.callsTo("GET /api/clients")).toHaveLength(0);
+  });
+
+  it("loads the page of clients the URL describes", async () => {
+    setSearchParams({ suborg: "2", name: "North Clinic", parent: "Acme Health", page: "3", size: "25", status: "paused" });
+    const api = mockApi({
+      "GET /api/customers": customerPage,
+      "GET /api/clients": clientPage(clientRow(11, "Jane Doe", "paused")),
+    });
+    renderWithProviders(<ClientsView />);
+
+    expect(await screen.findByText("Jane Doe")).toBeInTheDocument();
+    expect(screen.getByRole("heading", { name: "Clients for Acme Health / North Clinic" })).toBeInTheDocument();
+    expect(Object.fromEntries(api.callsTo("GET /api/clients")[0].url.searchParams)).toEqual({
+      customer_id: "2",
+      offset: "50",
+      limit: "25",
+      sort: "-created",
+      status: "paused",
+    });
+  });
+
+  it("shows a resumed subscription as active before the backend answers, then revalidates", async () => {
+    const user = userEvent.setup();
+    setSearchParams({ suborg: "2" });
+    let status = "paused";
+    const resume = deferred();
+    const api = mockApi({
+      "GET /api/customers": customerPage,
+      "GET /api/clients": () => clientPage(clientRow(11, "Jane Doe", status)),
+      "POST /api/subscriptions/resume": async () => {
+        await resume.promise;
+        status = "active";
+        return { success: true };
+      },
+    });
+    renderWithProviders(<ClientsView />);
+
+    await screen.findByText("Jane Doe");
+    await user.click(rowFor("Jane Doe").getByTitle("Resume the subscription"));
+
+    expect(rowFor("Jane Doe").getByText("active")).toBeInTheDocument();
+    expect(api.callsTo("GET /api/clients")).toHaveLength(1);
+
+    resume.resolve(undefined);
+    await waitFor(() => expect(api.callsTo("GET /api/clients")).toHaveLength(2));
+    expect(await rowFor("Jane Doe").findByTitle("Pause the subscription")).toBeEnabled();
+    expect(api.callsTo("POST /api/subscriptions/resume")[0].body).toEqual({
+      customer_id: "2",
+      stripe_subscription_id: "sub_11",
+    });
+  });
+
+  it("puts a subscription back to paused when resuming fails", async () => {
+    const user = userEvent.setup();
+    const alert = vi.fn();
+    vi.stubGlobal("alert", alert);
+    setSearchParams({ suborg: "2" });
+    mockApi({
+      "GET /api/customers": customerPage,
+      "GET /api/clients": clientPage(clientRow(11, "Jane Doe", "paused")),
+      "POST /api/subscriptions/resume": apiError(502, "Stripe is unavailable"),
+    });
+    renderWithProviders(<ClientsView />);
+
+    await screen.findByText("Jane Doe");
+    await user.click(rowFor("Jane Doe").getByTitle("Resume the subscription"));
+
+    await waitFor(() => expect(alert).toHaveBeenCalledWith("Failed to resume subscription"));
+    expect(rowFor("Jane Doe").getByText("paused")).toBeInTheDocument();
+    expect(rowFor("Jane Doe").getByTitle("Resume the subscription")).toBeInTheDocument();
+  });
+
+  it("shows a subscription as paused once the pause is confirmed, then revalidates", async () => {
+    const user = userEvent.setup();
+    setSearchParams({ suborg: "2" });
+    let status = "active";
+    const pause = deferred();
+    const api = mockApi({
+      "GET /api/customers": customerPage,
+      "GET /api/clients": () => clientPage(clientRow(11, "Jane Doe", status), clientRow(12, "John Roe", "paused")),
+      "POST /api/subscriptions/pause": async () => {
+        await pause.promise;
+        status = "paused";
+        return { success: true };
+      },
+    });
+    renderWithProviders(<ClientsView />);
+
+    await screen.findByText("Jane Doe");
+    expect(rowFor("John Roe").queryByTitle("Pause the subscription")).not.toBeInTheDocument();
+    await user.click(rowFor("Jane Doe").getByTitle("Pause the subscription"));
+    await user.click(screen.getByRole("button", { name: "Pause subscription" }));
+
+    expect(rowFor("Jane Doe").getByText("paused")).toBeInTheDocument();
+    expect(api.callsTo("GET /api/clients")).toHaveLength(1);
+
+    pause.resolve(undefined);
+    await waitFor(() => expect(api.callsTo("GET /api/clients")).toHaveLength(2));
+    expect(await rowFor("Jane Doe").findByTitle("Resume the subscription")).toBeInTheDocument();
+    expect(api.callsTo("POST /api/subscriptions/pause")[0].body).toEqual({
+      customer_id: "2",
+      stripe_subscription_id: "sub_11",
+      behavior: "void",
+    });
+  });
+
+  it("puts a subscription back to active when pausing fails", async () => {
+    const user = userEvent.setup();
+    setSearchParams({ suborg: "2" });
+    mockApi({
+      "GET /api/customers": customerPage,
+      "GET /api/clients": clientPage(clientRow(11, "Jane Doe", "active")),
+      "POST /api/subscriptions/pause": apiError(502, "Stripe is unavailable"),
+    });
+    renderWithProviders(<ClientsView />);
+
+    await screen.findByText("Jane Doe");
+    await user.click(rowFor("Jane Doe").getByTitle("Pause the subscription"));
+    await user.click(screen.getByRole("button", { name: "Pause subscription" }));
+
+    expect(await screen.findByText("Stripe is unavailable")).toBeInTheDocument();
+    expect(rowFor("Jane Doe").getByText("active")).toBeInTheDocument();
+    expect(rowFor("Jane Doe").getByTitle("Pause the subscription")).toBeInTheDocument();
+  });
+
+  it("selects every client matching the search, not just the page", async () => {
+    const user = userEvent.setup();
+    setSearchParams({ suborg: "2", q: "doe" });
+    const matching = [
+      clientRow(11, "Jane Doe", "active"),
+      clientRow(12, "John Doe", "paused"),
+      clientRow(13, "Jim Doe", "active"),
+    ];
+    const api = mockApi({
+      "GET /api/customers": customerPage,
+      "GET /api/clients": ({ url }: ApiCall) =>
+        url.searchParams.get("limit") === "1000"
+          ? clientPage(...matching)
+          : { total: 3, is_last_page: false, data: matching.slice(0, 2) },
+    });
+    renderWithProviders(<ClientsView />);
+
+    await screen.findByText("Jane Doe");
+    expect(screen.getByRole("link", { name: "Export CSV" })).toHaveAttribute(
+      "href",
+      "/api/export?format=csv&customer_id=2&search=doe"
+    );
+
+    await user.click(screen.getByTitle("Select all clients on this page"));
+    expect(screen.getByText("2 selected")).toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: "Select all 3 matching" }));
+
+    expect(await screen.findByText("3 selected")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Pause (2)" })).toBeEnabled();
+    expect(screen.getByRole("button", { name: "Resume (1)" })).toBeEnabled();
+    const selectAll = api.callsTo("GET /api/clients").at(-1);
+    expect(Object.fromEntries(selectAll?.url.searchParams ?? [])).toMatchObject({ customer_id: "2", search: "doe" });
+  });
+
+  it("puts the search in the URL once typing stops", async () => {
+    const user = userEvent.setup();
+    setSearchParams({ suborg: "2", page: "2" });
+    mockApi({
+      "GET /api/customers": customerPage,
+      "GET /api/clients": clientPage(clientRow(11, "Jane Doe", "active")),
+    });
+    renderWithProviders(<ClientsView />);
+
+    await screen.findByText("Jane Doe");
+    await user.type(screen.getByPlaceholderText("Search clients..."), " jane ");
+
+    await waitFor(() => expect(router.replace).toHaveBeenCalled());
+    expect(router.replace).toHaveBeenCalledTimes(1);
+    expect(router.replace).toHaveBeenCalledWith("/clients-view?suborg=2&q=jane", { scroll: false });
+  });
+});
@@ -1,192 +1,327 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
-import { useSearchParams } from "next/navigation";
+import React, { useState, useEffect, useCallback } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import BulkSubscriptionDialog, { BulkSubscriptionAction } from "../components/BulkSubscriptionDialog";
+import CancelSubscriptionDialog from "../components/CancelSubscriptionDialog";
+import ChangePlanDialog from "../components/ChangePlanDialog";
+import ExportButtons from "../components/ExportButtons";
+import PauseSubscriptionDialog, { PauseResult } from "../components/PauseSubscriptionDialog";
+import { useQuery, useQueryCache } from "../contexts/QueryContext";
+import { fetchAllPages, fetchJson, getErrorMessage } from "../lib/api";
+import {
+  CLIENT_PAGE_SIZES,
+  CLIENT_STATUS_FILTERS,
+  ClientSort,
+  ClientSortField,
+  DEFAULT_CLIENT_PAGE_SIZE,
+  DEFAULT_CLIENT_SORT,
+  isClientSort,
+} from "../lib/clients";
+import { queryKeys } from "../lib/query-cache";
+import { Client, clientSchema, ListPage, listPage } from "../lib/schema";
+import { getSubscriptionStatusBadgeClass, PAUSE_BEHAVIOR_LABELS } from "../lib/subscriptions";
 
-/**
- * Client type definition
- */
-interface Client {
-  id: string;
-  name: string;
-  customer_id: string;
-  org_name: string;
-  parent_org_id?: string;
-  parent_org_name?: string;
-  created?: number;
-  // Stripe fields
-  stripe_customer_id?: string;
-  stripe_subscription_id?: string;
-  stripe_subscription_status?: string;
-}
+const clientListSchema = listPage(clientSchema);
+
+// Delay before a search is applied while typing
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Direction a column sorts in when first clicked - newest first for dates
+const FIRST_SORT: Record<ClientSortField, ClientSort> = {
+  name: "name",
+  created: "-created",
+  status: "status",
+};
 
 /**
  * Clients view page component
- * Displays clients for a specific sub-organization
- * Expects ?suborg=ID in the URL
+ * Displays a page of clients for a specific sub-organization
+ * Expects ?suborg=ID in the URL; page, size, sort, status and q hold the list state so it can be shared and bookmarked
  */
 export default function ClientsView() {
+  const router = useRouter();
   const searchParams = useSearchParams();
+  const cache = useQueryCache();
   const suborgId = searchParams.get("suborg");
   const suborgName = searchParams.get("name") || "Sub-Organization";
   const parentOrgName = searchParams.get("parent") || "";
-  
-  const [clients, setClients] = useState<Client[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const page = Math.max(1, Math.floor(Number(searchParams.get("page"))) || 1);
+  const sizeParam = Number(searchParams.get("size"));
+  const pageSize = CLIENT_PAGE_SIZES.includes(sizeParam) ? sizeParam : DEFAULT_CLIENT_PAGE_SIZE;
+  const sortParam = searchParams.get("sort") || "";
+  const sort = isClientSort(sortParam) ? sortParam : DEFAULT_CLIENT_SORT;
+  const statusFilter = searchParams.get("status") || "all";
+  const search = searchParams.get("q") || "";
+  const hasFilters = statusFilter !== "all" || search !== "";
+
   const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [clientToChange, setClientToChange] = useState<Client | null>(null);
+  const [clientToCancel, setClientToCancel] = useState<Client | null>(null);
+  const [clientToPause, setClientToPause] = useState<Client | null>(null);
+  const [searchInput, setSearchInput] = useState(search);
+  // Selected clients by id - select all matching can take in clients from every page
+  const [selection, setSelection] = useState<Map<string, Client>>(new Map());
+  const [selectingAll, setSelectingAll] = useState(false);
+  const [selectAllError, setSelectAllError] = useState<string | null>(null);
+  // Targets are captured when the dialog opens - the selection is cleared once the run finishes
+  const [bulkRun, setBulkRun] = useState<{ action: BulkSubscriptionAction; clients: Client[] } | null>(null);
 
   /**
-   * Fetch clients from webhook for specific sub-org
+   * Update the list state in the URL - any change other than the page goes back to the first page
+   * Typing a search replaces the history entry instead of adding one per keystroke
    */
-  const fetchClients = async () => {
-    if (!suborgId) {
-      setError("No sub-organization specified. Please select a sub-org from the homepage.");
-      setLoading(false);
-      return;
+  const updateListParams = useCallback((changes: Record<string, string | null>, replace = false) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (!("page" in changes)) {
+      params.delete("page");
     }
-
-    try {
-      setLoading(true);
-      setError(null);
-      
-      const webhookUrl = process.env.NEXT_PUBLIC_WEBHOOK_GET_CLIENTS;
-      
-      if (!webhookUrl) {
-        console.warn('NEXT_PUBLIC_WEBHOOK_GET_CLIENTS is not configured');
-        setClients([]);
-        setLoading(false);
-        return;
-      }
-
-      const response = await fetch(webhookUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ customer_id: suborgId }),
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch clients: ${response.statusText}`);
-      }
-      
-      let data = await response.json();
-      
-      // Handle various response formats:
-      // - Direct array: [...]
-      // - Wrapped: { data: [...] }
-      // - Array wrapped: [{ data: [...] }]
-      if (Array.isArray(data) && data.length > 0 && data[0].data) {
-        data = data[0].data;
-      } else if (data && data.data && Array.isArray(data.data)) {
-        data = data.data;
-      }
-      
-      if (Array.isArray(data)) {
-        const transformedClients = data.map((client: any) => ({
-          id: String(client.id || client.Id),
-          name: client.name || client.Name || "",
-          customer_id: String(client.customer_id || client.customerId || client.CustomerId || ""),
-          org_name: client.org_name || client.orgName || client.OrgName || "",
-          parent_org_id: client.parent_org_id || client.parentOrgId || client.ParentOrgId,
-          parent_org_name: client.parent_org_name || client.parentOrgName || client.ParentOrgName,
-          created: client.created || 
-            (client.CreatedAt ? new Date(client.CreatedAt).getTime() / 1000 : undefined),
-          // Stripe fields
-          stripe_customer_id: client.stripe_customer_id || client.stripeCustomerId,
-          stripe_subscription_id: client.stripe_subscription_id || client.stripeSubscriptionId,
-          stripe_subscription_status: client.stripe_subscription_status || client.stripeSubscriptionStatus,
-        }));
-        setClients(transformedClients);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value === null) {
+        params.delete(key);
       } else {
-        setClients([]);
+        params.set(key, value);
       }
-    } catch (err) {
-      const message = err instanceof Error ? err.message : "Failed to fetch clients";
-      setError(message);
-      console.error('Error fetching clients:', err);
-    } finally {
-      setLoading(false);
+    });
+
+    const url = `/clients-view?${params.toString()}`;
+    if (replace) {
+      router.replace(url, { scroll: false });
+    } else {
+      router.push(url, { scroll: false });
     }
-  };
+  }, [router, searchParams]);
+
+  /**
+   * The current page of clients for the sub-org, from the query cache
+   * The previous page stays on screen, dimmed, while another page loads
+   */
+  const listParams = new URLSearchParams({
+    customer_id: suborgId ?? "",
+    offset: String((page - 1) * pageSize),
+    limit: String(pageSize),
+    sort,
+  });
+  if (statusFilter !== "all") {
+    listParams.set("status", statusFilter);
+  }
+  if (search) {
+    listParams.set("search", search);
+  }
+  const clientsQuery = useQuery(
+    suborgId ? queryKeys.clientPage(suborgId, listParams.toString()) : null,
+    () => fetchJson(`/api/clients?${listParams.toString()}`, clientListSchema, 'Failed to fetch clients'),
+    { keepPreviousData: true }
+  );
+  const clients = clientsQuery.data?.data ?? [];
+  const total = clientsQuery.data?.total ?? 0;
+  const loading = clientsQuery.loading;
+  const error = suborgId
+    ? clientsQuery.error
+    : "No sub-organization specified. Please select a sub-org from the homepage.";
 
   useEffect(() => {
-    fetchClients();
-  }, [suborgId]);
+    // The selection only covers clients matching the filter, and is kept while paging through them
+    setSelection(new Map());
+    setSelectAllError(null);
+  }, [suborgId, statusFilter, search]);
 
   /**
-   * Pause subscription
+   * Refetch this sub-org's clients after a change, along with the client counts on the customers and the stats
+   * The rows on screen stay until the new data arrives
    */
-  const handlePauseSubscription = async (client: Client) => {
-    const webhookUrl = process.env.NEXT_PUBLIC_WEBHOOK_PAUSE_SUBSCRIPTION;
-    if (!webhookUrl) {
-      alert('Pause subscription webhook not configured');
+  const refreshClients = () => {
+    if (suborgId) {
+      cache.invalidate(queryKeys.clientsBySubOrg(suborgId));
+    }
+    cache.invalidate(queryKeys.customers);
+    cache.invalidate(queryKeys.stats);
+  };
+
+  /**
+   * Update a client in every cached page of this sub-org
+   * @returns a function that undoes the update
+   */
+  const patchClient = (clientId: string, changes: Partial<Client>) =>
+    cache.patch<ListPage<Client>>(queryKeys.clientsBySubOrg(suborgId ?? ""), (list) => ({
+      ...list,
+      data: list.data.map((client) => (client.id === clientId ? { ...client, ...changes } : client)),
+    }));
+
+  // Keep the search box in step with the URL, e.g. after going back
+  useEffect(() => {
+    setSearchInput(search);
+  }, [search]);
+
+  useEffect(() => {
+    if (searchInput.trim() === search) {
       return;
     }
+    const timer = setTimeout(() => updateListParams({ q: searchInput.trim() || null }, true), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput, search, updateListParams]);
+
+  /**
+   * Sort by a column, flipping the direction when it is already sorted by it
+   */
+  const handleSort = (field: ClientSortField) => {
+    const next = sort === field ? `-${field}` : sort === `-${field}` ? field : FIRST_SORT[field];
+    updateListParams({ sort: next === DEFAULT_CLIENT_SORT ? null : next });
+  };
 
+  /**
+   * Column header that sorts the list, with an arrow for the current direction
+   */
+  const renderSortHeader = (field: ClientSortField, label: string) => (
+    <button
+      onClick={() => handleSort(field)}
+      className="inline-flex items-center gap-1 uppercase tracking-wider hover:text-gray-700 dark:hover:text-white"
+    >
+      {label}
+      {sort === field && <span aria-hidden="true">▲</span>}
+      {sort === `-${field}` && <span aria-hidden="true">▼</span>}
+    </button>
+  );
+
+  /**
+   * Resume subscription
+   * The row shows as active straight away and goes back to paused if the request fails
+   */
+  const handleResumeSubscription = async (client: Client) => {
     setActionLoading(client.id);
+    const rollback = patchClient(client.id, {
+      stripe_subscription_status: 'active',
+      pause_behavior: undefined,
+      pause_resumes_at: undefined,
+    });
     try {
-      const response = await fetch(webhookUrl, {
+      const response = await fetch('/api/subscriptions/resume', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           customer_id: suborgId,
           stripe_subscription_id: client.stripe_subscription_id,
-          db_status: "paused",
-          stripe_status: "void",
         }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to pause subscription');
+        throw new Error(await getErrorMessage(response, 'Failed to resume subscription'));
       }
 
-      // Refresh the clients list
-      await fetchClients();
     } catch (err) {
-      console.error('Error pausing subscription:', err);
-      alert('Failed to pause subscription');
+      console.error('Error resuming subscription:', err);
+      rollback();
+      alert('Failed to resume subscription');
     } finally {
       setActionLoading(null);
+      refreshClients();
     }
   };
 
   /**
-   * Resume subscription
+   * Show the subscription as paused once the pause is confirmed, before the backend answers
+   * @returns a function that puts the row back, for when the request fails
    */
-  const handleResumeSubscription = async (client: Client) => {
-    const webhookUrl = process.env.NEXT_PUBLIC_WEBHOOK_RESUME_SUBSCRIPTION;
-    if (!webhookUrl) {
-      alert('Resume subscription webhook not configured');
-      return;
+  const handlePausing = (client: Client, pause: PauseResult) =>
+    patchClient(client.id, {
+      stripe_subscription_status: 'paused',
+      pause_behavior: pause.behavior,
+      pause_resumes_at: pause.resumes_at,
+    });
+
+  /**
+   * Whether a bulk action applies to a client in its current state
+   */
+  const canApplyBulkAction = (client: Client, action: BulkSubscriptionAction) => {
+    if (!client.stripe_subscription_id) {
+      return false;
+    }
+    switch (action) {
+      case 'pause':
+        return client.stripe_subscription_status === 'active';
+      case 'resume':
+        return client.stripe_subscription_status === 'paused';
+      case 'cancel':
+        return client.stripe_subscription_status !== 'canceled' && !client.cancel_at;
     }
+  };
 
-    setActionLoading(client.id);
-    try {
-      const response = await fetch(webhookUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          customer_id: suborgId,
-          stripe_subscription_id: client.stripe_subscription_id,
-          db_status: "active",
-          stripe_status: "",
-        }),
-      });
+  const isSelectable = (client: Client) =>
+    (['pause', 'resume', 'cancel'] as BulkSubscriptionAction[]).some((action) => canApplyBulkAction(client, action));
 
-      if (!response.ok) {
-        throw new Error('Failed to resume subscription');
+  // The header checkbox applies to the clients on this page, select all matching to every page
+  const selectableClients = clients.filter(isSelectable);
+  const allSelected = selectableClients.length > 0 && selectableClients.every((client) => selection.has(client.id));
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+  // Rows on this page are fresher than the copies taken when they were selected, e.g. after a pause
+  const clientsOnPage = new Map(clients.map((client) => [client.id, client]));
+  const selectedClients = Array.from(selection.values(), (client) => clientsOnPage.get(client.id) ?? client);
+
+  const getBulkTargets = (action: BulkSubscriptionAction) =>
+    selectedClients.filter((client) => canApplyBulkAction(client, action));
+
+  /**
+   * Toggle one client in the selection
+   */
+  const handleToggleClient = (client: Client) => {
+    const next = new Map(selection);
+    if (next.has(client.id)) {
+      next.delete(client.id);
+    } else {
+      next.set(client.id, client);
+    }
+    setSelection(next);
+  };
+
+  /**
+   * Select or deselect every selectable client on this page
+   */
+  const handleToggleAll = () => {
+    const next = new Map(selection);
+    selectableClients.forEach((client) => {
+      if (allSelected) {
+        next.delete(client.id);
+      } else {
+        next.set(client.id, client);
       }
+    });
+    setSelection(next);
+  };
+
+  /**
+   * Select every selectable client matching the filter, on every page
+   * The clients are fetched from the server since only this page is loaded
+   */
+  const handleSelectAllMatching = async () => {
+    const params = new URLSearchParams({ customer_id: suborgId ?? "", sort });
+    if (statusFilter !== "all") {
+      params.set("status", statusFilter);
+    }
+    if (search) {
+      params.set("search", search);
+    }
 
-      // Refresh the clients list
-      await fetchClients();
+    setSelectingAll(true);
+    setSelectAllError(null);
+    try {
+      const matching = await fetchAllPages(`/api/clients?${params.toString()}`, clientListSchema, 'Failed to select clients');
+      setSelection(new Map(matching.filter(isSelectable).map((client) => [client.id, client])));
     } catch (err) {
-      console.error('Error resuming subscription:', err);
-      alert('Failed to resume subscription');
+      console.error('Error selecting all matching clients:', err);
+      setSelectAllError(err instanceof Error ? err.message : 'Failed to select clients');
     } finally {
-      setActionLoading(null);
+      setSelectingAll(false);
     }
   };
 
+  /**
+   * Refresh after a bulk run - the selection no longer reflects the clients' states
+   */
+  const handleBulkDone = () => {
+    setSelection(new Map());
+    refreshClients();
+  };
+
   /**
    * Get Stripe dashboard URL for subscription
    */
@@ -198,22 +333,6 @@ export default function ClientsView() {
     return `https://dashboard.stripe.com/test/subscriptions/${client.stripe_subscription_id}`;
   };
 
-  /**
-   * Get status badge color
-   */
-  const getStatusBadgeClass = (status?: string) => {
-    switch (status) {
-      case 'active':
-        return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
-      case 'paused':
-        return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
-      case 'canceled':
-        return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
-      default:
-        return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300';
-    }
-  };
-
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       {/* Header */}
@@ -240,18 +359,94 @@ export default function ClientsView() {
           Total Clients
         </div>
         <div className="text-3xl font-bold text-gray-900 dark:text-white">
-          {clients.length}
+          {total}
         </div>
+        {hasFilters && (
+          <div className="mt-1 text-sm text-gray-500 dark:text-gray-400">matching the filter</div>
+        )}
       </div>
 
       {/* Clients List */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md transition-colors">
         <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
           <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Clients</h2>
+
+          {/* Filter and Bulk Actions */}
+          {(total > 0 || hasFilters) && (
+            <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 mt-4">
+              <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                <input
+                  type="search"
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  placeholder="Search clients..."
+                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm text-gray-900 dark:text-white dark:bg-gray-700"
+                />
+                <div className="flex flex-wrap gap-1">
+                  {[{ value: "all", label: "All" }, ...CLIENT_STATUS_FILTERS].map(({ value, label }) => (
+                    <button
+                      key={value}
+                      onClick={() => updateListParams({ status: value === "all" ? null : value })}
+                      className={`px-3 py-1 text-sm font-medium rounded-full border transition-colors ${
+                        statusFilter === value
+                          ? "bg-blue-600 border-blue-600 text-white dark:bg-blue-500 dark:border-blue-500"
+                          : "border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <ExportButtons customerId={suborgId || undefined} status={statusFilter} search={search} />
+              </div>
+              {selectedClients.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-gray-600 dark:text-gray-300">{selectedClients.length} selected</span>
+                  {allSelected && total > clients.length && selection.size <= selectableClients.length && (
+                    <button
+                      onClick={handleSelectAllMatching}
+                      disabled={selectingAll}
+                      className="px-2 py-1.5 font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 disabled:opacity-50"
+                    >
+                      {selectingAll ? "Selecting..." : `Select all ${total} matching`}
+                    </button>
+                  )}
+                  {selectAllError && <span className="text-red-600 dark:text-red-400">{selectAllError}</span>}
+                  <button
+                    onClick={() => setBulkRun({ action: 'pause', clients: getBulkTargets('pause') })}
+                    disabled={getBulkTargets('pause').length === 0}
+                    className="px-3 py-1.5 font-medium rounded-md text-white bg-yellow-600 hover:bg-yellow-700 dark:bg-yellow-500 dark:hover:bg-yellow-600 disabled:opacity-50"
+                  >
+                    Pause ({getBulkTargets('pause').length})
+                  </button>
+                  <button
+                    onClick={() => setBulkRun({ action: 'resume', clients: getBulkTargets('resume') })}
+                    disabled={getBulkTargets('resume').length === 0}
+                    className="px-3 py-1.5 font-medium rounded-md text-white bg-green-600 hover:bg-green-700 dark:bg-green-500 dark:hover:bg-green-600 disabled:opacity-50"
+                  >
+                    Resume ({getBulkTargets('resume').length})
+                  </button>
+                  <button
+                    onClick={() => setBulkRun({ action: 'cancel', clients: getBulkTargets('cancel') })}
+                    disabled={getBulkTargets('cancel').length === 0}
+                    className="px-3 py-1.5 font-medium rounded-md text-white bg-red-600 hover:bg-red-700 dark:bg-red-500 dark:hover:bg-red-600 disabled:opacity-50"
+                  >
+                    Cancel ({getBulkTargets('cancel').length})
+                  </button>
+                  <button
+                    onClick={() => setSelection(new Map())}
+                    className="px-3 py-1.5 font-medium text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white"
+                  >
+                    Clear
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
         </div>
         
         <div className="p-6">
-          {loading ? (
+          {loading && clients.length === 0 ? (
             <div className="text-center py-12">
               <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 dark:border-blue-400"></div>
               <p className="mt-4 text-gray-600 dark:text-gray-300">Loading clients...</p>
@@ -266,7 +461,7 @@ export default function ClientsView() {
                 ← Back to Customers
               </a>
             </div>
-          ) : clients.length === 0 ? (
+          ) : total === 0 && !hasFilters ? (
             <div className="text-center py-12">
               <svg
                 className="mx-auto h-12 w-12 text-gray-400 dark:text-gray-500"
@@ -303,124 +498,287 @@ export default function ClientsView() {
               </div>
             </div>
           ) : (
-            <div className="overflow-x-auto">
-              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
-                <thead className="bg-gray-50 dark:bg-gray-700">
-                  <tr>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                      Client Name
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                      Status
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                      Created
-                    </th>
-                    <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                      Actions
-                    </th>
-                  </tr>
-                </thead>
-                <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-                  {clients.map((client, index) => {
-                    const stripeUrl = getStripeDashboardUrl(client);
-                    const isActionLoading = actionLoading === client.id;
-                    
-                    return (
-                      <tr key={client.id || index} className="hover:bg-gray-50 dark:hover:bg-gray-700">
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm font-medium text-gray-900 dark:text-white">
-                            {client.name}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusBadgeClass(client.stripe_subscription_status)}`}>
-                            {client.stripe_subscription_status || 'unknown'}
-                          </span>
+            <div className={`transition-opacity ${loading ? "opacity-50" : ""}`}>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead className="bg-gray-50 dark:bg-gray-700">
+                    <tr>
+                      <th className="pl-6 py-3 w-4">
+                        <input
+                          type="checkbox"
+                          checked={allSelected}
+                          onChange={handleToggleAll}
+                          disabled={selectableClients.length === 0}
+                          title="Select all clients on this page"
+                        />
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        {renderSortHeader("name", "Client Name")}
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        {renderSortHeader("status", "Status")}
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        {renderSortHeader("created", "Created")}
+                      </th>
+                      <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                    {clients.length === 0 && (
+                      <tr>
+                        <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                          {total > 0 ? "No clients on this page" : "No clients match the filter"}
                         </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                          {client.created 
-                            ? new Date(client.created * 1000).toLocaleDateString()
-                            : "-"
-                          }
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-center">
-                          <div className="flex items-center justify-center gap-3">
-                            {/* Pause Button - only show for active subscriptions */}
-                            {client.stripe_subscription_status === 'active' && (
-                              <button
-                                onClick={() => handlePauseSubscription(client)}
-                                disabled={isActionLoading}
-                                className="text-yellow-600 hover:text-yellow-800 dark:text-yellow-400 dark:hover:text-yellow-300 disabled:opacity-50 transition-colors"
-                                title="Pause the subscription"
-                              >
-                                {isActionLoading ? (
-                                  <svg className="w-5 h-5 animate-spin" fill="none" viewBox="0 0 24 24">
-                                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"></path>
+                      </tr>
+                    )}
+                    {clients.map((client, index) => {
+                      const stripeUrl = getStripeDashboardUrl(client);
+                      const isActionLoading = actionLoading === client.id;
+                      
+                      return (
+                        <tr key={client.id || index} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                          <td className="pl-6 py-4 w-4">
+                            <input
+                              type="checkbox"
+                              checked={selection.has(client.id)}
+                              onChange={() => handleToggleClient(client)}
+                              disabled={!isSelectable(client)}
+                              aria-label={`Select ${client.name}`}
+                            />
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm font-medium text-gray-900 dark:text-white">
+                              {client.name}
+                            </div>
+                            {(client.email || client.external_ref) && (
+                              <div className="text-xs text-gray-500 dark:text-gray-400">
+                                {[client.email, client.external_ref].filter(Boolean).join(" · ")}
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getSubscriptionStatusBadgeClass(client.stripe_subscription_status)}`}>
+                              {client.stripe_subscription_status || 'unknown'}
+                            </span>
+                            {client.stripe_subscription_status === 'paused' && client.pause_behavior && (
+                              <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                                {PAUSE_BEHAVIOR_LABELS[client.pause_behavior]?.label ?? client.pause_behavior}
+                                {client.pause_resumes_at
+                                  ? ` - resumes ${new Date(client.pause_resumes_at * 1000).toLocaleDateString()}`
+                                  : ''}
+                              </div>
+                            )}
+                            {client.cancel_at && (
+                              <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                                {client.stripe_subscription_status === 'canceled' ? 'Canceled' : 'Cancels'}{' '}
+                                {new Date(client.cancel_at * 1000).toLocaleDateString()}
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                            {client.created 
+                              ? new Date(client.created * 1000).toLocaleDateString()
+                              : "-"
+                            }
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-center">
+                            <div className="flex items-center justify-center gap-3">
+                              {/* Pause Button - only show for active subscriptions */}
+                              {client.stripe_subscription_status === 'active' && (
+                                <button
+                                  onClick={() => setClientToPause(client)}
+                                  disabled={isActionLoading}
+                                  className="text-yellow-600 hover:text-yellow-800 dark:text-yellow-400 dark:hover:text-yellow-300 disabled:opacity-50 transition-colors"
+                                  title="Pause the subscription"
+                                >
+                                  {isActionLoading ? (
+                                    <svg className="w-5 h-5 animate-spin" fill="none" viewBox="0 0 24 24">
+                                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"></path>
+                                    </svg>
+                                  ) : (
+                                    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                    </svg>
+                                  )}
+                                </button>
+                              )}
+
+                              {/* Resume Button - only show for paused subscriptions */}
+                              {client.stripe_subscription_status === 'paused' && (
+                                <button
+                                  onClick={() => handleResumeSubscription(client)}
+                                  disabled={isActionLoading}
+                                  className="text-green-600 hover:text-green-800 dark:text-green-400 dark:hover:text-green-300 disabled:opacity-50 transition-colors"
+                                  title="Resume the subscription"
+                                >
+                                  {isActionLoading ? (
+                                    <svg className="w-5 h-5 animate-spin" fill="none" viewBox="0 0 24 24">
+                                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"></path>
+                                    </svg>
+                                  ) : (
+                                    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                    </svg>
+                                  )}
+                                </button>
+                              )}
+
+                              {/* Change Plan Button - only show for subscriptions that are still billing */}
+                              {client.stripe_subscription_id && client.stripe_subscription_status !== 'canceled' && (
+                                <button
+                                  onClick={() => setClientToChange(client)}
+                                  disabled={isActionLoading}
+                                  className="text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300 disabled:opacity-50 transition-colors"
+                                  title="Change plan"
+                                >
+                                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
                                   </svg>
-                                ) : (
+                                </button>
+                              )}
+
+                              {/* Cancel Button - hidden once canceled or a cancellation is scheduled */}
+                              {client.stripe_subscription_id && client.stripe_subscription_status !== 'canceled' && !client.cancel_at && (
+                                <button
+                                  onClick={() => setClientToCancel(client)}
+                                  disabled={isActionLoading}
+                                  className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 disabled:opacity-50 transition-colors"
+                                  title="Cancel the subscription"
+                                >
                                   <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
                                   </svg>
-                                )}
-                              </button>
-                            )}
+                                </button>
+                              )}
 
-                            {/* Resume Button - only show for paused subscriptions */}
-                            {client.stripe_subscription_status === 'paused' && (
-                              <button
-                                onClick={() => handleResumeSubscription(client)}
-                                disabled={isActionLoading}
-                                className="text-green-600 hover:text-green-800 dark:text-green-400 dark:hover:text-green-300 disabled:opacity-50 transition-colors"
-                                title="Resume the subscription"
-                              >
-                                {isActionLoading ? (
-                                  <svg className="w-5 h-5 animate-spin" fill="none" viewBox="0 0 24 24">
-                                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"></path>
+                              {/* Open in Stripe Dashboard */}
+                              {stripeUrl ? (
+                                <a
+                                  href={stripeUrl}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 transition-colors"
+                                  title="Open in Stripe Dashboard"
+                                >
+                                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
                                   </svg>
-                                ) : (
+                                </a>
+                              ) : (
+                                <span className="text-gray-300 dark:text-gray-600" title="No Stripe subscription">
                                   <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
                                   </svg>
-                                )}
-                              </button>
-                            )}
+                                </span>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
 
-                            {/* Open in Stripe Dashboard */}
-                            {stripeUrl ? (
-                              <a
-                                href={stripeUrl}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 transition-colors"
-                                title="Open in Stripe Dashboard"
-                              >
-                                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
-                                </svg>
-                              </a>
-                            ) : (
-                              <span className="text-gray-300 dark:text-gray-600" title="No Stripe subscription">
-                                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
-                                </svg>
-                              </span>
-                            )}
-                          </div>
-                        </td>
-                      </tr>
-                    );
-                  })}
-                </tbody>
-              </table>
+              {/* Pagination */}
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 pt-4 text-sm text-gray-600 dark:text-gray-300">
+                <div className="flex items-center gap-2">
+                  <span>
+                    {total === 0
+                      ? "0 clients"
+                      : `${Math.min((page - 1) * pageSize + 1, total)}-${Math.min(page * pageSize, total)} of ${total}`}
+                  </span>
+                  <select
+                    value={pageSize}
+                    onChange={(e) => updateListParams({ size: e.target.value === String(DEFAULT_CLIENT_PAGE_SIZE) ? null : e.target.value })}
+                    className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-900 dark:text-white dark:bg-gray-700"
+                    aria-label="Clients per page"
+                  >
+                    {CLIENT_PAGE_SIZES.map((size) => (
+                      <option key={size} value={size}>{size} per page</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => updateListParams({ page: page > 2 ? String(page - 1) : null })}
+                    disabled={page <= 1}
+                    className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                  >
+                    Previous
+                  </button>
+                  <span>Page {page} of {totalPages}</span>
+                  <button
+                    onClick={() => updateListParams({ page: String(page + 1) })}
+                    disabled={page >= totalPages}
+                    className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                  >
+                    Next
+                  </button>
+                </div>
+              </div>
             </div>
           )}
         </div>
       </div>
 
+      {clientToChange && clientToChange.stripe_subscription_id && suborgId && (
+        <ChangePlanDialog
+          client={{
+            name: clientToChange.name,
+            stripe_subscription_id: clientToChange.stripe_subscription_id,
+            stripe_price_id: clientToChange.stripe_price_id,
+          }}
+          customerId={suborgId}
+          onClose={() => setClientToChange(null)}
+          onChanged={refreshClients}
+        />
+      )}
+
+      {bulkRun && suborgId && (
+        <BulkSubscriptionDialog
+          action={bulkRun.action}
+          clients={bulkRun.clients.map((client) => ({
+            id: client.id,
+            name: client.name,
+            stripe_subscription_id: client.stripe_subscription_id as string,
+          }))}
+          customerId={suborgId}
+          onClose={() => setBulkRun(null)}
+          onDone={handleBulkDone}
+        />
+      )}
+
+      {clientToPause && clientToPause.stripe_subscription_id && suborgId && (
+        <PauseSubscriptionDialog
+          client={{
+            name: clientToPause.name,
+            stripe_subscription_id: clientToPause.stripe_subscription_id,
+          }}
+          customerId={suborgId}
+          onClose={() => setClientToPause(null)}
+          onPausing={(pause) => handlePausing(clientToPause, pause)}
+          onPaused={refreshClients}
+        />
+      )}
+
+      {clientToCancel && clientToCancel.stripe_subscription_id && suborgId && (
+        <CancelSubscriptionDialog
+          client={{
+            name: clientToCancel.name,
+            stripe_subscription_id: clientToCancel.stripe_subscription_id,
+          }}
+          customerId={suborgId}
+          onClose={() => setClientToCancel(null)}
+          onCanceled={refreshClients}
+        />
+      )}
     </div>
   );
 }
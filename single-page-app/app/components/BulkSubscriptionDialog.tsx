@@ -0,0 +1,182 @@
+"use client";
+
+import { useState } from "react";
+import CancelWhenFields from "./CancelWhenFields";
+import PauseOptionsFields from "./PauseOptionsFields";
+import { getErrorMessage, runWithConcurrency } from "../lib/api";
+import { CancelWhen, DEFAULT_PAUSE_OPTIONS, PauseOptions, toResumesAt } from "../lib/subscriptions";
+
+export type BulkSubscriptionAction = "pause" | "resume" | "cancel";
+
+/**
+ * A selected client - only clients with a Stripe subscription can be included
+ */
+interface BulkSubscriptionClient {
+  id: string;
+  name: string;
+  stripe_subscription_id: string;
+}
+
+interface BulkSubscriptionDialogProps {
+  action: BulkSubscriptionAction;
+  clients: BulkSubscriptionClient[];
+  // Sub-org the clients belong to
+  customerId: string;
+  onClose: () => void;
+  // Called after the run so the caller can refresh and clear its selection
+  onDone: () => void;
+}
+
+// Requests in flight at once - keeps Stripe and n8n well under their rate limits
+const BULK_CONCURRENCY = 4;
+
+const ACTION_LABELS: Record<BulkSubscriptionAction, { title: string; verb: string; running: string }> = {
+  pause: { title: "Pause", verb: "Pause", running: "Pausing" },
+  resume: { title: "Resume", verb: "Resume", running: "Resuming" },
+  cancel: { title: "Cancel", verb: "Cancel", running: "Canceling" },
+};
+
+/**
+ * Dialog for pausing, resuming or canceling many client subscriptions at once
+ * Runs the single-client API routes with bounded concurrency and reports each failure at the end
+ */
+export default function BulkSubscriptionDialog({ action, clients, customerId, onClose, onDone }: BulkSubscriptionDialogProps) {
+  const [pauseOptions, setPauseOptions] = useState<PauseOptions>(DEFAULT_PAUSE_OPTIONS);
+  const [cancelWhen, setCancelWhen] = useState<CancelWhen>("period_end");
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState({ current: 0, total: 0 });
+  const [failures, setFailures] = useState<{ item: BulkSubscriptionClient; error: string }[] | null>(null);
+
+  const labels = ACTION_LABELS[action];
+
+  /**
+   * Build the action-specific part of the request body
+   */
+  const getActionBody = () => {
+    switch (action) {
+      case "pause":
+        return { behavior: pauseOptions.behavior, resumes_at: toResumesAt(pauseOptions.resume_date) };
+      case "cancel":
+        return { when: cancelWhen };
+      default:
+        return {};
+    }
+  };
+
+  const handleConfirm = async () => {
+    setIsRunning(true);
+    setProgress({ current: 0, total: clients.length });
+
+    const actionBody = getActionBody();
+    const result = await runWithConcurrency(
+      clients,
+      BULK_CONCURRENCY,
+      async (client) => {
+        const response = await fetch(`/api/subscriptions/${action}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            customer_id: customerId,
+            stripe_subscription_id: client.stripe_subscription_id,
+            ...actionBody,
+          }),
+        });
+
+        if (!response.ok) {
+          throw new Error(await getErrorMessage(response, `Failed to ${action} subscription`));
+        }
+      },
+      (completed) => setProgress({ current: completed, total: clients.length })
+    );
+
+    setFailures(result);
+    setIsRunning(false);
+    onDone();
+  };
+
+  const progressPercentage = progress.total > 0
+    ? Math.round((progress.current / progress.total) * 100)
+    : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-lg shadow-xl transition-colors">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+            {labels.title} {clients.length} {clients.length === 1 ? "Subscription" : "Subscriptions"}
+          </h2>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          {failures ? (
+            <>
+              <div
+                className={`p-4 rounded-lg ${
+                  failures.length === 0
+                    ? "bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-200"
+                    : "bg-yellow-50 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200"
+                }`}
+              >
+                {failures.length === 0
+                  ? `All ${clients.length} subscriptions were updated.`
+                  : `${clients.length - failures.length} of ${clients.length} subscriptions were updated, ${failures.length} failed.`}
+              </div>
+
+              {failures.length > 0 && (
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+                  {failures.map(({ item, error }) => (
+                    <li key={item.id} className="px-4 py-2 text-sm">
+                      <div className="text-gray-900 dark:text-white">{item.name}</div>
+                      <div className="text-xs text-red-600 dark:text-red-400">{error}</div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          ) : isRunning ? (
+            /* Progress Bar */
+            <div>
+              <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-2">
+                <span>{labels.running} subscriptions...</span>
+                <span>{progress.current} / {progress.total} ({progressPercentage}%)</span>
+              </div>
+              <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-3">
+                <div
+                  className="bg-blue-600 dark:bg-blue-500 h-3 rounded-full transition-all duration-300"
+                  style={{ width: `${progressPercentage}%` }}
+                ></div>
+              </div>
+            </div>
+          ) : action === "pause" ? (
+            <PauseOptionsFields value={pauseOptions} onChange={setPauseOptions} />
+          ) : action === "cancel" ? (
+            <CancelWhenFields value={cancelWhen} onChange={setCancelWhen} />
+          ) : (
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              Collection resumes on every selected subscription and any automatic resume date is cleared.
+            </p>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            disabled={isRunning}
+            className="px-4 py-2 text-sm font-medium rounded-md text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            Close
+          </button>
+          {!failures && (
+            <button
+              onClick={handleConfirm}
+              disabled={isRunning}
+              className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 disabled:opacity-50"
+            >
+              {isRunning ? `${labels.running}...` : `${labels.verb} ${clients.length}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
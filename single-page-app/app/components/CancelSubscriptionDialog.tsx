@@ -0,0 +1,98 @@
+"use client";
+
+import { useState } from "react";
+import CancelWhenFields from "./CancelWhenFields";
+import { getErrorMessage } from "../lib/api";
+import { CancelWhen } from "../lib/subscriptions";
+
+/**
+ * The client whose subscription is being canceled
+ */
+interface CancelSubscriptionClient {
+  name: string;
+  stripe_subscription_id: string;
+}
+
+interface CancelSubscriptionDialogProps {
+  client: CancelSubscriptionClient;
+  // Sub-org the client belongs to
+  customerId: string;
+  onClose: () => void;
+  // Called once the cancellation is accepted so the caller can refresh
+  onCanceled: () => void;
+}
+
+/**
+ * Confirmation dialog for canceling a client subscription now or at the end of the period
+ */
+export default function CancelSubscriptionDialog({ client, customerId, onClose, onCanceled }: CancelSubscriptionDialogProps) {
+  const [when, setWhen] = useState<CancelWhen>("period_end");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleConfirm = async () => {
+    setError(null);
+    setSubmitting(true);
+    try {
+      const response = await fetch('/api/subscriptions/cancel', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          customer_id: customerId,
+          stripe_subscription_id: client.stripe_subscription_id,
+          when,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to cancel subscription'));
+      }
+
+      onCanceled();
+      onClose();
+    } catch (err) {
+      console.error('Error canceling subscription:', err);
+      setError(err instanceof Error ? err.message : "Failed to cancel subscription");
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-lg bg-white dark:bg-gray-800 rounded-lg shadow-xl transition-colors">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+            Cancel Subscription for &quot;{client.name}&quot;
+          </h2>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          <CancelWhenFields value={when} onChange={setWhen} disabled={submitting} />
+
+          {error && (
+            <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200 text-sm">
+              {error}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            disabled={submitting}
+            className="px-4 py-2 text-sm font-medium rounded-md text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            Keep subscription
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={submitting}
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 dark:bg-red-500 dark:hover:bg-red-600 disabled:opacity-50"
+          >
+            {submitting ? "Canceling..." : when === "now" ? "Cancel now" : "Cancel at period end"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { CancelWhen, CANCEL_WHEN_OPTIONS } from "../lib/subscriptions";
+
+interface CancelWhenFieldsProps {
+  value: CancelWhen;
+  onChange: (value: CancelWhen) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Cancel now or at period end choice for the single and bulk cancel dialogs
+ */
+export default function CancelWhenFields({ value, onChange, disabled }: CancelWhenFieldsProps) {
+  return (
+    <div className="space-y-4">
+      {CANCEL_WHEN_OPTIONS.map((option) => (
+        <label
+          key={option.value}
+          className={`flex gap-3 p-4 rounded-lg border cursor-pointer ${
+            value === option.value
+              ? "border-red-500 bg-red-50 dark:border-red-400 dark:bg-red-900/20"
+              : "border-gray-200 dark:border-gray-700"
+          }`}
+        >
+          <input
+            type="radio"
+            name="cancelWhen"
+            value={option.value}
+            checked={value === option.value}
+            onChange={() => onChange(option.value)}
+            disabled={disabled}
+            className="mt-1"
+          />
+          <span>
+            <span className="block text-sm font-medium text-gray-900 dark:text-white">{option.label}</span>
+            <span className="block text-sm text-gray-500 dark:text-gray-400">{option.description}</span>
+          </span>
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+"use client";
+
+import { useState } from "react";
+import PricingFields from "./PricingFields";
+import { fetchJson, getErrorMessage } from "../lib/api";
+import { ClientPricing, DEFAULT_PRICING, formatPrice, getPricingPayload } from "../lib/pricing";
+import { PlanChangePreview, planChangePreviewSchema } from "../lib/schema";
+
+/**
+ * The client whose subscription is being changed
+ */
+interface ChangePlanClient {
+  name: string;
+  stripe_subscription_id: string;
+  stripe_price_id?: string;
+}
+
+interface ChangePlanDialogProps {
+  client: ChangePlanClient;
+  // Sub-org the client belongs to
+  customerId: string;
+  onClose: () => void;
+  // Called once the plan has been changed so the caller can refresh
+  onChanged: () => void;
+}
+
+/**
+ * Dialog for moving a client to a different plan, price or quantity
+ * Shows Stripe's proration preview before anything changes
+ */
+export default function ChangePlanDialog({ client, customerId, onClose, onChanged }: ChangePlanDialogProps) {
+  const [pricing, setPricing] = useState<ClientPricing>(DEFAULT_PRICING);
+  const [quantity, setQuantity] = useState(1);
+  const [preview, setPreview] = useState<PlanChangePreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Build the plan change request body from the form values
+   * @throws Error if no plan or price id is selected
+   */
+  const getRequestBody = () => ({
+    customer_id: customerId,
+    stripe_subscription_id: client.stripe_subscription_id,
+    quantity,
+    ...getPricingPayload(pricing),
+  });
+
+  // A preview only applies to the values it was requested for
+  const handlePricingChange = (value: ClientPricing) => {
+    setPricing(value);
+    setPreview(null);
+  };
+
+  const handleQuantityChange = (value: number) => {
+    setQuantity(value);
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    setError(null);
+    setPreviewLoading(true);
+    try {
+      setPreview(
+        await fetchJson('/api/subscriptions/change-plan/preview', planChangePreviewSchema, 'Failed to preview plan change', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(getRequestBody()),
+        })
+      );
+    } catch (err) {
+      console.error('Error previewing plan change:', err);
+      setError(err instanceof Error ? err.message : "Failed to preview plan change");
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    setError(null);
+    setSubmitting(true);
+    try {
+      const response = await fetch('/api/subscriptions/change-plan', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(getRequestBody()),
+      });
+
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to change plan'));
+      }
+
+      onChanged();
+      onClose();
+    } catch (err) {
+      console.error('Error changing plan:', err);
+      setError(err instanceof Error ? err.message : "Failed to change plan");
+      setSubmitting(false);
+    }
+  };
+
+  const busy = previewLoading || submitting;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-lg shadow-xl transition-colors">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+            Change Plan for &quot;{client.name}&quot;
+          </h2>
+          {client.stripe_price_id && (
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Current price: <span className="font-mono">{client.stripe_price_id}</span>
+            </p>
+          )}
+        </div>
+
+        <div className="px-6 py-4 space-y-6">
+          <PricingFields
+            value={pricing}
+            onChange={handlePricingChange}
+            disabled={busy}
+            appliesTo="this client from now on"
+            modes={["plan", "existing"]}
+          />
+
+          {/* Quantity Field */}
+          <div>
+            <label
+              htmlFor="quantity"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+            >
+              Quantity <span className="text-red-500 dark:text-red-400">*</span>
+            </label>
+            <input
+              type="number"
+              id="quantity"
+              name="quantity"
+              required
+              min="1"
+              value={quantity}
+              onChange={(e) => handleQuantityChange(parseInt(e.target.value) || 1)}
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-gray-900 dark:text-white dark:bg-gray-700"
+              disabled={busy}
+            />
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Number of units of the price billed each period
+            </p>
+          </div>
+
+          {preview && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Current</div>
+                  <div className="text-sm font-mono text-gray-900 dark:text-white truncate" title={preview.current.stripe_price_id}>
+                    {preview.current.stripe_price_id}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Quantity {preview.current.quantity}</div>
+                </div>
+                <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Proration</div>
+                  <div className="text-2xl font-bold text-gray-900 dark:text-white">
+                    {formatPrice(preview.proration_amount, preview.currency)}
+                  </div>
+                </div>
+                <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Next Invoice</div>
+                  <div className="text-2xl font-bold text-gray-900 dark:text-white">
+                    {formatPrice(preview.amount_due, preview.currency)}
+                  </div>
+                  {preview.next_invoice_date && (
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {new Date(preview.next_invoice_date * 1000).toLocaleDateString()}
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+                {preview.lines.map((line, index) => (
+                  <li key={index} className="px-4 py-2 flex justify-between gap-4 text-sm">
+                    <span className={line.proration ? "text-gray-900 dark:text-white" : "text-gray-500 dark:text-gray-400"}>
+                      {line.description}
+                    </span>
+                    <span className="whitespace-nowrap text-gray-900 dark:text-white">
+                      {formatPrice(line.amount, preview.currency)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200 text-sm">
+              {error}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            disabled={submitting}
+            className="px-4 py-2 text-sm font-medium rounded-md text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          {preview ? (
+            <button
+              onClick={handleConfirm}
+              disabled={busy}
+              className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 disabled:opacity-50"
+            >
+              {submitting ? "Changing..." : "Confirm change"}
+            </button>
+          ) : (
+            <button
+              onClick={handlePreview}
+              disabled={busy}
+              className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 disabled:opacity-50"
+            >
+              {previewLoading ? "Previewing..." : "Preview change"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
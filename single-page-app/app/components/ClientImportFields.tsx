@@ -0,0 +1,272 @@
+"use client";
+
+import { ChangeEvent, useEffect, useMemo, useState } from "react";
+import { fetchAllPages, fetchJson } from "../lib/api";
+import {
+  ColumnMapping,
+  ExistingClient,
+  guessColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportRow,
+  ImportRowStatus,
+  readImportFile,
+  validateImportRows,
+} from "../lib/imports";
+import { ClientPricing, Plan } from "../lib/pricing";
+import { array, clientSchema, listPage, planSchema } from "../lib/schema";
+
+interface ClientImportFieldsProps {
+  // Sub-org the clients are imported into - its clients are checked for duplicates
+  customerId: string | null;
+  // Batch pricing, used by rows with an interval but no plan
+  pricing: ClientPricing;
+  disabled?: boolean;
+  // Called with the checked rows - empty until a file is read and the sub-org's clients are loaded
+  onChange: (rows: ImportRow[]) => void;
+}
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  valid: "Ready",
+  duplicate: "Duplicate",
+  invalid: "Invalid",
+};
+
+const selectClassName =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm text-gray-900 dark:text-white dark:bg-gray-700";
+
+/**
+ * Get the badge color classes for an import row status
+ */
+function getStatusBadgeClass(status: ImportRowStatus): string {
+  switch (status) {
+    case "valid":
+      return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200";
+    case "duplicate":
+      return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200";
+    default:
+      return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200";
+  }
+}
+
+const clientListSchema = listPage(clientSchema);
+
+/**
+ * CSV/XLSX roster upload for batch client creation
+ * Maps the file's columns to client fields and shows which rows are ready, duplicates or invalid
+ */
+export default function ClientImportFields({ customerId, pricing, disabled, onChange }: ClientImportFieldsProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [cells, setCells] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [plans, setPlans] = useState<Plan[]>([]);
+  // Existing clients along with the sub-org they were loaded for
+  const [existing, setExisting] = useState<{ customerId: string; clients: ExistingClient[] } | null>(null);
+  const [existingError, setExistingError] = useState<string | null>(null);
+  const [showProblemsOnly, setShowProblemsOnly] = useState(false);
+
+  // Load the active plans so the plan column can be matched
+  useEffect(() => {
+    const fetchPlans = async () => {
+      try {
+        setPlans(await fetchJson('/api/plans', array(planSchema), 'Failed to fetch plans'));
+      } catch (err) {
+        console.error('Error fetching plans:', err);
+      }
+    };
+
+    fetchPlans();
+  }, []);
+
+  // Load the sub-org's clients so rows already created are flagged as duplicates
+  useEffect(() => {
+    if (!customerId) {
+      return;
+    }
+
+    const fetchExisting = async () => {
+      try {
+        setExistingError(null);
+        // Every page - a duplicate past the first page would otherwise be created again
+        const clients = await fetchAllPages(
+          `/api/clients?customer_id=${encodeURIComponent(customerId)}`,
+          clientListSchema,
+          'Failed to fetch existing clients'
+        );
+        setExisting({ customerId, clients });
+      } catch (err) {
+        console.error('Error fetching existing clients:', err);
+        setExistingError(err instanceof Error ? err.message : "Failed to fetch existing clients");
+      }
+    };
+
+    fetchExisting();
+  }, [customerId]);
+
+  const existingLoaded = existing !== null && existing.customerId === customerId;
+
+  const rows = useMemo(
+    () =>
+      mapping && existingLoaded
+        ? validateImportRows(cells, mapping, { plans, existingClients: existing.clients, defaultPricing: pricing })
+        : [],
+    [cells, mapping, plans, existing, existingLoaded, pricing]
+  );
+
+  useEffect(() => {
+    onChange(rows);
+  }, [rows, onChange]);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    setFileError(null);
+    try {
+      const data = await readImportFile(file);
+      if (data.filter((cells) => cells.some((value) => value.trim() !== "")).length < 2) {
+        throw new Error("The file needs a header row and at least one client");
+      }
+      setFileName(file.name);
+      setCells(data);
+      setMapping(guessColumnMapping(data[0]));
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setFileError(err instanceof Error ? err.message : "Failed to read the file");
+      setFileName(null);
+      setCells([]);
+      setMapping(null);
+    }
+  };
+
+  const updateMapping = (field: ImportField, value: string) => {
+    if (mapping) {
+      setMapping({ ...mapping, [field]: value === "" ? null : Number(value) });
+    }
+  };
+
+  const counts = rows.reduce<Record<ImportRowStatus, number>>(
+    (acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }),
+    { valid: 0, duplicate: 0, invalid: 0 }
+  );
+  const visibleRows = showProblemsOnly ? rows.filter((row) => row.status !== "valid") : rows;
+  const headers = cells[0] ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor="importFile" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Client File <span className="text-red-500 dark:text-red-400">*</span>
+        </label>
+        <input
+          type="file"
+          id="importFile"
+          accept=".csv,.txt,.xlsx"
+          onChange={handleFileChange}
+          disabled={disabled}
+          className="block w-full text-sm text-gray-700 dark:text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100 dark:file:bg-blue-900/30 dark:file:text-blue-300"
+        />
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          A .csv or .xlsx file with a header row - the first sheet of a workbook is used
+        </p>
+        {fileError && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{fileError}</p>}
+      </div>
+
+      {mapping && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Columns in {fileName}
+          </h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {IMPORT_FIELDS.map(({ field, label, hint }) => (
+              <div key={field}>
+                <label htmlFor={`column-${field}`} className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                  {label}
+                </label>
+                <select
+                  id={`column-${field}`}
+                  value={mapping[field] ?? ""}
+                  onChange={(e) => updateMapping(field, e.target.value)}
+                  disabled={disabled}
+                  className={selectClassName}
+                >
+                  <option value="">Not in file</option>
+                  {headers.map((header, index) => (
+                    <option key={index} value={index}>
+                      {header || `Column ${index + 1}`}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{hint}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {mapping && !customerId && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Select a sub-organization to check the rows against its existing clients.
+        </p>
+      )}
+      {existingError && <p className="text-sm text-red-600 dark:text-red-400">{existingError}</p>}
+
+      {rows.length > 0 && (
+        <div>
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              {counts.valid} ready, {counts.duplicate} duplicate, {counts.invalid} invalid - only ready rows are created
+            </p>
+            <label className="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={showProblemsOnly}
+                onChange={(e) => setShowProblemsOnly(e.target.checked)}
+              />
+              Problems only
+            </label>
+          </div>
+          <div className="max-h-96 overflow-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Row</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Name</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Email / Reference</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Plan</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Status</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {visibleRows.map((row) => (
+                  <tr key={row.rowNumber}>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-500 dark:text-gray-400">{row.rowNumber}</td>
+                    <td className="px-3 py-2 text-gray-900 dark:text-white">{row.name || "-"}</td>
+                    <td className="px-3 py-2 text-gray-500 dark:text-gray-400">
+                      {row.email && <div>{row.email}</div>}
+                      {row.external_ref && <div className="font-mono text-xs">{row.external_ref}</div>}
+                    </td>
+                    <td className="px-3 py-2 text-gray-500 dark:text-gray-400">
+                      {row.plan || (row.interval ? `Batch price, every ${row.interval}` : "Batch pricing")}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusBadgeClass(row.status)}`}>
+                        {STATUS_LABELS[row.status]}
+                      </span>
+                      {row.problems.map((problem) => (
+                        <div key={problem} className="mt-1 text-xs text-gray-600 dark:text-gray-400">{problem}</div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { useState } from "react";
+import { describe, expect, it, vi } from "vitest";
+import CustomerAutocomplete from "./CustomerAutocomplete";
+import { Customer } from "../contexts/CustomerContext";
+
+const customer = (id: string, name: string, parent?: string): Customer => ({
+  id,
+  name,
+  customer_type: parent ? "sub-org" : "org",
+  created: 0,
+  parent_org_name: parent,
+});
+
+const customers = [
+  customer("1", "Acme Health"),
+  customer("2", "North Clinic", "Acme Health"),
+  customer("3", "Globex"),
+];
+
+/**
+ * The autocomplete with its value held in state, as the pages use it
+ */
+function renderAutocomplete(onSelectCustomer = vi.fn()) {
+  function Harness() {
+    const [value, setValue] = useState("");
+    return (
+      <CustomerAutocomplete
+        customers={customers}
+        value={value}
+        onChange={setValue}
+        onSelectCustomer={onSelectCustomer}
+      />
+    );
+  }
+  render(<Harness />);
+  return { input: screen.getByRole("combobox"), onSelectCustomer };
+}
+
+const highlighted = () => screen.queryByRole("option", { selected: true });
+
+describe("CustomerAutocomplete keyboard navigation", () => {
+  it("moves the highlight down and up through the suggestions", async () => {
+    const user = userEvent.setup();
+    const { input } = renderAutocomplete();
+
+    await user.click(input);
+    expect(screen.getAllByRole("option")).toHaveLength(3);
+    expect(highlighted()).toBeNull();
+
+    await user.keyboard("{ArrowDown}");
+    expect(highlighted()).toHaveTextContent("Acme Health");
+
+    await user.keyboard("{ArrowDown}");
+    expect(highlighted()).toHaveTextContent("North Clinic");
+
+    await user.keyboard("{ArrowUp}{ArrowUp}");
+    expect(highlighted()).toBeNull();
+  });
+
+  it("stops at the last suggestion", async () => {
+    const user = userEvent.setup();
+    const { input } = renderAutocomplete();
+
+    await user.click(input);
+    await user.keyboard("{ArrowDown}{ArrowDown}{ArrowDown}{ArrowDown}");
+
+    expect(highlighted()).toHaveTextContent("Globex");
+  });
+
+  it("selects the highlighted suggestion with Enter", async () => {
+    const user = userEvent.setup();
+    const { input, onSelectCustomer } = renderAutocomplete();
+
+    await user.type(input, "clinic");
+    await user.keyboard("{ArrowDown}{Enter}");
+
+    expect(onSelectCustomer).toHaveBeenCalledWith(customers[1]);
+    expect(input).toHaveValue("North Clinic");
+    expect(screen.queryByRole("listbox")).not.toBeInTheDocument();
+  });
+
+  it("does nothing on Enter without a highlight", async () => {
+    const user = userEvent.setup();
+    const { input, onSelectCustomer } = renderAutocomplete();
+
+    await user.type(input, "acme{Enter}");
+
+    expect(onSelectCustomer).not.toHaveBeenCalled();
+    expect(screen.getByRole("listbox")).toBeInTheDocument();
+  });
+
+  it("closes with Escape and reopens with an arrow key", async () => {
+    const user = userEvent.setup();
+    const { input } = renderAutocomplete();
+
+    await user.type(input, "a");
+    await user.keyboard("{ArrowDown}{Escape}");
+    expect(screen.queryByRole("listbox")).not.toBeInTheDocument();
+
+    // The first arrow only opens the list, starting without a highlight
+    await user.keyboard("{ArrowDown}");
+    expect(screen.getByRole("listbox")).toBeInTheDocument();
+    expect(highlighted()).toBeNull();
+  });
+
+  it("matches sub-orgs by their parent org's name", async () => {
+    const user = userEvent.setup();
+    const { input } = renderAutocomplete();
+
+    await user.type(input, "acme");
+
+    expect(screen.getAllByRole("option").map((option) => option.textContent)).toEqual([
+      expect.stringContaining("Acme Health"),
+      expect.stringContaining("North Clinic"),
+    ]);
+  });
+});
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useId } from "react";
 import { Customer } from "../contexts/CustomerContext";
 
 interface CustomerAutocompleteProps {
@@ -24,6 +24,7 @@ export default function CustomerAutocomplete({
   const [highlightedIndex, setHighlightedIndex] = useState(-1);
   const wrapperRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const listboxId = useId();
 
   // Filter customers based on search query
   // Also match parent org name if it exists
@@ -150,6 +151,10 @@ export default function CustomerAutocomplete({
           onFocus={handleFocus}
           className="w-full pl-10 pr-10 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
           autoComplete="off"
+          role="combobox"
+          aria-expanded={showDropdown}
+          aria-controls={listboxId}
+          aria-autocomplete="list"
         />
 
         {/* Clear Button */}
@@ -178,7 +183,7 @@ export default function CustomerAutocomplete({
 
       {/* Dropdown Suggestions */}
       {showDropdown && (
-        <div className="absolute z-10 w-full mt-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg max-h-60 overflow-auto">
+        <div id={listboxId} role="listbox" className="absolute z-10 w-full mt-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg max-h-60 overflow-auto">
           {suggestions.map((customer, index) => {
             // Use uniqueKey if available, otherwise fallback to id with index
             const uniqueKey = (customer as any).uniqueKey || `${customer.id}-${index}`;
@@ -187,6 +192,8 @@ export default function CustomerAutocomplete({
               <button
                 key={uniqueKey}
                 type="button"
+                role="option"
+                aria-selected={index === highlightedIndex}
                 onClick={() => handleSelectSuggestion(customer)}
                 className={`w-full text-left px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors ${
                   index === highlightedIndex
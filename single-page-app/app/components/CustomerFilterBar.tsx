@@ -0,0 +1,98 @@
+"use client";
+
+import { CustomerFilterType, useApp } from "../contexts/AppContext";
+
+const TYPE_OPTIONS: { value: CustomerFilterType; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "org", label: "Orgs" },
+  { value: "sub-org", label: "Sub-orgs" },
+];
+
+const inputClassName =
+  "px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm text-gray-900 dark:text-white dark:bg-gray-700";
+
+/**
+ * Customer filter bar component
+ * Type, minimum client count, paused clients and created date filters for the homepage list
+ * The settings live in AppContext, which keeps them for the browser session
+ */
+export default function CustomerFilterBar() {
+  const { filterType, setFilterType, customerFilters, hasCustomerFilters, updateCustomerFilters, clearCustomerFilters } =
+    useApp();
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-6 gap-y-3 text-sm text-gray-700 dark:text-gray-300">
+      <div className="inline-flex rounded-md shadow-sm" role="group" aria-label="Customer type">
+        {TYPE_OPTIONS.map(({ value, label }, index) => (
+          <button
+            key={value}
+            onClick={() => setFilterType(value)}
+            className={`px-3 py-1.5 font-medium border border-gray-300 dark:border-gray-600 ${
+              index === 0 ? "rounded-l-md" : index === TYPE_OPTIONS.length - 1 ? "rounded-r-md -ml-px" : "-ml-px"
+            } ${
+              filterType === value
+                ? "bg-blue-600 border-blue-600 text-white dark:bg-blue-500 dark:border-blue-500"
+                : "bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <label className="inline-flex items-center gap-2">
+        At least
+        <input
+          type="number"
+          min={0}
+          value={customerFilters.minClients ?? ""}
+          onChange={(e) =>
+            updateCustomerFilters({ minClients: e.target.value === "" ? null : Math.max(0, Number(e.target.value)) })
+          }
+          placeholder="0"
+          className={`${inputClassName} w-20`}
+        />
+        clients
+      </label>
+
+      <label className="inline-flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={customerFilters.hasPausedClients}
+          onChange={(e) => updateCustomerFilters({ hasPausedClients: e.target.checked })}
+        />
+        Has paused clients
+      </label>
+
+      <div className="inline-flex items-center gap-2">
+        Created
+        <input
+          type="date"
+          value={customerFilters.createdFrom}
+          max={customerFilters.createdTo || undefined}
+          onChange={(e) => updateCustomerFilters({ createdFrom: e.target.value })}
+          aria-label="Created from"
+          className={inputClassName}
+        />
+        to
+        <input
+          type="date"
+          value={customerFilters.createdTo}
+          min={customerFilters.createdFrom || undefined}
+          onChange={(e) => updateCustomerFilters({ createdTo: e.target.value })}
+          aria-label="Created to"
+          className={inputClassName}
+        />
+      </div>
+
+      {hasCustomerFilters && (
+        <button
+          onClick={clearCustomerFilters}
+          className="font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  useCustomers,
+  Customer,
+  CustomerDeletionPreview,
+  CustomerDeletionResult,
+  DeletionItemResult,
+} from "../contexts/CustomerContext";
+
+interface DeleteCustomerDialogProps {
+  customer: Customer;
+  onClose: () => void;
+}
+
+const ITEM_TYPE_LABELS: Record<DeletionItemResult["type"], string> = {
+  subscription: "Subscription",
+  product: "Product",
+  client: "Client",
+  bucket: "Bucket",
+  customer: "Customer",
+  stripe_customer: "Stripe customer",
+};
+
+/**
+ * Get the badge class for a deletion item status
+ */
+function getResultBadgeClass(status: DeletionItemResult["status"]): string {
+  switch (status) {
+    case "done":
+      return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200";
+    case "failed":
+      return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200";
+    default:
+      return "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200";
+  }
+}
+
+/**
+ * Confirmation dialog for deleting an org or sub-org
+ * Shows what will be removed before anything changes, then the outcome for each item
+ */
+export default function DeleteCustomerDialog({ customer, onClose }: DeleteCustomerDialogProps) {
+  const { previewDeleteCustomer, deleteCustomer } = useCustomers();
+  const [preview, setPreview] = useState<CustomerDeletionPreview | null>(null);
+  const [result, setResult] = useState<CustomerDeletionResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the preview when the dialog opens
+  useEffect(() => {
+    let cancelled = false;
+
+    previewDeleteCustomer(customer.id)
+      .then((data) => {
+        if (!cancelled) setPreview(data);
+      })
+      .catch((err) => {
+        console.error("Error loading delete preview:", err);
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load delete preview");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // Only reload when a different customer is selected
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [customer.id]);
+
+  const handleConfirm = async () => {
+    setDeleting(true);
+    setError(null);
+    try {
+      setResult(await deleteCustomer(customer.id));
+    } catch (err) {
+      console.error("Error deleting customer:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete customer");
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const failedCount = result ? result.results.filter((item) => item.status === "failed").length : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-lg shadow-xl transition-colors">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+            Delete {customer.customer_type === "org" ? "Org" : "Sub-Org"} &quot;{customer.name}&quot;
+          </h2>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          {loading ? (
+            <div className="text-center py-8">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 dark:border-blue-400"></div>
+              <p className="mt-4 text-gray-600 dark:text-gray-300">Checking what will be deleted...</p>
+            </div>
+          ) : result ? (
+            <>
+              <div
+                className={`p-4 rounded-lg ${
+                  result.success
+                    ? "bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-200"
+                    : "bg-yellow-50 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200"
+                }`}
+              >
+                {result.deleted
+                  ? failedCount === 0
+                    ? `"${customer.name}" was deleted.`
+                    : `"${customer.name}" was deleted, but ${failedCount} ${failedCount === 1 ? "item" : "items"} could not be cleaned up.`
+                  : `"${customer.name}" was kept because ${failedCount} ${failedCount === 1 ? "item" : "items"} failed. Resolve the failures below and delete again.`}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead className="bg-gray-50 dark:bg-gray-700">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Item
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Name
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Status
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                    {result.results.map((item, index) => (
+                      <tr key={`${item.type}-${item.id}-${index}`}>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                          {ITEM_TYPE_LABELS[item.type] || item.type}
+                          {item.id && (
+                            <div className="text-xs font-mono text-gray-500 dark:text-gray-400">{item.id}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-900 dark:text-white">{item.name}</td>
+                        <td className="px-4 py-2 text-sm">
+                          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getResultBadgeClass(item.status)}`}>
+                            {item.status}
+                          </span>
+                          {item.detail && (
+                            <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">{item.detail}</div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          ) : preview ? (
+            <>
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                Every client subscription below will be canceled in Stripe and the client products archived.
+                The customer is only removed once all subscriptions are canceled. This cannot be undone.
+              </p>
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Sub-Orgs</div>
+                  <div className="text-2xl font-bold text-gray-900 dark:text-white">{preview.suborgs.length}</div>
+                </div>
+                <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Clients</div>
+                  <div className="text-2xl font-bold text-gray-900 dark:text-white">{preview.client_count}</div>
+                </div>
+                <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Active Subscriptions</div>
+                  <div className="text-2xl font-bold text-green-600 dark:text-green-400">{preview.active_subscriptions}</div>
+                </div>
+                <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Paused Subscriptions</div>
+                  <div className="text-2xl font-bold text-yellow-600 dark:text-yellow-400">{preview.paused_subscriptions}</div>
+                </div>
+              </div>
+
+              {preview.suborgs.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+                    Sub-orgs that will be deleted
+                  </h3>
+                  <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+                    {preview.suborgs.map((suborg) => (
+                      <li key={suborg.id} className="px-4 py-2 flex justify-between text-sm">
+                        <span className="text-gray-900 dark:text-white">{suborg.name}</span>
+                        <span className="text-gray-500 dark:text-gray-400">
+                          {suborg.client_count} {suborg.client_count === 1 ? "client" : "clients"}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          ) : null}
+
+          {error && (
+            <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200 text-sm">
+              {error}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            disabled={deleting}
+            className="px-4 py-2 text-sm font-medium rounded-md text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            {result ? "Close" : "Cancel"}
+          </button>
+          {!result && preview && (
+            <button
+              onClick={handleConfirm}
+              disabled={deleting}
+              className="px-4 py-2 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 dark:bg-red-500 dark:hover:bg-red-600 disabled:opacity-50"
+            >
+              {deleting ? "Deleting..." : "Delete everything"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+"use client";
+
+interface ExportButtonsProps {
+  // Org or sub-org to export - every client when left out
+  customerId?: string;
+  // Subscription status to keep, e.g. the clients view's status filter
+  status?: string;
+  // Text the name, email or external reference must contain, e.g. the clients view's search
+  search?: string;
+}
+
+const FORMATS = [
+  { format: "csv", label: "CSV" },
+  { format: "json", label: "JSON" },
+];
+
+/**
+ * CSV and JSON download links for the client export route
+ * Plain links so the browser streams the file straight to disk
+ * Without a customer, status or search every client is exported, and the links say so
+ */
+export default function ExportButtons({ customerId, status, search }: ExportButtonsProps) {
+  const exportsAll = !customerId && !search && (!status || status === "all");
+
+  const getExportUrl = (format: string) => {
+    const params = new URLSearchParams({ format });
+    if (customerId) {
+      params.set("customer_id", customerId);
+    }
+    if (status && status !== "all") {
+      params.set("status", status);
+    }
+    if (search) {
+      params.set("search", search);
+    }
+    return `/api/export?${params.toString()}`;
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {FORMATS.map(({ format, label }) => (
+        <a
+          key={format}
+          href={getExportUrl(format)}
+          download
+          title={exportsAll ? "Every client of every customer - the search and filters are not applied" : undefined}
+          className="inline-flex items-center px-3 py-2 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 whitespace-nowrap"
+        >
+          {exportsAll ? `Export all ${label}` : `Export ${label}`}
+        </a>
+      ))}
+    </div>
+  );
+}
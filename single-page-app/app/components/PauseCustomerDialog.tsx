@@ -0,0 +1,144 @@
+"use client";
+
+import { useState } from "react";
+import PauseOptionsFields from "./PauseOptionsFields";
+import { useCustomers, CustomerCollectionResult } from "../contexts/CustomerContext";
+import { DEFAULT_PAUSE_OPTIONS, PauseOptions, toResumesAt } from "../lib/subscriptions";
+
+/**
+ * The org or sub-org whose clients are being paused or resumed
+ */
+interface PauseCustomerTarget {
+  id: string;
+  name: string;
+  customer_type: "org" | "sub-org";
+}
+
+interface PauseCustomerDialogProps {
+  customer: PauseCustomerTarget;
+  action: "pause" | "resume";
+  onClose: () => void;
+  // Called after the run so the caller can reload anything not held in the customer context
+  onDone?: () => void;
+}
+
+/**
+ * Confirmation dialog for pausing or resuming every client of an org or sub-org
+ * Shows how many clients were updated and which ones failed
+ */
+export default function PauseCustomerDialog({ customer, action, onClose, onDone }: PauseCustomerDialogProps) {
+  const { pauseCustomer, resumeCustomer } = useCustomers();
+  const [options, setOptions] = useState<PauseOptions>(DEFAULT_PAUSE_OPTIONS);
+  const [result, setResult] = useState<CustomerCollectionResult | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isPause = action === "pause";
+  const scope = customer.customer_type === "org" ? "every sub-org of this org" : "this sub-org";
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      setResult(
+        isPause
+          ? await pauseCustomer(customer.id, {
+              behavior: options.behavior,
+              resumes_at: toResumesAt(options.resume_date),
+            })
+          : await resumeCustomer(customer.id)
+      );
+      onDone?.();
+    } catch (err) {
+      console.error(`Error ${isPause ? "pausing" : "resuming"} customer:`, err);
+      setError(err instanceof Error ? err.message : `Failed to ${action} customer`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const failures = result ? result.results.filter((item) => item.status === "failed") : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-lg shadow-xl transition-colors">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+            {isPause ? "Pause" : "Resume"} All Clients of &quot;{customer.name}&quot;
+          </h2>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          {result ? (
+            <>
+              <div
+                className={`p-4 rounded-lg ${
+                  result.success
+                    ? "bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-200"
+                    : "bg-yellow-50 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200"
+                }`}
+              >
+                {result.total === 0
+                  ? `There were no ${isPause ? "active" : "paused"} clients to ${action}.`
+                  : result.failed === 0
+                    ? `${isPause ? "Paused" : "Resumed"} all ${result.total} clients.`
+                    : `${isPause ? "Paused" : "Resumed"} ${result.updated} of ${result.total} clients, ${result.failed} failed.`}
+              </div>
+
+              {failures.length > 0 && (
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+                  {failures.map((item) => (
+                    <li key={item.client_id} className="px-4 py-2 text-sm">
+                      <div className="text-gray-900 dark:text-white">{item.name}</div>
+                      {item.detail && (
+                        <div className="text-xs text-red-600 dark:text-red-400">{item.detail}</div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                {isPause
+                  ? `Collection is paused on every active client subscription in ${scope}.`
+                  : `Collection resumes on every paused client subscription in ${scope}.`}
+              </p>
+              {isPause && <PauseOptionsFields value={options} onChange={setOptions} disabled={submitting} />}
+            </>
+          )}
+
+          {error && (
+            <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200 text-sm">
+              {error}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            disabled={submitting}
+            className="px-4 py-2 text-sm font-medium rounded-md text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            {result ? "Close" : "Cancel"}
+          </button>
+          {!result && (
+            <button
+              onClick={handleConfirm}
+              disabled={submitting}
+              className={`px-4 py-2 text-sm font-medium rounded-md text-white disabled:opacity-50 ${
+                isPause
+                  ? "bg-yellow-600 hover:bg-yellow-700 dark:bg-yellow-500 dark:hover:bg-yellow-600"
+                  : "bg-green-600 hover:bg-green-700 dark:bg-green-500 dark:hover:bg-green-600"
+              }`}
+            >
+              {submitting ? (isPause ? "Pausing..." : "Resuming...") : isPause ? "Pause all" : "Resume all"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
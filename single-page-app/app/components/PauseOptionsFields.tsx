@@ -0,0 +1,85 @@
+"use client";
+
+import { PauseOptions, PAUSE_BEHAVIORS, PAUSE_BEHAVIOR_LABELS } from "../lib/subscriptions";
+
+interface PauseOptionsFieldsProps {
+  value: PauseOptions;
+  onChange: (value: PauseOptions) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Get tomorrow's date as YYYY-MM-DD - the earliest automatic resume date
+ */
+function getMinResumeDate(): string {
+  const tomorrow = new Date();
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  const month = String(tomorrow.getMonth() + 1).padStart(2, "0");
+  const day = String(tomorrow.getDate()).padStart(2, "0");
+  return `${tomorrow.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Pause section for the single and bulk pause dialogs
+ * Stripe's pause behavior and an optional date to resume automatically
+ */
+export default function PauseOptionsFields({ value, onChange, disabled }: PauseOptionsFieldsProps) {
+  return (
+    <div className="space-y-4">
+      <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        While paused, invoices are...
+      </span>
+      {PAUSE_BEHAVIORS.map((behavior) => (
+        <label
+          key={behavior}
+          className={`flex gap-3 p-4 rounded-lg border cursor-pointer ${
+            value.behavior === behavior
+              ? "border-yellow-500 bg-yellow-50 dark:border-yellow-400 dark:bg-yellow-900/20"
+              : "border-gray-200 dark:border-gray-700"
+          }`}
+        >
+          <input
+            type="radio"
+            name="pauseBehavior"
+            value={behavior}
+            checked={value.behavior === behavior}
+            onChange={() => onChange({ ...value, behavior })}
+            disabled={disabled}
+            className="mt-1"
+          />
+          <span>
+            <span className="block text-sm font-medium text-gray-900 dark:text-white">
+              {PAUSE_BEHAVIOR_LABELS[behavior].label}
+            </span>
+            <span className="block text-sm text-gray-500 dark:text-gray-400">
+              {PAUSE_BEHAVIOR_LABELS[behavior].description}
+            </span>
+          </span>
+        </label>
+      ))}
+
+      {/* Resume Date Field */}
+      <div>
+        <label
+          htmlFor="resumeDate"
+          className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+        >
+          Resume automatically on
+        </label>
+        <input
+          type="date"
+          id="resumeDate"
+          name="resumeDate"
+          min={getMinResumeDate()}
+          value={value.resume_date}
+          onChange={(e) => onChange({ ...value, resume_date: e.target.value })}
+          className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-gray-900 dark:text-white dark:bg-gray-700"
+          disabled={disabled}
+        />
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Leave empty to stay paused until resumed manually
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import PauseOptionsFields from "./PauseOptionsFields";
+import { getErrorMessage } from "../lib/api";
+import { DEFAULT_PAUSE_OPTIONS, PauseBehavior, PauseOptions, toResumesAt } from "../lib/subscriptions";
+
+/**
+ * The client whose subscription is being paused
+ */
+interface PauseSubscriptionClient {
+  name: string;
+  stripe_subscription_id: string;
+}
+
+/**
+ * How the subscription is being paused - lets the caller show the change before the backend answers
+ */
+export interface PauseResult {
+  behavior: PauseBehavior;
+  // Unix timestamp collection resumes at, if a date was chosen
+  resumes_at?: number;
+}
+
+interface PauseSubscriptionDialogProps {
+  client: PauseSubscriptionClient;
+  // Sub-org the client belongs to
+  customerId: string;
+  onClose: () => void;
+  // Called when the pause is confirmed, before the request is sent - returns a function that undoes it
+  onPausing: (pause: PauseResult) => () => void;
+  // Called once the subscription is paused so the caller can refresh
+  onPaused: () => void;
+}
+
+/**
+ * Dialog for pausing collection on a client subscription
+ * Offers Stripe's pause behaviors and an optional date to resume automatically
+ */
+export default function PauseSubscriptionDialog({
+  client,
+  customerId,
+  onClose,
+  onPausing,
+  onPaused,
+}: PauseSubscriptionDialogProps) {
+  const [options, setOptions] = useState<PauseOptions>(DEFAULT_PAUSE_OPTIONS);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleConfirm = async () => {
+    setError(null);
+    setSubmitting(true);
+    const pause: PauseResult = { behavior: options.behavior, resumes_at: toResumesAt(options.resume_date) };
+    const rollback = onPausing(pause);
+    try {
+      const response = await fetch('/api/subscriptions/pause', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          customer_id: customerId,
+          stripe_subscription_id: client.stripe_subscription_id,
+          ...pause,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to pause subscription'));
+      }
+
+      onPaused();
+      onClose();
+    } catch (err) {
+      console.error('Error pausing subscription:', err);
+      rollback();
+      setError(err instanceof Error ? err.message : "Failed to pause subscription");
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-lg shadow-xl transition-colors">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+            Pause Subscription for &quot;{client.name}&quot;
+          </h2>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          <PauseOptionsFields value={options} onChange={setOptions} disabled={submitting} />
+
+          {error && (
+            <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200 text-sm">
+              {error}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            disabled={submitting}
+            className="px-4 py-2 text-sm font-medium rounded-md text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={submitting}
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-yellow-600 hover:bg-yellow-700 dark:bg-yellow-500 dark:hover:bg-yellow-600 disabled:opacity-50"
+          >
+            {submitting ? "Pausing..." : "Pause subscription"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { fetchJson } from "../lib/api";
+import {
+  ClientPricing,
+  CURRENCIES,
+  formatInterval,
+  formatPrice,
+  Plan,
+  RecurringInterval,
+} from "../lib/pricing";
+import { array, planSchema } from "../lib/schema";
+
+type PricingMode = ClientPricing["mode"];
+
+interface PricingFieldsProps {
+  value: ClientPricing;
+  onChange: (value: ClientPricing) => void;
+  disabled?: boolean;
+  // Used in the helper text, e.g. "this client" or "all clients"
+  appliesTo: string;
+  // Pricing options to offer - the mode switch is hidden when there is only one
+  modes?: PricingMode[];
+}
+
+const MODE_LABELS: Record<PricingMode, string> = {
+  plan: "Plan",
+  new: "Custom price",
+  existing: "Existing Stripe price",
+};
+
+const inputClassName =
+  "w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-gray-900 dark:text-white dark:bg-gray-700";
+
+/**
+ * Pricing section for the client create forms and plan creation
+ * A plan from the catalogue, a custom price (currency, amount, billing frequency) or an existing Stripe price id
+ */
+export default function PricingFields({
+  value,
+  onChange,
+  disabled,
+  appliesTo,
+  modes = ["plan", "new", "existing"],
+}: PricingFieldsProps) {
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [plansLoading, setPlansLoading] = useState(modes.includes("plan"));
+  const [plansError, setPlansError] = useState<string | null>(null);
+
+  const update = (changes: Partial<ClientPricing>) => onChange({ ...value, ...changes });
+  const offersPlans = modes.includes("plan");
+
+  // Load the active plans for the plan dropdown
+  useEffect(() => {
+    if (!offersPlans) {
+      return;
+    }
+
+    const fetchPlans = async () => {
+      try {
+        setPlans(await fetchJson('/api/plans', array(planSchema), 'Failed to fetch plans'));
+      } catch (err) {
+        console.error('Error fetching plans:', err);
+        setPlansError(err instanceof Error ? err.message : "Failed to fetch plans");
+      } finally {
+        setPlansLoading(false);
+      }
+    };
+
+    fetchPlans();
+  }, [offersPlans]);
+
+  /**
+   * Switch pricing mode - the price id belongs to the previous mode, so it is cleared
+   */
+  const handleModeChange = (mode: PricingMode) => {
+    update({ mode, plan_id: "", stripe_price_id: "" });
+  };
+
+  /**
+   * Select a plan - clients subscribe to the plan's Stripe price
+   */
+  const handlePlanChange = (planId: string) => {
+    const plan = plans.find((p) => String(p.Id) === planId);
+    update({ plan_id: planId, stripe_price_id: plan?.stripe_price_id || "" });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Pricing Mode */}
+      {modes.length > 1 && (
+        <div>
+          <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Pricing <span className="text-red-500 dark:text-red-400">*</span>
+          </span>
+          <div className="flex flex-wrap gap-6">
+            {modes.map((mode) => (
+              <label key={mode} className="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="radio"
+                  name="pricingMode"
+                  value={mode}
+                  checked={value.mode === mode}
+                  onChange={() => handleModeChange(mode)}
+                  disabled={disabled}
+                />
+                {MODE_LABELS[mode]}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {value.mode === "plan" ? (
+        /* Plan Field */
+        <div>
+          <label
+            htmlFor="plan"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+          >
+            Plan <span className="text-red-500 dark:text-red-400">*</span>
+          </label>
+          <select
+            id="plan"
+            name="plan"
+            required
+            value={value.plan_id}
+            onChange={(e) => handlePlanChange(e.target.value)}
+            className={inputClassName}
+            disabled={disabled || plansLoading || plans.length === 0}
+          >
+            <option value="">{plansLoading ? "Loading plans..." : "Select a plan"}</option>
+            {plans.map((plan) => (
+              <option key={plan.Id} value={String(plan.Id)}>
+                {plan.name} - {formatPrice(plan.unit_amount, plan.currency)} /{" "}
+                {formatInterval(plan.recurring_interval, plan.recurring_quantity)}
+              </option>
+            ))}
+          </select>
+          {plansError ? (
+            <p className="mt-1 text-sm text-red-600 dark:text-red-400">{plansError}</p>
+          ) : !plansLoading && plans.length === 0 ? (
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              No plans yet -{" "}
+              <a href="/plan-create" className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300">
+                create one
+              </a>{" "}
+              or use a custom price
+            </p>
+          ) : (
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              The plan&apos;s price and billing frequency are used for {appliesTo}
+            </p>
+          )}
+        </div>
+      ) : value.mode === "existing" ? (
+        /* Existing Price Field */
+        <div>
+          <label
+            htmlFor="stripePriceId"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+          >
+            Stripe Price ID <span className="text-red-500 dark:text-red-400">*</span>
+          </label>
+          <input
+            type="text"
+            id="stripePriceId"
+            name="stripePriceId"
+            required
+            value={value.stripe_price_id}
+            onChange={(e) => update({ stripe_price_id: e.target.value })}
+            className={`${inputClassName} font-mono`}
+            placeholder="price_..."
+            disabled={disabled}
+          />
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Must be a recurring price - its amount and billing frequency are used for {appliesTo}
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Currency and Amount Fields */}
+          <div>
+            <label
+              htmlFor="unitAmount"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+            >
+              Price <span className="text-red-500 dark:text-red-400">*</span>
+            </label>
+            <div className="flex gap-2">
+              <select
+                id="currency"
+                name="currency"
+                value={value.currency}
+                onChange={(e) => update({ currency: e.target.value })}
+                className={`${inputClassName} w-28`}
+                disabled={disabled}
+              >
+                {CURRENCIES.map((currency) => (
+                  <option key={currency} value={currency}>
+                    {currency.toUpperCase()}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                id="unitAmount"
+                name="unitAmount"
+                required
+                min="0.01"
+                step="0.01"
+                value={value.amount}
+                onChange={(e) => update({ amount: e.target.value })}
+                className={inputClassName}
+                disabled={disabled}
+              />
+            </div>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Amount charged to {appliesTo} each billing period
+            </p>
+          </div>
+
+          {/* Recurring Interval Field */}
+          <div>
+            <label
+              htmlFor="recurringInterval"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+            >
+              Recurring Interval <span className="text-red-500 dark:text-red-400">*</span>
+            </label>
+            <select
+              id="recurringInterval"
+              name="recurringInterval"
+              required
+              value={value.recurring_interval}
+              onChange={(e) => update({ recurring_interval: e.target.value as RecurringInterval })}
+              className={inputClassName}
+              disabled={disabled}
+            >
+              <option value="day">Day</option>
+              <option value="week">Week</option>
+              <option value="month">Month</option>
+              <option value="year">Year</option>
+            </select>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Billing frequency for {appliesTo}
+            </p>
+          </div>
+
+          {/* Recurring Quantity Field */}
+          <div>
+            <label
+              htmlFor="recurringQuantity"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+            >
+              Recurring Quantity <span className="text-red-500 dark:text-red-400">*</span>
+            </label>
+            <input
+              type="number"
+              id="recurringQuantity"
+              name="recurringQuantity"
+              required
+              min="1"
+              value={value.recurring_quantity}
+              onChange={(e) => update({ recurring_quantity: parseInt(e.target.value) || 1 })}
+              className={inputClassName}
+              disabled={disabled}
+            />
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Number of intervals between billing (e.g., 1 month, 3 months, etc.)
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
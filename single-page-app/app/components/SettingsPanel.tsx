@@ -0,0 +1,118 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { DEFAULT_PREFERENCES, ITEMS_PER_PAGE_OPTIONS, useApp } from "../contexts/AppContext";
+
+/**
+ * Settings panel component
+ * A gear button in the nav that opens the app preferences - saved to localStorage as they change
+ */
+export default function SettingsPanel() {
+  const { preferences, updatePreferences } = useApp();
+  const [open, setOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // Close on a click outside the panel or on Escape
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    const handleClick = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClick);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("mousedown", handleClick);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [open]);
+
+  return (
+    <div ref={panelRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="p-2 rounded-md bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+        aria-label="Settings"
+        aria-expanded={open}
+        title="Settings"
+      >
+        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"
+          />
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 z-20 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 p-4 space-y-4">
+          <h2 className="text-sm font-semibold text-gray-900 dark:text-white">Settings</h2>
+
+          <div>
+            <label htmlFor="itemsPerPage" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Customers per page
+            </label>
+            <select
+              id="itemsPerPage"
+              value={preferences.itemsPerPage}
+              onChange={(e) => updatePreferences({ itemsPerPage: Number(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm text-gray-900 dark:text-white dark:bg-gray-700"
+            >
+              {ITEMS_PER_PAGE_OPTIONS.map((count) => (
+                <option key={count} value={count}>{count}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              New customers are
+            </span>
+            <div className="flex gap-4">
+              {(["org", "sub-org"] as const).map((type) => (
+                <label key={type} className="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="radio"
+                    name="defaultCustomerType"
+                    checked={preferences.defaultCustomerType === type}
+                    onChange={() => updatePreferences({ defaultCustomerType: type })}
+                  />
+                  {type === "org" ? "Organizations" : "Sub-organizations"}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={preferences.showWelcomeMessage}
+              onChange={(e) => updatePreferences({ showWelcomeMessage: e.target.checked })}
+            />
+            Show the welcome message on the dashboard
+          </label>
+
+          <button
+            onClick={() => updatePreferences(DEFAULT_PREFERENCES)}
+            className="text-sm font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
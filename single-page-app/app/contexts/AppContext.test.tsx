@@ -0,0 +1,85 @@
+import { act, renderHook } from "@testing-library/react";
+import { ReactNode } from "react";
+import { describe, expect, it } from "vitest";
+import { AppProvider, DEFAULT_PREFERENCES, useApp } from "./AppContext";
+
+const PREFERENCES_KEY = "b2b-portal-preferences";
+const FORM_DRAFT_KEY = "b2b-portal-form-draft";
+const HOUR = 60 * 60 * 1000;
+
+const wrapper = ({ children }: { children: ReactNode }) => <AppProvider>{children}</AppProvider>;
+
+const storeDraft = (ageMs: number) =>
+  localStorage.setItem(
+    FORM_DRAFT_KEY,
+    JSON.stringify({ name: "Acme", customer_type: "sub-org", timestamp: Date.now() - ageMs })
+  );
+
+describe("AppContext form drafts", () => {
+  it("restores a draft saved less than 24 hours ago", () => {
+    storeDraft(23 * HOUR);
+
+    const { result } = renderHook(() => useApp(), { wrapper });
+
+    expect(result.current.formDraft).toMatchObject({ name: "Acme", customer_type: "sub-org" });
+  });
+
+  it("discards a draft that is 24 hours old", () => {
+    storeDraft(24 * HOUR);
+
+    const { result } = renderHook(() => useApp(), { wrapper });
+
+    expect(result.current.formDraft).toBeNull();
+    expect(localStorage.getItem(FORM_DRAFT_KEY)).toBeNull();
+  });
+
+  it("saves drafts with a timestamp and clears them", () => {
+    const { result } = renderHook(() => useApp(), { wrapper });
+
+    act(() => result.current.saveFormDraft({ name: "Globex", customer_type: "org" }));
+
+    const stored = JSON.parse(localStorage.getItem(FORM_DRAFT_KEY) ?? "null");
+    expect(stored).toMatchObject({ name: "Globex", customer_type: "org" });
+    expect(Date.now() - stored.timestamp).toBeLessThan(1000);
+    expect(result.current.formDraft).toEqual(stored);
+
+    act(() => result.current.clearFormDraft());
+
+    expect(result.current.formDraft).toBeNull();
+    expect(localStorage.getItem(FORM_DRAFT_KEY)).toBeNull();
+  });
+});
+
+describe("AppContext preferences", () => {
+  it("starts from the defaults", () => {
+    const { result } = renderHook(() => useApp(), { wrapper });
+
+    expect(result.current.preferences).toEqual(DEFAULT_PREFERENCES);
+  });
+
+  it("merges stored preferences over the defaults", () => {
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify({ itemsPerPage: 50 }));
+
+    const { result } = renderHook(() => useApp(), { wrapper });
+
+    expect(result.current.preferences).toEqual({ ...DEFAULT_PREFERENCES, itemsPerPage: 50 });
+  });
+
+  it("ignores unreadable stored preferences", () => {
+    localStorage.setItem(PREFERENCES_KEY, "{not json");
+
+    const { result } = renderHook(() => useApp(), { wrapper });
+
+    expect(result.current.preferences).toEqual(DEFAULT_PREFERENCES);
+  });
+
+  it("persists updates for the next visit", () => {
+    const first = renderHook(() => useApp(), { wrapper });
+
+    act(() => first.result.current.updatePreferences({ defaultCustomerType: "sub-org" }));
+    first.unmount();
+
+    const { result } = renderHook(() => useApp(), { wrapper });
+    expect(result.current.preferences).toEqual({ ...DEFAULT_PREFERENCES, defaultCustomerType: "sub-org" });
+  });
+});
@@ -5,7 +5,7 @@ import React, { createContext, useContext, useState, useEffect, ReactNode } from
 /**
  * App preferences and state
  */
-interface AppPreferences {
+export interface AppPreferences {
   itemsPerPage: number;
   defaultCustomerType: "org" | "sub-org";
   showWelcomeMessage: boolean;
@@ -20,6 +20,20 @@ interface FormDraft {
   timestamp: number;
 }
 
+export type CustomerFilterType = "all" | "org" | "sub-org";
+
+/**
+ * Homepage filter bar settings, combined with the search query
+ */
+export interface CustomerFilters {
+  // Fewest clients an org or sub-org may have, null for no minimum
+  minClients: number | null;
+  hasPausedClients: boolean;
+  // YYYY-MM-DD dates, inclusive - empty for no bound
+  createdFrom: string;
+  createdTo: string;
+}
+
 /**
  * App context type
  */
@@ -31,8 +45,13 @@ interface AppContextType {
   clearFormDraft: () => void;
   searchQuery: string;
   setSearchQuery: (query: string) => void;
-  filterType: "all" | "org" | "sub-org";
-  setFilterType: (type: "all" | "org" | "sub-org") => void;
+  filterType: CustomerFilterType;
+  setFilterType: (type: CustomerFilterType) => void;
+  customerFilters: CustomerFilters;
+  // Whether the search, type or any filter narrows the customer list
+  hasCustomerFilters: boolean;
+  updateCustomerFilters: (updates: Partial<CustomerFilters>) => void;
+  clearCustomerFilters: () => void;
 }
 
 /**
@@ -46,15 +65,32 @@ const AppContext = createContext<AppContextType | undefined>(undefined);
 const PREFERENCES_KEY = "b2b-portal-preferences";
 const FORM_DRAFT_KEY = "b2b-portal-form-draft";
 
+/**
+ * Session storage key - filters last for the browser tab's session
+ */
+const CUSTOMER_FILTERS_KEY = "b2b-portal-customer-filters";
+
+/**
+ * Page sizes offered for the customers list
+ */
+export const ITEMS_PER_PAGE_OPTIONS = [10, 25, 50, 100];
+
 /**
  * Default preferences
  */
-const DEFAULT_PREFERENCES: AppPreferences = {
+export const DEFAULT_PREFERENCES: AppPreferences = {
   itemsPerPage: 10,
   defaultCustomerType: "org",
   showWelcomeMessage: true,
 };
 
+export const DEFAULT_CUSTOMER_FILTERS: CustomerFilters = {
+  minClients: null,
+  hasPausedClients: false,
+  createdFrom: "",
+  createdTo: "",
+};
+
 /**
  * App Context Provider
  * Manages app-wide state and preferences with localStorage persistence
@@ -63,7 +99,10 @@ export function AppProvider({ children }: { children: ReactNode }) {
   const [preferences, setPreferences] = useState<AppPreferences>(DEFAULT_PREFERENCES);
   const [formDraft, setFormDraft] = useState<FormDraft | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
-  const [filterType, setFilterType] = useState<"all" | "org" | "sub-org">("all");
+  const [filterType, setFilterType] = useState<CustomerFilterType>("all");
+  const [customerFilters, setCustomerFilters] = useState<CustomerFilters>(DEFAULT_CUSTOMER_FILTERS);
+  // Filters are only saved once the session's filters have been restored
+  const [filtersRestored, setFiltersRestored] = useState(false);
 
   /**
    * Load preferences from localStorage on mount
@@ -101,6 +140,54 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  /**
+   * Restore the search and filters from sessionStorage on mount
+   */
+  useEffect(() => {
+    try {
+      const stored = sessionStorage.getItem(CUSTOMER_FILTERS_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        setSearchQuery(parsed.searchQuery ?? "");
+        setFilterType(parsed.filterType ?? "all");
+        setCustomerFilters({ ...DEFAULT_CUSTOMER_FILTERS, ...parsed.customerFilters });
+      }
+    } catch (err) {
+      console.error("Failed to load customer filters from sessionStorage:", err);
+    }
+    setFiltersRestored(true);
+  }, []);
+
+  /**
+   * Save the search and filters to sessionStorage whenever they change
+   */
+  useEffect(() => {
+    if (!filtersRestored) {
+      return;
+    }
+    try {
+      sessionStorage.setItem(CUSTOMER_FILTERS_KEY, JSON.stringify({ searchQuery, filterType, customerFilters }));
+    } catch (err) {
+      console.error("Failed to save customer filters to sessionStorage:", err);
+    }
+  }, [filtersRestored, searchQuery, filterType, customerFilters]);
+
+  /**
+   * Update some of the filter bar settings
+   */
+  const updateCustomerFilters = (updates: Partial<CustomerFilters>) => {
+    setCustomerFilters((prev) => ({ ...prev, ...updates }));
+  };
+
+  /**
+   * Clear the search, type and every filter
+   */
+  const clearCustomerFilters = () => {
+    setSearchQuery("");
+    setFilterType("all");
+    setCustomerFilters(DEFAULT_CUSTOMER_FILTERS);
+  };
+
   /**
    * Update preferences and save to localStorage
    */
@@ -154,6 +241,16 @@ export function AppProvider({ children }: { children: ReactNode }) {
     setSearchQuery,
     filterType,
     setFilterType,
+    customerFilters,
+    hasCustomerFilters:
+      searchQuery !== "" ||
+      filterType !== "all" ||
+      customerFilters.minClients !== null ||
+      customerFilters.hasPausedClients ||
+      customerFilters.createdFrom !== "" ||
+      customerFilters.createdTo !== "",
+    updateCustomerFilters,
+    clearCustomerFilters,
   };
 
   return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
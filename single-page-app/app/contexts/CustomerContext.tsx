@@ -1,20 +1,43 @@
 "use client";
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import React, { createContext, useContext, useState, ReactNode } from "react";
+import { useQuery, useQueryCache } from "./QueryContext";
+import { fetchAllPages, fetchJson, getErrorMessage } from "../lib/api";
+import { queryKeys } from "../lib/query-cache";
+import {
+  CreateCustomerBody,
+  Customer,
+  CustomerCollectionResult,
+  customerCollectionResultSchema,
+  CustomerDeletionPreview,
+  customerDeletionPreviewSchema,
+  CustomerDeletionResult,
+  customerDeletionResultSchema,
+  customerSchema,
+  listPage,
+  PauseBody,
+  single,
+  UpdateCustomerBody,
+} from "../lib/schema";
+
+export type {
+  ClientCollectionResult,
+  Customer,
+  CustomerCollectionResult,
+  CustomerDeletionPreview,
+  CustomerDeletionResult,
+  DeletionItemResult,
+} from "../lib/schema";
+
+const customerListSchema = listPage(customerSchema);
 
 /**
- * Customer type definition
+ * One page of orgs for the customers list
  */
-export interface Customer {
-  id: string;
-  name: string;
-  customer_type: "org" | "sub-org";
-  created: number;
-  client_count?: number;
-  suborgs?: Customer[];
-  parent_org_name?: string;
-  email?: string;
-  metadata?: Record<string, string>;
+export interface CustomerPage {
+  // Orgs across every page
+  total: number;
+  customers: Customer[];
 }
 
 /**
@@ -24,10 +47,14 @@ interface CustomerContextType {
   customers: Customer[];
   loading: boolean;
   error: string | null;
-  addCustomer: (customer: Omit<Customer, "id" | "created">) => Promise<Customer>;
-  updateCustomer: (id: string, updates: Partial<Customer>) => Promise<void>;
-  deleteCustomer: (id: string) => Promise<void>;
+  addCustomer: (customer: CreateCustomerBody) => Promise<Customer>;
+  updateCustomer: (id: string, updates: UpdateCustomerBody) => Promise<void>;
+  previewDeleteCustomer: (id: string) => Promise<CustomerDeletionPreview>;
+  deleteCustomer: (id: string) => Promise<CustomerDeletionResult>;
+  pauseCustomer: (id: string, options: PauseBody) => Promise<CustomerCollectionResult>;
+  resumeCustomer: (id: string) => Promise<CustomerCollectionResult>;
   refreshCustomers: () => Promise<void>;
+  fetchCustomerPage: (offset: number, limit: number) => Promise<CustomerPage>;
   getCustomer: (id: string) => Customer | undefined;
 }
 
@@ -37,254 +64,222 @@ interface CustomerContextType {
 const CustomerContext = createContext<CustomerContextType | undefined>(undefined);
 
 /**
- * Transform webhook response to match Customer interface
- * Handles different field naming conventions (Id vs id, CreatedAt vs created)
+ * Apply an update to the customer with the given id
+ * Searches top-level orgs and the sub-orgs nested under them
  */
-function transformCustomerData(data: any): Customer {
-  // Always convert id to string for consistency
-  const rawId = data.id ?? data.Id ?? data.ID;
-  const customerId = String(rawId);
-  
-  // Transform suborgs if they exist
-  const rawSubOrgs = data.suborgs || data.subOrgs || data.SubOrgs || [];
-  const transformedSubOrgs = Array.isArray(rawSubOrgs) 
-    ? rawSubOrgs
-        // Filter out the parent org itself and any non-sub-org entries
-        .filter((suborg: any) => {
-          const suborgRawId = suborg.id ?? suborg.Id ?? suborg.ID;
-          const suborgId = String(suborgRawId);
-          const suborgType = suborg.customer_type || suborg.customerType || "org";
-          
-          // Exclude if it's the same as parent ID or if it's not a sub-org
-          return suborgId !== customerId && suborgType === "sub-org";
-        })
-        .map((suborg: any) => transformCustomerData(suborg))
-    : [];
+function mapCustomerTree(
+  list: Customer[],
+  id: string,
+  update: (customer: Customer) => Customer
+): Customer[] {
+  return list.map((customer) => {
+    if (customer.id === id) {
+      return update(customer);
+    }
+    if (customer.suborgs && customer.suborgs.length > 0) {
+      return { ...customer, suborgs: mapCustomerTree(customer.suborgs, id, update) };
+    }
+    return customer;
+  });
+}
 
-  return {
-    id: customerId,
-    name: data.name || data.Name || "",
-    customer_type: data.customer_type || data.customerType || "org",
-    created: data.created || 
-             (data.CreatedAt ? new Date(data.CreatedAt).getTime() / 1000 : Math.floor(Date.now() / 1000)),
-    client_count: data.client_count || data.clientCount || data.ClientCount || 0,
-    suborgs: transformedSubOrgs,
-    parent_org_name: data.parent_org_name || data.parentOrgName || data.ParentOrgName,
-    email: data.email || data.Email,
-    metadata: data.metadata || {},
-  };
+/**
+ * Remove the customer with the given id from the list or from its parent's sub-orgs
+ */
+function removeFromCustomerTree(list: Customer[], id: string): Customer[] {
+  return list
+    .filter((customer) => customer.id !== id)
+    .map((customer) =>
+      customer.suborgs && customer.suborgs.length > 0
+        ? { ...customer, suborgs: removeFromCustomerTree(customer.suborgs, id) }
+        : customer
+    );
 }
 
+/**
+ * Fetch every org with its sub-orgs, a page at a time - the search and filters need orgs past the first 1000 too
+ */
+const fetchAllCustomers = (): Promise<Customer[]> =>
+  fetchAllPages('/api/customers', customerListSchema, 'Failed to fetch customers');
 
 /**
  * Customer Context Provider
  * Manages customer state from webhook/API endpoints
+ * The list and the homepage's pages are held in the query cache; mutations patch or invalidate them
  * Note: Customer data is NOT persisted to localStorage - it comes from the API
  */
 export function CustomerProvider({ children }: { children: ReactNode }) {
-  const [customers, setCustomers] = useState<Customer[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const cache = useQueryCache();
+  const customersQuery = useQuery(queryKeys.customerList, fetchAllCustomers);
+  const customers = customersQuery.data ?? [];
+  // Failed mutations are reported here as well as to the caller
+  const [mutationError, setMutationError] = useState<string | null>(null);
 
   /**
-   * Load customers from API on mount
+   * Apply an update to the customer in the list and in every cached page
+   * @returns a function that undoes the update
    */
-  useEffect(() => {
-    refreshCustomers();
-  }, []);
+  const patchCustomerTree = (update: (list: Customer[]) => Customer[]) => {
+    const rollbackList = cache.patch<Customer[]>(queryKeys.customerList, update);
+    const rollbackPages = cache.patch<CustomerPage>(queryKeys.customerPages, (page) => ({
+      ...page,
+      customers: update(page.customers),
+    }));
+    return () => {
+      rollbackList();
+      rollbackPages();
+    };
+  };
 
   /**
-   * Add a new customer via webhook endpoint
+   * Add a new customer via the customers API route
    */
-  const addCustomer = async (customerData: Omit<Customer, "id" | "created">): Promise<Customer> => {
+  const addCustomer = async (customerData: CreateCustomerBody): Promise<Customer> => {
     try {
-      const webhookUrl = process.env.NEXT_PUBLIC_WEBHOOK_CREATE_CUSTOMER;
-      
-      if (!webhookUrl) {
-        throw new Error('NEXT_PUBLIC_WEBHOOK_CREATE_CUSTOMER is not configured');
-      }
-
-      const response = await fetch(webhookUrl, {
+      const newCustomer = await fetchJson('/api/customers', single(customerSchema), 'Failed to create customer', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(customerData),
       });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to create customer: ${response.statusText}`);
-      }
-      
-      let rawCustomer = await response.json();
-      console.log('Raw response from create webhook:', rawCustomer);
-
-      // Handle if webhook returns an array instead of single object
-      if (Array.isArray(rawCustomer)) {
-        if (rawCustomer.length === 0) {
-          throw new Error('Webhook returned empty array');
-        }
-        console.log('Webhook returned array, using first element');
-        rawCustomer = rawCustomer[0];
-      }
-
-      // Transform the data to match our Customer interface
-      const newCustomer = transformCustomerData(rawCustomer);
-
-      // Validate transformed structure
-      if (!newCustomer.id || !newCustomer.name) {
-        console.error('Invalid customer response from webhook:', rawCustomer);
-        throw new Error('Invalid response from webhook - missing required fields (id, name)');
-      }
-
-      console.log('Transformed customer:', newCustomer);
 
-      // Add to state optimistically
-      setCustomers((prev) => [...prev, newCustomer]);
-      setError(null);
+      // Add to the list straight away - the pages and stats are refetched in the background
+      cache.setData<Customer[]>(queryKeys.customerList, (prev) => [...(prev ?? []), newCustomer]);
+      cache.invalidate(queryKeys.customerPages);
+      cache.invalidate(queryKeys.stats);
+      setMutationError(null);
       return newCustomer;
     } catch (err) {
       const message = err instanceof Error ? err.message : "Failed to create customer";
-      setError(message);
+      setMutationError(message);
       throw err;
     }
   };
 
   /**
-   * Update an existing customer via webhook endpoint
+   * Update an existing customer via the customers API route
+   * Applies the change optimistically and rolls it back if the request fails
    */
-  const updateCustomer = async (id: string, updates: Partial<Customer>): Promise<void> => {
-    try {
-      // TODO: Replace with your n8n webhook URL
-      // const webhookUrl = process.env.NEXT_PUBLIC_WEBHOOK_UPDATE_CUSTOMER;
-      // await fetch(webhookUrl, {
-      //   method: 'POST',
-      //   headers: { 'Content-Type': 'application/json' },
-      //   body: JSON.stringify({ id, ...updates }),
-      // });
+  const updateCustomer = async (id: string, updates: UpdateCustomerBody): Promise<void> => {
+    // Update the cache optimistically
+    const rollback = patchCustomerTree((list) =>
+      mapCustomerTree(list, id, (customer) => ({ ...customer, ...updates }))
+    );
 
-      // Temporary: Simulate API call
-      await new Promise((resolve) => setTimeout(resolve, 500));
+    try {
+      const response = await fetch(`/api/customers/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
 
-      // Update state optimistically
-      setCustomers((prev) =>
-        prev.map((customer) =>
-          customer.id === id ? { ...customer, ...updates } : customer
-        )
-      );
-      setError(null);
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to update customer'));
+      }
     } catch (err) {
-      const message = err instanceof Error ? err.message : "Failed to update customer";
-      setError(message);
+      // Roll back the optimistic update - the caller reports the error,
+      // so the customer list stays visible instead of being replaced by it
+      rollback();
       throw err;
     }
   };
 
   /**
-   * Delete a customer via webhook endpoint
+   * Fetch what deleting a customer would remove (sub-orgs, clients, subscriptions)
    */
-  const deleteCustomer = async (id: string): Promise<void> => {
-    try {
-      // TODO: Replace with your n8n webhook URL
-      // const webhookUrl = process.env.NEXT_PUBLIC_WEBHOOK_DELETE_CUSTOMER;
-      // await fetch(webhookUrl, {
-      //   method: 'POST',
-      //   headers: { 'Content-Type': 'application/json' },
-      //   body: JSON.stringify({ id }),
-      // });
+  const previewDeleteCustomer = async (id: string): Promise<CustomerDeletionPreview> => {
+    return fetchJson(
+      `/api/customers/${encodeURIComponent(id)}/delete-preview`,
+      customerDeletionPreviewSchema,
+      'Failed to load delete preview'
+    );
+  };
 
-      // Temporary: Simulate API call
-      await new Promise((resolve) => setTimeout(resolve, 500));
+  /**
+   * Delete a customer, its sub-orgs and their clients via the customers API route
+   * Subscriptions are canceled first, so the customer is only removed from the cache
+   * once the workflow confirms it was deleted - otherwise the list is refreshed
+   * to pick up the clients that were removed
+   */
+  const deleteCustomer = async (id: string): Promise<CustomerDeletionResult> => {
+    const result = await fetchJson(
+      `/api/customers/${encodeURIComponent(id)}`,
+      customerDeletionResultSchema,
+      'Failed to delete customer',
+      { method: 'DELETE' }
+    );
 
-      // Update state optimistically
-      setCustomers((prev) => prev.filter((customer) => customer.id !== id));
-      setError(null);
-    } catch (err) {
-      const message = err instanceof Error ? err.message : "Failed to delete customer";
-      setError(message);
-      throw err;
+    if (result.deleted) {
+      patchCustomerTree((list) => removeFromCustomerTree(list, id));
+      // Page totals and the orgs moving up from the next page come from the server
+      cache.invalidate(queryKeys.customerPages);
+      cache.invalidate(queryKeys.clients);
+      cache.invalidate(queryKeys.stats);
+    } else {
+      await refreshCustomers();
     }
+
+    return result;
   };
 
   /**
-   * Refresh customers from webhook endpoint
+   * Pause collection on every active client of an org or sub-org
+   * The customers are refreshed afterwards to pick up the new client counts
    */
-  const refreshCustomers = async (): Promise<void> => {
-    try {
-      setLoading(true);
-      setError(null);
-      
-      const webhookUrl = process.env.NEXT_PUBLIC_WEBHOOK_GET_CUSTOMERS;
-      
-      if (!webhookUrl) {
-        // If webhook not configured, start with empty array
-        console.warn('NEXT_PUBLIC_WEBHOOK_GET_CUSTOMERS is not configured');
-        setCustomers([]);
-        return;
+  const pauseCustomer = async (id: string, options: PauseBody): Promise<CustomerCollectionResult> => {
+    const result = await fetchJson(
+      `/api/customers/${encodeURIComponent(id)}/pause`,
+      customerCollectionResultSchema,
+      'Failed to pause customer',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(options),
       }
+    );
+    await refreshCustomers();
+    return result;
+  };
 
-      const response = await fetch(webhookUrl);
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch customers: ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      
-      console.log('Raw data from GET webhook:', data);
-      console.log('Is array?', Array.isArray(data));
-      
-      // Ensure data is an array
-      if (!Array.isArray(data)) {
-        console.error('Expected array from webhook, got:', typeof data);
-        setCustomers([]);
-        return;
-      }
-      
-      // Transform and validate each customer
-      const validatedCustomers: Customer[] = [];
-      const invalidCustomers: any[] = [];
-      
-      data.forEach((rawCustomer, index) => {
-        if (!rawCustomer) {
-          console.error(`Customer at index ${index} is null/undefined`);
-          invalidCustomers.push({ index, reason: 'null or undefined', data: rawCustomer });
-          return;
-        }
-        
-        try {
-          // Transform the customer data
-          const customer = transformCustomerData(rawCustomer);
-          
-          // Validate required fields after transformation
-          if (!customer.id) {
-            console.error(`Customer at index ${index} missing 'id' after transform:`, rawCustomer);
-            invalidCustomers.push({ index, reason: 'missing id', raw: rawCustomer, transformed: customer });
-          } else if (!customer.name) {
-            console.error(`Customer at index ${index} missing 'name' after transform:`, rawCustomer);
-            invalidCustomers.push({ index, reason: 'missing name', raw: rawCustomer, transformed: customer });
-          } else {
-            validatedCustomers.push(customer);
-          }
-        } catch (err) {
-          console.error(`Error transforming customer at index ${index}:`, err, rawCustomer);
-          invalidCustomers.push({ index, reason: 'transform error', data: rawCustomer, error: err });
-        }
-      });
-      
-      if (invalidCustomers.length > 0) {
-        console.error(`⚠️ Filtered out ${invalidCustomers.length} invalid customers:`, invalidCustomers);
-      }
-      
-      console.log(`✅ Loaded ${validatedCustomers.length} valid customers:`, validatedCustomers);
-      
-      setCustomers(validatedCustomers);
-      
-    } catch (err) {
-      const message = err instanceof Error ? err.message : "Failed to refresh customers";
-      setError(message);
-      console.error('Error fetching customers:', err);
-    } finally {
-      setLoading(false);
-    }
+  /**
+   * Resume collection on every paused client of an org or sub-org
+   * The customers are refreshed afterwards to pick up the new client counts
+   */
+  const resumeCustomer = async (id: string): Promise<CustomerCollectionResult> => {
+    const result = await fetchJson(
+      `/api/customers/${encodeURIComponent(id)}/resume`,
+      customerCollectionResultSchema,
+      'Failed to resume customer',
+      { method: 'POST' }
+    );
+    await refreshCustomers();
+    return result;
+  };
+
+  /**
+   * Refresh the customers and everything derived from their clients - counts, client lists and stats
+   * Cached data stays on screen until the new data arrives
+   */
+  const refreshCustomers = async (): Promise<void> => {
+    setMutationError(null);
+    await Promise.all([
+      cache.invalidate(queryKeys.customers),
+      cache.invalidate(queryKeys.clients),
+      cache.invalidate(queryKeys.stats),
+    ]);
+  };
+
+  /**
+   * Fetch one page of orgs with their sub-orgs, along with the total number of orgs
+   * The homepage caches pages under queryKeys.customerPage so the updates above reach them
+   * customers keeps the full list for lookups and autocomplete
+   */
+  const fetchCustomerPage = async (offset: number, limit: number): Promise<CustomerPage> => {
+    const page = await fetchJson(
+      `/api/customers?offset=${offset}&limit=${limit}`,
+      customerListSchema,
+      'Failed to fetch customers'
+    );
+    return { total: page.total, customers: page.data };
   };
 
   /**
@@ -296,12 +291,16 @@ export function CustomerProvider({ children }: { children: ReactNode }) {
 
   const value: CustomerContextType = {
     customers,
-    loading,
-    error,
+    loading: customersQuery.loading,
+    error: mutationError ?? customersQuery.error,
     addCustomer,
     updateCustomer,
+    previewDeleteCustomer,
     deleteCustomer,
+    pauseCustomer,
+    resumeCustomer,
     refreshCustomers,
+    fetchCustomerPage,
     getCustomer,
   };
 
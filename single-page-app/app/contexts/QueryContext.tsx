@@ -0,0 +1,132 @@
+"use client";
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+  ReactNode,
+} from "react";
+import { createQueryCache, QueryCache, QueryKey, QueryState } from "../lib/query-cache";
+
+/**
+ * Result of useQuery
+ */
+export interface QueryResult<T> {
+  data: T | undefined;
+  error: string | null;
+  // No data for the key yet - cached data is shown while it is revalidated
+  loading: boolean;
+  // A fetch is in flight, including background revalidation
+  validating: boolean;
+  refetch: () => Promise<T | undefined>;
+}
+
+/**
+ * Create the Query Context
+ */
+const QueryContext = createContext<QueryCache | undefined>(undefined);
+
+// State of a disabled query
+const IDLE_STATE: QueryState<never> = { error: null, updatedAt: 0, fetching: false, invalidated: false };
+
+/**
+ * Query Provider
+ * Holds one cache for the whole app and revalidates what is on screen when the window regains focus
+ */
+export function QueryProvider({ children }: { children: ReactNode }) {
+  const [cache] = useState(() => createQueryCache());
+
+  useEffect(() => {
+    const handleFocus = () => {
+      if (document.visibilityState !== "hidden") {
+        cache.revalidateActive();
+      }
+    };
+
+    window.addEventListener("focus", handleFocus);
+    document.addEventListener("visibilitychange", handleFocus);
+    return () => {
+      window.removeEventListener("focus", handleFocus);
+      document.removeEventListener("visibilitychange", handleFocus);
+    };
+  }, [cache]);
+
+  return <QueryContext.Provider value={cache}>{children}</QueryContext.Provider>;
+}
+
+/**
+ * Custom hook to use the query cache, e.g. to invalidate keys after a mutation
+ * @throws Error if used outside of QueryProvider
+ */
+export function useQueryCache(): QueryCache {
+  const context = useContext(QueryContext);
+  if (context === undefined) {
+    throw new Error("useQueryCache must be used within a QueryProvider");
+  }
+  return context;
+}
+
+export interface QueryOptions {
+  // Keep returning the previous key's data while a new key loads, e.g. when paging
+  keepPreviousData?: boolean;
+}
+
+/**
+ * Read a key through the cache, fetching it when it is missing or stale
+ * Pass null as the key to skip the query, e.g. until a required id is known
+ */
+export function useQuery<T>(
+  key: QueryKey | null,
+  fetcher: () => Promise<T>,
+  { keepPreviousData = false }: QueryOptions = {}
+): QueryResult<T> {
+  const cache = useQueryCache();
+  const hash = key ? JSON.stringify(key) : null;
+
+  // The latest key and fetcher, so callers can pass inline arrays and functions
+  const keyRef = useRef(key);
+  const fetcherRef = useRef(fetcher);
+  keyRef.current = key;
+  fetcherRef.current = fetcher;
+
+  const subscribe = useCallback(
+    (listener: () => void) => (keyRef.current ? cache.subscribe(keyRef.current, listener) : () => {}),
+    // The key's contents, not its identity, decide what to listen to
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [cache, hash]
+  );
+  const getSnapshot = () => (keyRef.current ? cache.getState<T>(keyRef.current) : IDLE_STATE);
+  const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const previousDataRef = useRef<T | undefined>(undefined);
+  if (state.data !== undefined) {
+    previousDataRef.current = state.data;
+  }
+
+  useEffect(() => {
+    if (keyRef.current) {
+      cache.fetch(keyRef.current, () => fetcherRef.current()).catch((err) => {
+        console.error(`Error fetching ${hash}:`, err);
+      });
+    }
+  }, [cache, hash]);
+
+  const refetch = useCallback(async () => {
+    if (!keyRef.current) {
+      return undefined;
+    }
+    return cache.fetch(keyRef.current, () => fetcherRef.current(), { force: true });
+  }, [cache]);
+
+  return {
+    data: state.data ?? (keepPreviousData ? previousDataRef.current : undefined),
+    error: state.error,
+    loading: key !== null && state.data === undefined && (state.fetching || state.error === null),
+    validating: state.fetching,
+    refetch,
+  };
+}
@@ -0,0 +1,96 @@
+import { screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it } from "vitest";
+import CustomerCreate from "./page";
+import { ApiCall, apiError, mockApi } from "../../test/api";
+import { customerPage } from "../../test/fixtures";
+import { router } from "../../test/navigation";
+import { renderWithProviders } from "../../test/render";
+
+// Echo the posted customer back as the new row
+const createdRow = ({ body }: ApiCall) => {
+  const { name, customer_type } = body as { name: string; customer_type: string };
+  return { Id: 4, name, customer_type, CreatedAt: "2026-03-01 10:00:00+00:00" };
+};
+
+describe("customer-create page", () => {
+  it("creates an organization and returns to the homepage", async () => {
+    const user = userEvent.setup();
+    const api = mockApi({
+      "GET /api/customers": customerPage,
+      "POST /api/customers": createdRow,
+    });
+    renderWithProviders(<CustomerCreate />);
+
+    await user.type(screen.getByLabelText(/Customer Name/), "Globex");
+    await user.click(screen.getByRole("button", { name: "Create Customer" }));
+
+    expect(await screen.findByText("Customer created successfully! Redirecting...")).toBeInTheDocument();
+    expect(api.callsTo("POST /api/customers")[0].body).toEqual({ name: "Globex", customer_type: "org" });
+    await waitFor(() => expect(router.push).toHaveBeenCalledWith("/"), { timeout: 3000 });
+  });
+
+  it("requires a parent organization for sub-orgs and sends the chosen one", async () => {
+    const user = userEvent.setup();
+    const api = mockApi({
+      "GET /api/customers": customerPage,
+      "POST /api/customers": createdRow,
+    });
+    renderWithProviders(<CustomerCreate />);
+
+    await user.type(screen.getByLabelText(/Customer Name/), "East Clinic");
+    await user.selectOptions(screen.getByLabelText(/Customer Type/), "sub-org");
+    await user.click(screen.getByRole("button", { name: "Create Customer" }));
+
+    expect(screen.getByText("Please select a parent organization for sub-organizations")).toBeInTheDocument();
+    expect(api.callsTo("POST /api/customers")).toHaveLength(0);
+
+    // Only organizations are offered as parents
+    await user.type(screen.getByPlaceholderText("Search customers..."), "a");
+    const suggestions = within(screen.getByRole("listbox"));
+    expect(suggestions.getAllByRole("option")).toHaveLength(1);
+    await user.click(suggestions.getByRole("option", { name: /Acme Health/ }));
+    await user.click(screen.getByRole("button", { name: "Create Customer" }));
+
+    await screen.findByText("Customer created successfully! Redirecting...");
+    expect(api.callsTo("POST /api/customers")[0].body).toEqual({
+      name: "East Clinic",
+      customer_type: "sub-org",
+      parent_org_id: "1",
+    });
+  });
+
+  it("shows the backend's error and lets the user retry", async () => {
+    const user = userEvent.setup();
+    mockApi({
+      "GET /api/customers": customerPage,
+      "POST /api/customers": apiError(409, "A customer with this name already exists"),
+    });
+    renderWithProviders(<CustomerCreate />);
+
+    await user.type(screen.getByLabelText(/Customer Name/), "Acme Health");
+    await user.click(screen.getByRole("button", { name: "Create Customer" }));
+
+    expect(await screen.findByText("A customer with this name already exists")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Create Customer" })).toBeEnabled();
+    expect(router.push).not.toHaveBeenCalled();
+  });
+
+  it("offers to restore a draft saved on an earlier visit", async () => {
+    const user = userEvent.setup();
+    localStorage.setItem(
+      "b2b-portal-form-draft",
+      JSON.stringify({ name: "Initech", customer_type: "org", timestamp: Date.now() })
+    );
+    mockApi({ "GET /api/customers": customerPage });
+
+    // The draft is loaded once the app has mounted, so arrive from another page
+    const view = renderWithProviders(<div />);
+    view.rerender(<CustomerCreate />);
+
+    await user.click(await screen.findByRole("button", { name: "Restore Draft" }));
+
+    expect(screen.getByLabelText(/Customer Name/)).toHaveValue("Initech");
+    expect(screen.queryByText(/You have an unsaved draft/)).not.toBeInTheDocument();
+  });
+});
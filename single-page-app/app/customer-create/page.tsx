@@ -5,6 +5,7 @@ import { useRouter } from "next/navigation";
 import { useCustomers, Customer } from "../contexts/CustomerContext";
 import { useApp } from "../contexts/AppContext";
 import CustomerAutocomplete from "../components/CustomerAutocomplete";
+import { CreateCustomerBody } from "../lib/schema";
 
 /**
  * Customer creation page component
@@ -14,7 +15,7 @@ import CustomerAutocomplete from "../components/CustomerAutocomplete";
 export default function CustomerCreate() {
   const router = useRouter();
   const { addCustomer, customers } = useCustomers();
-  const { formDraft, saveFormDraft, clearFormDraft } = useApp();
+  const { formDraft, saveFormDraft, clearFormDraft, preferences } = useApp();
   
   const [formData, setFormData] = useState({
     name: "",
@@ -31,6 +32,13 @@ export default function CustomerCreate() {
   // Filter to get only organizations (for parent org selection)
   const organizations = customers.filter(c => c.customer_type === "org");
 
+  /**
+   * Start a blank form on the preferred customer type - preferences load after the first render
+   */
+  useEffect(() => {
+    setFormData((prev) => (prev.name ? prev : { ...prev, customer_type: preferences.defaultCustomerType }));
+  }, [preferences.defaultCustomerType]);
+
   /**
    * Load form draft on mount if available (only check once on mount)
    */
@@ -82,7 +90,7 @@ export default function CustomerCreate() {
 
     try {
       // Prepare customer data
-      const customerData: any = {
+      const customerData: CreateCustomerBody = {
         name: formData.name,
         customer_type: formData.customer_type,
       };
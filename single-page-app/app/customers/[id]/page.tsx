@@ -0,0 +1,355 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { useParams } from "next/navigation";
+import ExportButtons from "../../components/ExportButtons";
+import PauseCustomerDialog from "../../components/PauseCustomerDialog";
+import { fetchJson } from "../../lib/api";
+import { CustomerDetail, customerDetailSchema } from "../../lib/schema";
+import { getSubscriptionStatusBadgeClass } from "../../lib/subscriptions";
+
+/**
+ * Build the clients-view link for a sub-org
+ */
+const getClientsViewUrl = (suborg: { id: string; name: string }, parentName?: string) =>
+  `/clients-view?suborg=${suborg.id}&name=${encodeURIComponent(suborg.name)}&parent=${encodeURIComponent(parentName || "")}`;
+
+/**
+ * Customer detail page component
+ * Shows an org or sub-org with its hierarchy, client counts, subscription buckets and recent clients
+ */
+export default function CustomerDetailPage() {
+  const params = useParams<{ id: string }>();
+  const customerId = params.id;
+
+  const [detail, setDetail] = useState<CustomerDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [collectionAction, setCollectionAction] = useState<"pause" | "resume" | null>(null);
+
+  const fetchCustomer = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      setDetail(
+        await fetchJson(`/api/customers/${encodeURIComponent(customerId)}`, customerDetailSchema, 'Failed to fetch customer')
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to fetch customer";
+      setError(message);
+      console.error('Error fetching customer:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    fetchCustomer();
+  }, [fetchCustomer]);
+
+  // Keep the page mounted while refetching after a pause or resume so the dialog can show its summary
+  if (loading && !detail) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="text-center py-12">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 dark:border-blue-400"></div>
+          <p className="mt-4 text-gray-600 dark:text-gray-300">Loading customer...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !detail) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="text-center py-12">
+          <p className="text-red-600 dark:text-red-400">{error || "Customer not found"}</p>
+          <a
+            href="/"
+            className="mt-4 inline-block text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 text-sm font-medium"
+          >
+            Back to customers
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  const { customer, parent_org, suborgs, buckets, recent_clients } = detail;
+  const isOrg = customer.customer_type === "org";
+
+  // Buckets and clients can belong to the customer itself or any of its sub-orgs
+  const customerNames = new Map<string, string>([
+    [String(customer.id), customer.name],
+    ...suborgs.map((suborg): [string, string] => [String(suborg.id), suborg.name]),
+  ]);
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400 mb-2">
+          <a href="/" className="hover:text-blue-600 dark:hover:text-blue-400">Customers</a>
+          <span>/</span>
+          {parent_org && (
+            <>
+              <a href={`/customers/${parent_org.id}`} className="hover:text-blue-600 dark:hover:text-blue-400">
+                {parent_org.name}
+              </a>
+              <span>/</span>
+            </>
+          )}
+          <span>{customer.name}</span>
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{customer.name}</h1>
+            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+              isOrg
+                ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+                : "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
+            }`}>
+              {customer.customer_type}
+            </span>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setCollectionAction("pause")}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-yellow-700 dark:text-yellow-400 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Pause all
+            </button>
+            <button
+              onClick={() => setCollectionAction("resume")}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-green-700 dark:text-green-400 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Resume all
+            </button>
+            <ExportButtons customerId={customerId} />
+            {!isOrg && (
+              <a
+                href={getClientsViewUrl(customer, parent_org?.name)}
+                className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600"
+              >
+                View Clients
+              </a>
+            )}
+          </div>
+        </div>
+        {customer.stripe_customer_id && (
+          <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+            Stripe customer:{" "}
+            <a
+              href={`https://dashboard.stripe.com/test/customers/${customer.stripe_customer_id}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-mono text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              {customer.stripe_customer_id}
+            </a>
+          </p>
+        )}
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 transition-colors">
+          <div className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">Total Clients</div>
+          <div className="text-3xl font-bold text-gray-900 dark:text-white">{customer.client_count}</div>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 transition-colors">
+          <div className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">Active Clients</div>
+          <div className="text-3xl font-bold text-green-600 dark:text-green-400">{customer.client_count_active}</div>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 transition-colors">
+          <div className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">Paused Clients</div>
+          <div className="text-3xl font-bold text-yellow-600 dark:text-yellow-400">{customer.client_count_paused}</div>
+        </div>
+      </div>
+
+      {/* Sub-Orgs */}
+      {isOrg && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md mb-8 transition-colors">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Sub-Orgs</h2>
+          </div>
+          <div className="p-6">
+            {suborgs.length === 0 ? (
+              <p className="text-center text-gray-600 dark:text-gray-400">This org has no sub-orgs yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead className="bg-gray-50 dark:bg-gray-700">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Name</th>
+                      <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Clients</th>
+                      <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Active</th>
+                      <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Paused</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                    {suborgs.map((suborg) => (
+                      <tr key={suborg.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                          <a
+                            href={`/customers/${suborg.id}`}
+                            className="text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400"
+                          >
+                            {suborg.name}
+                          </a>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-center text-gray-900 dark:text-white">{suborg.client_count}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-center text-green-600 dark:text-green-400">{suborg.client_count_active}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-center text-yellow-600 dark:text-yellow-400">{suborg.client_count_paused}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                          <a
+                            href={getClientsViewUrl(suborg, customer.name)}
+                            className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
+                          >
+                            View Clients
+                          </a>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Subscription Buckets */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md mb-8 transition-colors">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Subscription Buckets</h2>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Each bucket is a Stripe customer holding up to 500 client subscriptions
+          </p>
+        </div>
+        <div className="p-6">
+          {buckets.length === 0 ? (
+            <p className="text-center text-gray-600 dark:text-gray-400">No subscription buckets yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Bucket</th>
+                    {isOrg && (
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Sub-Org</th>
+                    )}
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Stripe Customer</th>
+                    <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Clients Assigned</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                  {buckets.map((bucket) => (
+                    <tr key={bucket.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">#{bucket.id}</td>
+                      {isOrg && (
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {customerNames.get(String(bucket.customer_id)) || bucket.customer_id}
+                        </td>
+                      )}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {bucket.stripe_customer_id ? (
+                          <a
+                            href={`https://dashboard.stripe.com/test/customers/${bucket.stripe_customer_id}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="font-mono text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
+                          >
+                            {bucket.stripe_customer_id}
+                          </a>
+                        ) : (
+                          <span className="text-gray-400 dark:text-gray-500">-</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-center text-gray-900 dark:text-white">
+                        {bucket.total_clients_assigned}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Recent Clients */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md transition-colors">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Recent Clients</h2>
+        </div>
+        <div className="p-6">
+          {recent_clients.length === 0 ? (
+            <p className="text-center text-gray-600 dark:text-gray-400">No clients yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Client Name</th>
+                    {isOrg && (
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Sub-Org</th>
+                    )}
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Subscription</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Created</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                  {recent_clients.map((client) => (
+                    <tr key={client.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">{client.name}</td>
+                      {isOrg && (
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {customerNames.get(String(client.customer_id)) || client.customer_id}
+                        </td>
+                      )}
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getSubscriptionStatusBadgeClass(client.stripe_subscription_status)}`}>
+                          {client.stripe_subscription_status || 'unknown'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {client.stripe_subscription_id ? (
+                          <a
+                            href={`https://dashboard.stripe.com/test/subscriptions/${client.stripe_subscription_id}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="font-mono text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
+                          >
+                            {client.stripe_subscription_id}
+                          </a>
+                        ) : (
+                          <span className="text-gray-400 dark:text-gray-500">-</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {client.created_at ? new Date(client.created_at).toLocaleDateString() : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {collectionAction && (
+        <PauseCustomerDialog
+          customer={{ id: customerId, name: customer.name, customer_type: customer.customer_type }}
+          action={collectionAction}
+          onClose={() => setCollectionAction(null)}
+          onDone={fetchCustomer}
+        />
+      )}
+    </div>
+  );
+}
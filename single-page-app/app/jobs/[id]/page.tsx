@@ -0,0 +1,257 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useParams } from "next/navigation";
+import { useQueryCache } from "../../contexts/QueryContext";
+import { fetchJson } from "../../lib/api";
+import { BATCH_JOB_STATUS_LABELS, BatchItemStatus, BatchJob, BatchJobStatus } from "../../lib/batch";
+import { queryKeys } from "../../lib/query-cache";
+import { batchJobSchema } from "../../lib/schema";
+
+// Refresh interval while the job is running
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Get the badge color classes for a job or item status
+ */
+function getStatusBadgeClass(status: BatchJobStatus | BatchItemStatus): string {
+  switch (status) {
+    case "running":
+      return "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200";
+    case "completed":
+    case "done":
+      return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200";
+    case "failed":
+      return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200";
+    case "interrupted":
+      return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200";
+    default:
+      return "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300";
+  }
+}
+
+/**
+ * Batch job page component
+ * Follows a batch job while it runs and retries its failed clients once it has stopped
+ */
+export default function JobDetail() {
+  const params = useParams();
+  const jobId = params.id as string;
+  const cache = useQueryCache();
+
+  const [job, setJob] = useState<BatchJob | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [resuming, setResuming] = useState(false);
+  const [showFailedOnly, setShowFailedOnly] = useState(false);
+
+  /**
+   * Fetch the job with its items
+   */
+  const fetchJob = useCallback(async () => {
+    try {
+      setJob(await fetchJson(`/api/jobs/${jobId}`, batchJobSchema, 'Failed to fetch job'));
+      setError(null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to fetch job";
+      setError(message);
+      console.error('Error fetching job:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    fetchJob();
+  }, [fetchJob]);
+
+  const isRunning = job?.status === "running";
+
+  useEffect(() => {
+    if (!isRunning) {
+      return;
+    }
+    const timer = setInterval(fetchJob, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isRunning, fetchJob]);
+
+  // Once the job stops, cached clients, counts and stats for its sub-org are out of date
+  const jobSubOrgId = job?.customer.id;
+  useEffect(() => {
+    if (!jobSubOrgId || isRunning) {
+      return;
+    }
+    cache.invalidate(queryKeys.clientsBySubOrg(jobSubOrgId));
+    cache.invalidate(queryKeys.customers);
+    cache.invalidate(queryKeys.stats);
+  }, [cache, jobSubOrgId, isRunning]);
+
+  /**
+   * Retry the failed and unfinished clients with their original idempotency keys
+   */
+  const handleResume = async () => {
+    setResuming(true);
+    try {
+      setJob(await fetchJson(`/api/jobs/${jobId}/resume`, batchJobSchema, 'Failed to resume job', { method: 'POST' }));
+    } catch (err) {
+      console.error('Error resuming job:', err);
+      alert(err instanceof Error ? err.message : 'Failed to resume job');
+    } finally {
+      setResuming(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="text-center py-12">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 dark:border-blue-400"></div>
+          <p className="mt-4 text-gray-600 dark:text-gray-300">Loading job...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!job) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="text-center py-12">
+          <p className="text-red-600 dark:text-red-400">{error || "Job not found"}</p>
+          <a href="/jobs" className="mt-4 inline-block text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300">
+            Back to jobs
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  const finished = job.done + job.failed;
+  const progressPercentage = job.total > 0 ? Math.round((finished / job.total) * 100) : 0;
+  const canResume = !isRunning && job.done < job.total;
+  const items = showFailedOnly ? job.items.filter((item) => item.status === "failed") : job.items;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md transition-colors">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <a href="/jobs" className="text-sm text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300">
+                ← All jobs
+              </a>
+              <h1 className="mt-1 text-xl font-semibold text-gray-900 dark:text-white">
+                Batch for {job.customer.parent_org_name ? `${job.customer.parent_org_name} / ` : ""}{job.customer.name}
+              </h1>
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                Started {new Date(job.created_at * 1000).toLocaleString()}
+                {job.finished_at && ` - finished ${new Date(job.finished_at * 1000).toLocaleString()}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-4">
+              <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusBadgeClass(job.status)}`}>
+                {BATCH_JOB_STATUS_LABELS[job.status]}
+              </span>
+              {canResume && (
+                <button
+                  onClick={handleResume}
+                  disabled={resuming}
+                  className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 disabled:opacity-50"
+                >
+                  {resuming ? "Resuming..." : job.status === "interrupted" ? "Resume" : `Retry ${job.failed} failed`}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          {/* Progress Bar */}
+          <div>
+            <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-2">
+              <span>
+                {job.done} created
+                {job.failed > 0 && `, ${job.failed} failed`}
+              </span>
+              <span>{finished} / {job.total} ({progressPercentage}%)</span>
+            </div>
+            <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-3">
+              <div
+                className="bg-blue-600 dark:bg-blue-500 h-3 rounded-full transition-all duration-300"
+                style={{ width: `${progressPercentage}%` }}
+              ></div>
+            </div>
+          </div>
+
+          {job.status === "interrupted" && (
+            <div className="p-4 rounded-lg bg-yellow-50 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200 text-sm">
+              The server stopped while this job was running. Resume it to create the remaining clients - clients that were already created are not created again.
+            </div>
+          )}
+
+          {error && (
+            <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200 text-sm">
+              {error}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md transition-colors">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Clients ({job.total})</h2>
+          <label className="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={showFailedOnly}
+              onChange={(e) => setShowFailedOnly(e.target.checked)}
+            />
+            Failed only
+          </label>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">#</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Name</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Attempts</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Details</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {items.map((item) => (
+                <tr key={item.index}>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{item.index + 1}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm">
+                    <div className="text-gray-900 dark:text-white">{item.name}</div>
+                    {(item.email || item.external_ref) && (
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {[item.email, item.external_ref].filter(Boolean).join(" · ")}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusBadgeClass(item.status)}`}>
+                      {item.status}
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{item.attempts}</td>
+                  <td className="px-6 py-3 text-sm">
+                    {item.status === "failed" && item.error ? (
+                      <span className="text-red-600 dark:text-red-400">{item.error}</span>
+                    ) : item.existing ? (
+                      <span className="text-gray-500 dark:text-gray-400">Already created by an earlier attempt</span>
+                    ) : item.client_id !== undefined ? (
+                      <span className="font-mono text-gray-500 dark:text-gray-400">{item.client_id}</span>
+                    ) : null}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { fetchJson } from "../lib/api";
+import { BATCH_JOB_STATUS_LABELS, BatchJobStatus, BatchJobSummary } from "../lib/batch";
+import { array, batchJobSummarySchema } from "../lib/schema";
+
+// Refresh interval while any job is still running
+const POLL_INTERVAL_MS = 3000;
+
+/**
+ * Get the badge color classes for a job status
+ */
+function getStatusBadgeClass(status: BatchJobStatus): string {
+  switch (status) {
+    case "running":
+      return "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200";
+    case "completed":
+      return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200";
+    default:
+      return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200";
+  }
+}
+
+/**
+ * Jobs page component
+ * Lists server-side batch jobs so a run can be reopened after the tab that started it was closed
+ */
+export default function Jobs() {
+  const [jobs, setJobs] = useState<BatchJobSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetch jobs from the jobs API route
+   */
+  const fetchJobs = async () => {
+    try {
+      setError(null);
+
+      setJobs(await fetchJson('/api/jobs', array(batchJobSummarySchema), 'Failed to fetch jobs'));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to fetch jobs";
+      setError(message);
+      console.error('Error fetching jobs:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchJobs();
+  }, []);
+
+  const hasRunningJobs = jobs.some((job) => job.status === "running");
+
+  useEffect(() => {
+    if (!hasRunningJobs) {
+      return;
+    }
+    const timer = setInterval(fetchJobs, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasRunningJobs]);
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md transition-colors">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <h1 className="text-xl font-semibold text-gray-900 dark:text-white">Batch Jobs</h1>
+            <a
+              href="/client-create-batch"
+              className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600"
+            >
+              New Batch
+            </a>
+          </div>
+        </div>
+        <div className="p-6">
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 dark:border-blue-400"></div>
+              <p className="mt-4 text-gray-600 dark:text-gray-300">Loading jobs...</p>
+            </div>
+          ) : error ? (
+            <div className="text-center py-12">
+              <p className="text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          ) : jobs.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-sm font-medium text-gray-900 dark:text-white">No jobs</h3>
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                Batch client creation runs show up here.
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Sub-Organization</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Progress</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Started</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                  {jobs.map((job) => (
+                    <tr key={job.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                      <td className="px-6 py-4 text-sm">
+                        <div className="font-medium text-gray-900 dark:text-white">{job.customer.name}</div>
+                        {job.customer.parent_org_name && (
+                          <div className="text-gray-500 dark:text-gray-400">{job.customer.parent_org_name}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusBadgeClass(job.status)}`}>
+                          {BATCH_JOB_STATUS_LABELS[job.status]}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {job.done} / {job.total} created
+                        {job.failed > 0 && (
+                          <span className="text-red-600 dark:text-red-400">, {job.failed} failed</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {new Date(job.created_at * 1000).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        <a
+                          href={`/jobs/${job.id}`}
+                          className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
+                        >
+                          View
+                        </a>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
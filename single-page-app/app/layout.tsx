@@ -1,8 +1,10 @@
 import type { Metadata } from "next";
 import "./globals.css";
+import SettingsPanel from "./components/SettingsPanel";
 import ThemeToggle from "./components/ThemeToggle";
 import { CustomerProvider } from "./contexts/CustomerContext";
 import { AppProvider } from "./contexts/AppContext";
+import { QueryProvider } from "./contexts/QueryContext";
 
 export const metadata: Metadata = {
   title: "B2B Subscription Portal",
@@ -47,6 +49,7 @@ export default function RootLayout({
       </head>
       <body className="antialiased min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors">
         <AppProvider>
+          <QueryProvider>
           <CustomerProvider>
             <nav className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700 transition-colors">
               <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -81,6 +84,25 @@ export default function RootLayout({
                 >
                   + Batch
                 </a>
+                <a
+                  href="/plans"
+                  className="text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white px-3 py-2 rounded-md text-sm font-medium hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                >
+                  Plans
+                </a>
+                <a
+                  href="/jobs"
+                  className="text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white px-3 py-2 rounded-md text-sm font-medium hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                >
+                  Jobs
+                </a>
+                <a
+                  href="/reconcile"
+                  className="text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white px-3 py-2 rounded-md text-sm font-medium hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                >
+                  Reconcile
+                </a>
+                <SettingsPanel />
                 <ThemeToggle />
               </div>
                 </div>
@@ -88,6 +110,7 @@ export default function RootLayout({
             </nav>
             <main>{children}</main>
           </CustomerProvider>
+          </QueryProvider>
         </AppProvider>
       </body>
     </html>
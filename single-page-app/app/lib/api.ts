@@ -0,0 +1,120 @@
+import { MAX_PAGE_SIZE } from "./pages";
+import { ListPage, parse, Schema, SchemaError } from "./schema";
+
+/**
+ * Browser-side helpers for calling the app's own /api route handlers
+ */
+
+/**
+ * Read the { error } message from a failed API response
+ * Falls back to the given message plus status text when the body has none
+ */
+export async function getErrorMessage(response: Response, fallbackMessage: string): Promise<string> {
+  try {
+    const data = await response.json();
+    if (data && typeof data.error === "string") {
+      return data.error;
+    }
+  } catch {
+    // Body was not JSON - use the fallback below
+  }
+  return `${fallbackMessage}: ${response.statusText}`;
+}
+
+/**
+ * Call an app API route and check its JSON response against a schema
+ * @throws Error with the route's { error } message, or naming the field that does not match the schema
+ */
+export async function fetchJson<T>(
+  url: string,
+  schema: Schema<T>,
+  fallbackMessage: string,
+  init?: RequestInit
+): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(await getErrorMessage(response, fallbackMessage));
+  }
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    throw new Error(`${fallbackMessage}: the response was not valid JSON`);
+  }
+
+  try {
+    return parse(schema, data);
+  } catch (err) {
+    if (err instanceof SchemaError) {
+      console.error(`Unexpected response from ${url}:`, data);
+      throw new Error(`${fallbackMessage}: unexpected response - ${err.message}`);
+    }
+    throw err;
+  }
+}
+
+/**
+ * Fetch the rows of every page of a paged list route, e.g. all clients of a sub-org
+ * url must not set offset or limit - pages of MAX_PAGE_SIZE are requested until the last one
+ * @throws Error as fetchJson does, for the first page that fails
+ */
+export async function fetchAllPages<T>(
+  url: string,
+  schema: Schema<ListPage<T>>,
+  fallbackMessage: string
+): Promise<T[]> {
+  const rows: T[] = [];
+  const separator = url.includes("?") ? "&" : "?";
+
+  for (let offset = 0; ; offset += MAX_PAGE_SIZE) {
+    const page = await fetchJson(`${url}${separator}offset=${offset}&limit=${MAX_PAGE_SIZE}`, schema, fallbackMessage);
+    rows.push(...page.data);
+    if (page.is_last_page || page.data.length === 0) {
+      return rows;
+    }
+  }
+}
+
+/**
+ * Run an async task for every item with at most `limit` tasks in flight
+ * Failures are collected per item instead of stopping the run; onProgress is called after each item
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>,
+  onProgress?: (completed: number) => void
+): Promise<{ item: T; error: string }[]> {
+  const failures: { item: T; error: string }[] = [];
+  let next = 0;
+  let completed = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        await task(item);
+      } catch (err) {
+        failures.push({ item, error: err instanceof Error ? err.message : String(err) });
+      }
+      completed++;
+      onProgress?.(completed);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return failures;
+}
+
+/**
+ * Generate an idempotency key for a create request
+ * Reuse the same key when retrying so the server returns the first result instead of creating a duplicate
+ */
+export function createIdempotencyKey(): string {
+  // randomUUID is only available in secure contexts (https or localhost)
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (b) => b.toString(16).padStart(2, "0")).join("");
+}
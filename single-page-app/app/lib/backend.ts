@@ -0,0 +1,69 @@
+import { ClientListQuery } from "./clients";
+import { ApiError } from "./errors";
+import { getMemoryBackend } from "./memory-backend";
+import {
+  CancelSubscriptionRequest,
+  CreateClientRequest,
+  CreatePlanRequest,
+  n8n,
+  PlanChangeRequest,
+  SubscriptionStatusRequest,
+  SubscriptionSyncRequest,
+  UpdateCustomerRequest,
+} from "./n8n";
+import { PageQuery } from "./pages";
+import { ReconcileFix } from "./reconcile";
+import { CreateCustomerBody, PauseBody } from "./schema";
+
+/**
+ * Data access for the route handlers under app/api
+ * Responses keep the shapes of the n8n workflows (NocoDB rows, { total, is_last_page, data } pages),
+ * which the browser checks against app/lib/schema.ts
+ */
+export interface Backend {
+  getCustomers(page?: PageQuery): Promise<unknown>;
+  // null when there is no such customer
+  getCustomer(id: string): Promise<{ customer: unknown } | null>;
+  createCustomer(body: CreateCustomerBody): Promise<unknown>;
+  updateCustomer(body: UpdateCustomerRequest): Promise<unknown>;
+  previewCustomerDeletion(id: string): Promise<unknown>;
+  deleteCustomer(id: string): Promise<unknown>;
+  getClients(customerId: string, query?: ClientListQuery): Promise<unknown>;
+  createClient(body: CreateClientRequest): Promise<unknown>;
+  pauseSubscription(body: SubscriptionStatusRequest): Promise<unknown>;
+  resumeSubscription(body: SubscriptionStatusRequest): Promise<unknown>;
+  pauseCustomer(id: string, options: PauseBody): Promise<unknown>;
+  resumeCustomer(id: string): Promise<unknown>;
+  cancelSubscription(body: CancelSubscriptionRequest): Promise<unknown>;
+  syncSubscription(body: SubscriptionSyncRequest): Promise<unknown>;
+  reconcileReport(customerId?: string): Promise<unknown>;
+  applyReconcileFix(fix: ReconcileFix): Promise<unknown>;
+  previewPlanChange(body: PlanChangeRequest): Promise<unknown>;
+  changePlan(body: PlanChangeRequest): Promise<unknown>;
+  getStats(): Promise<unknown>;
+  getPlans(includeArchived: boolean): Promise<unknown>;
+  createPlan(body: CreatePlanRequest): Promise<unknown>;
+  archivePlan(id: string): Promise<unknown>;
+}
+
+// n8n calls the webhook workflows; memory keeps everything in the server process with a fake Stripe
+export const BACKEND_NAMES = ["n8n", "memory"] as const;
+
+export type BackendName = (typeof BACKEND_NAMES)[number];
+
+/**
+ * Get the backend selected by the BACKEND environment variable - n8n when it is not set
+ * @throws ApiError (503) if BACKEND names an unknown backend
+ */
+export function getBackend(): Backend {
+  const name = (process.env.BACKEND || "n8n") as BackendName;
+
+  switch (name) {
+    case "n8n":
+      return n8n;
+    case "memory":
+      return getMemoryBackend();
+    default:
+      throw new ApiError(`BACKEND must be one of ${BACKEND_NAMES.join(", ")}`, 503);
+  }
+}
@@ -0,0 +1,75 @@
+import { ClientPricingPayload } from "./pricing";
+
+/**
+ * Batch job types shared by the jobs pages and the jobs API routes
+ * A batch job creates many clients on the server so the run survives the browser tab closing
+ */
+
+// interrupted means the server stopped while the job was running - it can be resumed
+export type BatchJobStatus = "running" | "completed" | "interrupted";
+
+export type BatchItemStatus = "pending" | "running" | "done" | "failed";
+
+/**
+ * One client of a batch job
+ * The idempotency key is fixed when the job is created, so retries and resumes never duplicate a client
+ */
+export interface BatchJobItem {
+  index: number;
+  name: string;
+  email?: string;
+  external_ref?: string;
+  pricing: ClientPricingPayload;
+  idempotency_key: string;
+  status: BatchItemStatus;
+  attempts: number;
+  client_id?: string | number;
+  // The client already existed from an earlier attempt
+  existing?: boolean;
+  error?: string;
+}
+
+/**
+ * A batch client creation job
+ */
+export interface BatchJob {
+  id: string;
+  status: BatchJobStatus;
+  created_at: number;
+  updated_at: number;
+  finished_at?: number;
+  customer: {
+    id: string;
+    name: string;
+    parent_org_id?: string;
+    parent_org_name?: string;
+  };
+  total: number;
+  done: number;
+  failed: number;
+  items: BatchJobItem[];
+}
+
+/**
+ * Job as listed on the jobs page - everything but the items
+ */
+export type BatchJobSummary = Omit<BatchJob, "items">;
+
+export const BATCH_JOB_STATUS_LABELS: Record<BatchJobStatus, string> = {
+  running: "Running",
+  completed: "Completed",
+  interrupted: "Interrupted",
+};
+
+/**
+ * A client to create in a batch job - the job's pricing applies when it has none of its own
+ */
+export interface BatchClientInput {
+  name: string;
+  email?: string;
+  external_ref?: string;
+  pricing?: ClientPricingPayload;
+}
+
+// Largest batch accepted by POST /api/jobs
+export const MAX_BATCH_SIZE = 1000;
@@ -0,0 +1,40 @@
+import { PageQuery } from "./pages";
+
+/**
+ * Client list paging, sorting and filtering shared by the clients view and the clients API route
+ */
+
+export type ClientSortField = "name" | "created" | "status";
+
+// A leading - sorts newest, last or Z first
+export type ClientSort = ClientSortField | `-${ClientSortField}`;
+
+export const CLIENT_SORT_FIELDS: ClientSortField[] = ["name", "created", "status"];
+
+export const DEFAULT_CLIENT_SORT: ClientSort = "-created";
+
+// Statuses the clients view filters on, in chip order
+export const CLIENT_STATUS_FILTERS: { value: string; label: string }[] = [
+  { value: "active", label: "Active" },
+  { value: "paused", label: "Paused" },
+  { value: "past_due", label: "Past due" },
+  { value: "canceled", label: "Canceled" },
+];
+
+export const CLIENT_PAGE_SIZES = [25, 50, 100];
+
+export const DEFAULT_CLIENT_PAGE_SIZE = 50;
+
+/**
+ * Page of a sub-org's clients to fetch
+ * Without offset and limit the first 1000 clients are returned, in the order they were created
+ */
+export interface ClientListQuery extends PageQuery {
+  sort?: ClientSort;
+  status?: string;
+  // Matched against the name, email and external reference
+  search?: string;
+}
+
+export const isClientSort = (value: string): value is ClientSort =>
+  CLIENT_SORT_FIELDS.includes(value.replace(/^-/, "") as ClientSortField);
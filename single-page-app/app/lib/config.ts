@@ -0,0 +1,44 @@
+import { ApiError } from "./errors";
+
+/**
+ * n8n webhook names and the server-only environment variables that hold their URLs
+ * These deliberately have no NEXT_PUBLIC_ prefix so they are never bundled into the browser
+ */
+const WEBHOOK_ENV = {
+  getCustomers: "WEBHOOK_GET_CUSTOMERS",
+  getCustomer: "WEBHOOK_GET_CUSTOMER",
+  createCustomer: "WEBHOOK_CREATE_CUSTOMER",
+  updateCustomer: "WEBHOOK_UPDATE_CUSTOMER",
+  deleteCustomer: "WEBHOOK_DELETE_CUSTOMER",
+  createClient: "WEBHOOK_CREATE_CLIENT",
+  getClients: "WEBHOOK_GET_CLIENTS",
+  pauseSubscription: "WEBHOOK_PAUSE_SUBSCRIPTION",
+  resumeSubscription: "WEBHOOK_RESUME_SUBSCRIPTION",
+  pauseResumeCustomer: "WEBHOOK_PAUSE_RESUME_CUSTOMER",
+  cancelSubscription: "WEBHOOK_CANCEL_SUBSCRIPTION",
+  syncSubscription: "WEBHOOK_SYNC_SUBSCRIPTION",
+  reconcileSubscriptions: "WEBHOOK_RECONCILE_SUBSCRIPTIONS",
+  previewPlanChange: "WEBHOOK_PREVIEW_PLAN_CHANGE",
+  changePlan: "WEBHOOK_CHANGE_PLAN",
+  getStats: "WEBHOOK_GET_STATS",
+  getPlans: "WEBHOOK_GET_PLANS",
+  createPlan: "WEBHOOK_CREATE_PLAN",
+  archivePlan: "WEBHOOK_ARCHIVE_PLAN",
+} as const;
+
+export type WebhookName = keyof typeof WEBHOOK_ENV;
+
+/**
+ * Resolve the URL for an n8n webhook
+ * @throws ApiError (503) if the environment variable is not set
+ */
+export function getWebhookUrl(name: WebhookName): string {
+  const envVar = WEBHOOK_ENV[name];
+  const url = process.env[envVar];
+
+  if (!url) {
+    throw new ApiError(`${envVar} is not configured`, 503);
+  }
+
+  return url;
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+
+/**
+ * Error raised by route handlers and the upstream client
+ * Carries the HTTP status that should be returned to the browser
+ */
+export class ApiError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+/**
+ * Convert any thrown value into a JSON error response: { error: string }
+ */
+export function errorResponse(err: unknown, fallbackMessage: string): NextResponse {
+  if (err instanceof ApiError) {
+    return NextResponse.json({ error: err.message }, { status: err.status });
+  }
+
+  console.error(fallbackMessage, err);
+  return NextResponse.json({ error: fallbackMessage }, { status: 500 });
+}
+
+/**
+ * Parse the JSON body of a request
+ * @throws ApiError (400) if the body is missing or not valid JSON
+ */
+export async function readJsonBody<T = Record<string, unknown>>(request: Request): Promise<T> {
+  try {
+    return (await request.json()) as T;
+  } catch {
+    throw new ApiError("Request body must be valid JSON", 400);
+  }
+}
+
+/**
+ * Ensure a required string field is present in a request body
+ * @throws ApiError (400) if the field is missing or empty
+ */
+export function requireString(body: Record<string, unknown>, field: string): string {
+  const value = body[field];
+  if (value === undefined || value === null || String(value).trim() === "") {
+    throw new ApiError(`'${field}' is required`, 400);
+  }
+  return String(value);
+}
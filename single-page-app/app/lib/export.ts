@@ -0,0 +1,254 @@
+import { ClientListQuery } from "./clients";
+import { MAX_PAGE_SIZE, toListPage } from "./pages";
+import { ApiError } from "./errors";
+import { getBackend } from "./backend";
+
+/**
+ * Client exports for finance
+ * Clients are fetched from the backend a page at a time and streamed out, so a large org is never held in memory
+ */
+
+export type ExportFormat = "csv" | "json";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "json"];
+
+// Clients requested from the backend per call
+const EXPORT_PAGE_SIZE = 500;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+/**
+ * One exported client with its org, sub-org and Stripe ids
+ */
+interface ExportRow {
+  client_id: string;
+  client_name: string;
+  email: string | null;
+  external_ref: string | null;
+  org_id: string;
+  org_name: string;
+  sub_org_id: string;
+  sub_org_name: string;
+  status: string | null;
+  stripe_customer_id: string | null;
+  stripe_subscription_id: string | null;
+  stripe_price_id: string | null;
+  plan_id: string | null;
+  pause_behavior: string | null;
+  pause_resumes_at: number | null;
+  cancel_at: number | null;
+  created_at: string | null;
+}
+
+const EXPORT_COLUMNS: (keyof ExportRow)[] = [
+  "client_id",
+  "client_name",
+  "email",
+  "external_ref",
+  "org_id",
+  "org_name",
+  "sub_org_id",
+  "sub_org_name",
+  "status",
+  "stripe_customer_id",
+  "stripe_subscription_id",
+  "stripe_price_id",
+  "plan_id",
+  "pause_behavior",
+  "pause_resumes_at",
+  "cancel_at",
+  "created_at",
+];
+
+interface ExportSubOrg {
+  id: string;
+  name: string;
+  org_id: string;
+  org_name: string;
+}
+
+type Row = Record<string, unknown>;
+
+const rowId = (row: Row) => String(row.Id ?? row.id);
+
+const optionalString = (value: unknown) => (value === undefined || value === null || value === "" ? null : String(value));
+
+const optionalNumber = (value: unknown) => (value === undefined || value === null || value === "" ? null : Number(value));
+
+/**
+ * Every org with its sub-orgs, read a page at a time - the workflow returns only its first 1000 rows otherwise
+ */
+async function getAllOrgs(): Promise<Row[]> {
+  const orgs: Row[] = [];
+  for (let offset = 0; ; offset += MAX_PAGE_SIZE) {
+    const page = toListPage<Row>(await getBackend().getCustomers({ offset, limit: MAX_PAGE_SIZE }));
+    orgs.push(...page.data);
+    if (page.is_last_page || page.data.length === 0) {
+      return orgs;
+    }
+  }
+}
+
+/**
+ * Find the sub-orgs to export - every sub-org, an org's sub-orgs, or a single sub-org
+ * @throws ApiError (404) if customerId is neither an org nor a sub-org
+ */
+async function resolveScope(customerId?: string): Promise<{ name: string; subOrgs: ExportSubOrg[] }> {
+  const orgs = await getAllOrgs();
+
+  const subOrgs: ExportSubOrg[] = orgs.flatMap((org) =>
+    (Array.isArray(org.suborgs) ? (org.suborgs as Row[]) : [])
+      .filter((suborg) => suborg.customer_type === "sub-org" && rowId(suborg) !== rowId(org))
+      .map((suborg) => ({
+        id: rowId(suborg),
+        name: String(suborg.name ?? ""),
+        org_id: rowId(org),
+        org_name: String(org.name ?? ""),
+      }))
+  );
+
+  if (!customerId) {
+    return { name: "all", subOrgs };
+  }
+
+  const org = orgs.find((candidate) => rowId(candidate) === customerId);
+  if (org) {
+    return { name: String(org.name ?? customerId), subOrgs: subOrgs.filter((suborg) => suborg.org_id === customerId) };
+  }
+
+  const suborg = subOrgs.find((candidate) => candidate.id === customerId);
+  if (suborg) {
+    return { name: suborg.name, subOrgs: [suborg] };
+  }
+
+  throw new ApiError("Customer not found", 404);
+}
+
+/**
+ * Status and search filters of an export - the same ones the clients view lists with
+ */
+export type ExportFilter = Pick<ClientListQuery, "status" | "search">;
+
+/**
+ * Yield each page of a sub-org's clients in turn, keeping only those matching the filter
+ */
+async function* exportPages(subOrgs: ExportSubOrg[], filter: ExportFilter): AsyncGenerator<ExportRow[]> {
+  for (const suborg of subOrgs) {
+    for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+      const page = toListPage(await getBackend().getClients(suborg.id, { offset, limit: EXPORT_PAGE_SIZE, ...filter }));
+
+      yield page.data.map((client) => ({
+        client_id: rowId(client),
+        client_name: String(client.name ?? ""),
+        email: optionalString(client.email),
+        external_ref: optionalString(client.external_ref),
+        org_id: suborg.org_id,
+        org_name: suborg.org_name,
+        sub_org_id: suborg.id,
+        sub_org_name: suborg.name,
+        status: optionalString(client.stripe_subscription_status),
+        stripe_customer_id: optionalString(client.stripe_customer_id),
+        stripe_subscription_id: optionalString(client.stripe_subscription_id),
+        stripe_price_id: optionalString(client.stripe_price_id),
+        plan_id: optionalString(client.plan_id),
+        pause_behavior: optionalString(client.pause_behavior),
+        pause_resumes_at: optionalNumber(client.pause_resumes_at),
+        cancel_at: optionalNumber(client.cancel_at),
+        created_at: optionalString(client.CreatedAt),
+      }));
+
+      // An empty page ends the sub-org too, in case the backend never flags the last one
+      if (page.is_last_page || page.data.length === 0) {
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Format a CSV cell, quoting it when needed
+ * Text starting with =, +, - or @ is prefixed with ' so spreadsheet apps do not run it as a formula
+ */
+function toCsvCell(value: string | number | null): string {
+  if (value === null) {
+    return "";
+  }
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Start an export of every client in scope
+ * The scope is resolved up front so a bad customer_id fails before any data is sent
+ * @throws ApiError (404) if customerId is neither an org nor a sub-org
+ */
+export async function createClientExport(
+  format: ExportFormat,
+  customerId?: string,
+  filter: ExportFilter = {}
+): Promise<{ body: ReadableStream<Uint8Array>; filename: string; contentType: string }> {
+  const scope = await resolveScope(customerId);
+  const pages = exportPages(scope.subOrgs, filter);
+  const encoder = new TextEncoder();
+  let started = false;
+  let rowCount = 0;
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (!started) {
+          started = true;
+          controller.enqueue(encoder.encode(format === "csv" ? `${EXPORT_COLUMNS.join(",")}\r\n` : "["));
+          return;
+        }
+
+        // Empty pages are skipped - a pull must enqueue something or close
+        for (;;) {
+          const { value: rows, done } = await pages.next();
+          if (done) {
+            if (format === "json") {
+              controller.enqueue(encoder.encode(rowCount > 0 ? "\n]\n" : "]\n"));
+            }
+            controller.close();
+            return;
+          }
+          if (rows.length === 0) {
+            continue;
+          }
+
+          controller.enqueue(
+            encoder.encode(
+              format === "csv"
+                ? rows.map((row) => `${EXPORT_COLUMNS.map((column) => toCsvCell(row[column])).join(",")}\r\n`).join("")
+                : rows.map((row, i) => `${rowCount + i > 0 ? "," : ""}\n${JSON.stringify(row)}`).join("")
+            )
+          );
+          rowCount += rows.length;
+          return;
+        }
+      } catch (err) {
+        // Headers are already sent, so the download is cut off rather than answered with an error
+        console.error("Client export failed:", err);
+        controller.error(err);
+      }
+    },
+    async cancel() {
+      await pages.return(undefined);
+    },
+  });
+
+  const slug = scope.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "customer";
+  const date = new Date().toISOString().slice(0, 10);
+
+  return {
+    body,
+    filename: `clients-${slug}-${date}.${format}`,
+    contentType: CONTENT_TYPES[format],
+  };
+}
@@ -0,0 +1,408 @@
+import { randomBytes } from "crypto";
+import { ApiError } from "./errors";
+import { RecurringInterval } from "./pricing";
+import { PauseBehavior } from "./subscriptions";
+
+/**
+ * In-process stand-in for the parts of Stripe the workflows use - customers, payment methods, products, prices
+ * and subscriptions. Objects follow Stripe's field names so the memory backend can port the workflow logic as-is
+ * and the mock Stripe server can return them unchanged; nothing is charged
+ */
+
+export interface FakeCustomer {
+  id: string;
+  object: "customer";
+  name: string;
+  invoice_settings: { default_payment_method: string | null };
+  metadata: Record<string, string>;
+  deleted: boolean;
+}
+
+export interface FakePaymentMethod {
+  id: string;
+  object: "payment_method";
+  type: "card";
+  card: { brand: string; last4: string; exp_month: number; exp_year: number };
+  customer: string | null;
+}
+
+export interface FakeProduct {
+  id: string;
+  object: "product";
+  name: string;
+  active: boolean;
+  metadata: Record<string, string>;
+}
+
+export interface FakePrice {
+  id: string;
+  object: "price";
+  product: string;
+  currency: string;
+  unit_amount: number;
+  recurring: { interval: RecurringInterval; interval_count: number };
+  active: boolean;
+}
+
+export interface FakeSubscription {
+  id: string;
+  object: "subscription";
+  customer: string;
+  // incomplete when the customer had no default payment method to charge
+  status: "active" | "incomplete" | "canceled";
+  items: { data: { id: string; price: FakePrice; quantity: number }[] };
+  pause_collection: { behavior: PauseBehavior; resumes_at: number | null } | null;
+  cancel_at: number | null;
+  cancel_at_period_end: boolean;
+  canceled_at: number | null;
+  current_period_start: number;
+  current_period_end: number;
+  created: number;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Proration preview of a price or quantity change, summarised like the change-plan preview workflow
+ */
+export interface FakeInvoicePreview {
+  currency: string;
+  amount_due: number;
+  period_end: number;
+  lines: { description: string; amount: number; proration: boolean }[];
+}
+
+export interface CustomerUpdate {
+  name?: string;
+  default_payment_method?: string;
+}
+
+export interface PriceParams {
+  product: string;
+  currency: string;
+  unit_amount: number;
+  interval: RecurringInterval;
+  interval_count: number;
+}
+
+/**
+ * Where a fake Stripe account gets its ids and clock from - random ids and the real time by default
+ */
+export interface FakeStripeOptions {
+  newId?: (prefix: string) => string;
+  now?: () => number;
+}
+
+export type FakeStripe = ReturnType<typeof createFakeStripe>;
+
+const randomId = (prefix: string) => `${prefix}_${randomBytes(12).toString("hex")}`;
+
+const realTime = () => Math.floor(Date.now() / 1000);
+
+// Stripe's test card tokens - attaching the declined card fails like a real decline
+const TEST_CARDS: Record<string, { brand: string; last4: string; declined?: boolean }> = {
+  tok_visa: { brand: "visa", last4: "4242" },
+  tok_mastercard: { brand: "mastercard", last4: "4444" },
+  tok_amex: { brand: "amex", last4: "8431" },
+  tok_chargeDeclined: { brand: "visa", last4: "0002", declined: true },
+};
+
+/**
+ * Ids numbered per prefix (cus_mock000001, cus_mock000002, ...) so repeated runs produce the same objects
+ */
+export function sequentialIds(): (prefix: string) => string {
+  const counters = new Map<string, number>();
+  return (prefix) => {
+    const next = (counters.get(prefix) ?? 0) + 1;
+    counters.set(prefix, next);
+    return `${prefix}_mock${String(next).padStart(6, "0")}`;
+  };
+}
+
+/**
+ * End of the billing period that starts at start, e.g. one month later for a monthly price
+ */
+function addInterval(start: number, { interval, interval_count }: FakePrice["recurring"]): number {
+  const date = new Date(start * 1000);
+  switch (interval) {
+    case "day":
+      date.setUTCDate(date.getUTCDate() + interval_count);
+      break;
+    case "week":
+      date.setUTCDate(date.getUTCDate() + 7 * interval_count);
+      break;
+    case "month":
+      date.setUTCMonth(date.getUTCMonth() + interval_count);
+      break;
+    case "year":
+      date.setUTCFullYear(date.getUTCFullYear() + interval_count);
+      break;
+  }
+  return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * Create an empty fake Stripe account
+ * Unknown ids throw ApiError (404), invalid requests (400) and declined cards (402), with messages worded like Stripe's
+ */
+export function createFakeStripe({ newId = randomId, now = realTime }: FakeStripeOptions = {}) {
+  const customers = new Map<string, FakeCustomer>();
+  const paymentMethods = new Map<string, FakePaymentMethod>();
+  const declinedPaymentMethods = new Set<string>();
+  const products = new Map<string, FakeProduct>();
+  const prices = new Map<string, FakePrice>();
+  const subscriptions = new Map<string, FakeSubscription>();
+
+  const find = <T>(map: Map<string, T>, id: string, kind: string): T => {
+    const found = map.get(id);
+    if (!found) {
+      throw new ApiError(`No such ${kind}: '${id}'`, 404);
+    }
+    return found;
+  };
+
+  const getSubscription = (id: string) => find(subscriptions, id, "subscription");
+
+  const getLiveSubscription = (id: string) => {
+    const subscription = getSubscription(id);
+    if (subscription.status === "canceled") {
+      throw new ApiError(`Subscription ${id} is canceled and can no longer be updated`, 400);
+    }
+    return subscription;
+  };
+
+  const createPrice = (params: PriceParams): FakePrice => {
+    find(products, params.product, "product");
+    const price: FakePrice = {
+      id: newId("price"),
+      object: "price",
+      product: params.product,
+      currency: params.currency,
+      unit_amount: params.unit_amount,
+      recurring: { interval: params.interval, interval_count: params.interval_count },
+      active: true,
+    };
+    prices.set(price.id, price);
+    return price;
+  };
+
+  return {
+    createCustomer(name: string, metadata: Record<string, string> = {}): FakeCustomer {
+      const customer: FakeCustomer = {
+        id: newId("cus"),
+        object: "customer",
+        name,
+        invoice_settings: { default_payment_method: null },
+        metadata,
+        deleted: false,
+      };
+      customers.set(customer.id, customer);
+      return customer;
+    },
+
+    getCustomer(id: string): FakeCustomer {
+      return find(customers, id, "customer");
+    },
+
+    // The default payment method has to be attached to the customer first
+    updateCustomer(id: string, update: CustomerUpdate): FakeCustomer {
+      const customer = find(customers, id, "customer");
+      if (update.default_payment_method !== undefined) {
+        const paymentMethod = find(paymentMethods, update.default_payment_method, "PaymentMethod");
+        if (paymentMethod.customer !== id) {
+          throw new ApiError(`The payment method ${paymentMethod.id} is not attached to customer ${id}`, 400);
+        }
+        customer.invoice_settings.default_payment_method = paymentMethod.id;
+      }
+      customer.name = update.name ?? customer.name;
+      return customer;
+    },
+
+    // Deleting a customer cancels its subscriptions, as in Stripe
+    deleteCustomer(id: string): void {
+      const customer = find(customers, id, "customer");
+      customer.deleted = true;
+      subscriptions.forEach((subscription) => {
+        if (subscription.customer === id && subscription.status !== "canceled") {
+          subscription.status = "canceled";
+          subscription.canceled_at = now();
+        }
+      });
+    },
+
+    createPaymentMethod(token: string): FakePaymentMethod {
+      const card = TEST_CARDS[token];
+      if (!card) {
+        throw new ApiError(`No such token: '${token}'`, 400);
+      }
+      const paymentMethod: FakePaymentMethod = {
+        id: newId("pm"),
+        object: "payment_method",
+        type: "card",
+        card: { brand: card.brand, last4: card.last4, exp_month: 12, exp_year: 2034 },
+        customer: null,
+      };
+      paymentMethods.set(paymentMethod.id, paymentMethod);
+      if (card.declined) {
+        declinedPaymentMethods.add(paymentMethod.id);
+      }
+      return paymentMethod;
+    },
+
+    attachPaymentMethod(id: string, customerId: string): FakePaymentMethod {
+      const paymentMethod = find(paymentMethods, id, "PaymentMethod");
+      find(customers, customerId, "customer");
+      if (declinedPaymentMethods.has(id)) {
+        throw new ApiError("Your card was declined.", 402);
+      }
+      paymentMethod.customer = customerId;
+      return paymentMethod;
+    },
+
+    // Stripe ids are chosen by the caller when given, as the workflows do for per-client products
+    createProduct(name: string, metadata: Record<string, string> = {}, id = newId("prod")): FakeProduct {
+      if (products.has(id)) {
+        throw new ApiError("Product already exists.", 400);
+      }
+      const product: FakeProduct = { id, object: "product", name, active: true, metadata };
+      products.set(product.id, product);
+      return product;
+    },
+
+    getProduct(id: string): FakeProduct {
+      return find(products, id, "product");
+    },
+
+    archiveProduct(id: string): FakeProduct {
+      const product = find(products, id, "product");
+      product.active = false;
+      return product;
+    },
+
+    createPrice,
+
+    getPrice(id: string): FakePrice {
+      return find(prices, id, "price");
+    },
+
+    archivePrice(id: string): FakePrice {
+      const price = find(prices, id, "price");
+      price.active = false;
+      return price;
+    },
+
+    createSubscription(customerId: string, price: FakePrice, quantity: number, metadata: Record<string, string> = {}) {
+      const customer = find(customers, customerId, "customer");
+      if (customer.deleted) {
+        throw new ApiError(`No such customer: '${customerId}'`, 404);
+      }
+      if (!price.active) {
+        throw new ApiError(`The price ${price.id} is archived and cannot be used for new subscriptions`, 400);
+      }
+
+      const created = now();
+      const subscription: FakeSubscription = {
+        id: newId("sub"),
+        object: "subscription",
+        customer: customerId,
+        status: customer.invoice_settings.default_payment_method ? "active" : "incomplete",
+        items: { data: [{ id: newId("si"), price, quantity }] },
+        pause_collection: null,
+        cancel_at: null,
+        cancel_at_period_end: false,
+        canceled_at: null,
+        current_period_start: created,
+        current_period_end: addInterval(created, price.recurring),
+        created,
+        metadata,
+      };
+      subscriptions.set(subscription.id, subscription);
+      return subscription;
+    },
+
+    getSubscription,
+
+    // Every subscription of the customer, canceled ones included, oldest first
+    listSubscriptions(customerId?: string): FakeSubscription[] {
+      return Array.from(subscriptions.values()).filter(
+        (subscription) => !customerId || subscription.customer === customerId
+      );
+    },
+
+    pauseCollection(id: string, behavior: PauseBehavior, resumesAt?: number): FakeSubscription {
+      const subscription = getLiveSubscription(id);
+      subscription.pause_collection = { behavior, resumes_at: resumesAt ?? null };
+      return subscription;
+    },
+
+    resumeCollection(id: string): FakeSubscription {
+      const subscription = getLiveSubscription(id);
+      subscription.pause_collection = null;
+      return subscription;
+    },
+
+    // "period_end" keeps the subscription active until the end of the paid period
+    cancel(id: string, when: "now" | "period_end"): FakeSubscription {
+      const subscription = getLiveSubscription(id);
+      if (when === "now") {
+        subscription.status = "canceled";
+        subscription.canceled_at = now();
+        subscription.pause_collection = null;
+      } else {
+        subscription.cancel_at = subscription.current_period_end;
+        subscription.cancel_at_period_end = true;
+      }
+      return subscription;
+    },
+
+    updateItem(id: string, priceId: string, quantity: number): FakeSubscription {
+      const subscription = getLiveSubscription(id);
+      const item = subscription.items.data[0];
+      if (quantity < 1) {
+        throw new ApiError("Invalid positive integer", 400);
+      }
+      item.price = find(prices, priceId, "price");
+      item.quantity = quantity;
+      return subscription;
+    },
+
+    /**
+     * Preview moving the subscription's item to another price and quantity now
+     * Unused time on the current price is credited and the rest of the period charged at the new one
+     */
+    previewItemChange(id: string, priceId: string, quantity: number): FakeInvoicePreview {
+      const subscription = getLiveSubscription(id);
+      const current = subscription.items.data[0];
+      const price = find(prices, priceId, "price");
+      if (price.currency !== current.price.currency) {
+        throw new ApiError("The new price must use the same currency as the subscription", 400);
+      }
+
+      const { current_period_start: start, current_period_end: end } = subscription;
+      const remaining = Math.max(0, end - now()) / (end - start);
+      const lines = [
+        {
+          description: `Unused time on ${current.quantity} × ${current.price.id}`,
+          amount: -Math.round(current.price.unit_amount * current.quantity * remaining),
+          proration: true,
+        },
+        {
+          description: `Remaining time on ${quantity} × ${price.id}`,
+          amount: Math.round(price.unit_amount * quantity * remaining),
+          proration: true,
+        },
+        {
+          description: `${quantity} × ${price.id} (next period)`,
+          amount: price.unit_amount * quantity,
+          proration: false,
+        },
+      ];
+
+      return {
+        currency: price.currency,
+        amount_due: Math.max(0, lines.reduce((sum, line) => sum + line.amount, 0)),
+        period_end: end,
+        lines,
+      };
+    },
+  };
+}
@@ -0,0 +1,319 @@
+import { ClientPricing, ClientPricingPayload, getPricingPayload, Plan, RecurringInterval, RECURRING_INTERVALS } from "./pricing";
+
+/**
+ * Client roster import for batch creation
+ * Files are parsed in the browser and every row is checked before a batch job is started
+ */
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const MAX_EXTERNAL_REF_LENGTH = 200;
+
+export type ImportField = "name" | "email" | "external_ref" | "plan" | "interval";
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; hint: string }[] = [
+  { field: "name", label: "Name", hint: "Required" },
+  { field: "email", label: "Email", hint: "Optional" },
+  { field: "external_ref", label: "External reference", hint: "The customer's own id for the client" },
+  { field: "plan", label: "Plan", hint: "Plan name or Stripe price id - the batch pricing applies when empty" },
+  { field: "interval", label: "Interval", hint: "day, week, month or year - picks between plans of the same name" },
+];
+
+// Header names recognised when guessing which column holds which field
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  name: ["name", "client", "client name", "full name", "company", "company name"],
+  email: ["email", "e mail", "email address"],
+  external_ref: ["external ref", "external reference", "reference", "ref", "external id", "account", "account number"],
+  plan: ["plan", "plan name", "price", "price id", "stripe price id"],
+  interval: ["interval", "billing interval", "billing", "frequency", "billing frequency"],
+};
+
+const INTERVAL_ALIASES: Record<string, RecurringInterval> = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+  yearly: "year",
+  annual: "year",
+  annually: "year",
+};
+
+/**
+ * Column index of each field in the file, null when no column is mapped
+ */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export type ImportRowStatus = "valid" | "invalid" | "duplicate";
+
+/**
+ * One data row of an imported file after mapping and validation
+ */
+export interface ImportRow {
+  // Row in the file - the header is row 1
+  rowNumber: number;
+  name: string;
+  email: string;
+  external_ref: string;
+  plan: string;
+  interval: string;
+  status: ImportRowStatus;
+  // Why the row is invalid or which client it duplicates
+  problems: string[];
+  // Set when the row names its own plan or interval - otherwise the batch pricing applies
+  pricing?: ClientPricingPayload;
+}
+
+/**
+ * An existing client of the sub-org, compared against each row to find duplicates
+ */
+export interface ExistingClient {
+  name: string;
+  email?: string;
+  external_ref?: string;
+}
+
+/**
+ * Parse CSV text into rows of cells - blank rows are kept so row numbers match the file
+ * Handles quoted cells, escaped quotes and line breaks inside quotes; semicolon and tab separated files are detected
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Read a .csv or .xlsx file into rows of cells - the first sheet of a workbook is used
+ * @throws Error if the file type is not supported or the file cannot be read
+ */
+export async function readImportFile(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    // Loaded on demand so the spreadsheet reader is only downloaded when it is needed
+    const { readSheet } = await import("read-excel-file/browser");
+    const data = await readSheet(file);
+    return data.map((row) =>
+      row.map((cell) => {
+        if (cell === null) {
+          return "";
+        }
+        return cell instanceof Date ? cell.toISOString().slice(0, 10) : String(cell);
+      })
+    );
+  }
+
+  if (/\.(csv|txt)$/i.test(file.name)) {
+    return parseCsv(await file.text());
+  }
+
+  throw new Error("Please choose a .csv or .xlsx file");
+}
+
+/**
+ * Guess the column of each field from the header row
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map((header) => header.trim().toLowerCase().replace(/[_\-.]+/g, " ").replace(/\s+/g, " "));
+  const used = new Set<number>();
+
+  const mapping = {} as ColumnMapping;
+  for (const { field } of IMPORT_FIELDS) {
+    const index = normalized.findIndex((header, i) => !used.has(i) && HEADER_ALIASES[field].includes(header));
+    mapping[field] = index === -1 ? null : index;
+    if (index !== -1) {
+      used.add(index);
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Read a billing interval, accepting "monthly", "annual" and the like
+ * @returns The interval, or null if it is not recognised
+ */
+export function parseInterval(value: string): RecurringInterval | null {
+  const interval = value.trim().toLowerCase();
+  if (RECURRING_INTERVALS.includes(interval as RecurringInterval)) {
+    return interval as RecurringInterval;
+  }
+  return INTERVAL_ALIASES[interval] ?? null;
+}
+
+/**
+ * Work out a row's own pricing from its plan and interval cells
+ * Adds to problems and returns undefined if the plan cannot be matched
+ */
+function resolveRowPricing(
+  plan: string,
+  intervalValue: string,
+  plans: Plan[],
+  defaultPricing: ClientPricing,
+  problems: string[]
+): ClientPricingPayload | undefined {
+  const interval = intervalValue ? parseInterval(intervalValue) : null;
+  if (intervalValue && !interval) {
+    problems.push(`Unknown interval "${intervalValue}" - use ${RECURRING_INTERVALS.join(", ")}`);
+    return undefined;
+  }
+
+  if (plan) {
+    const matches = plans.filter(
+      (candidate) =>
+        candidate.status === "active" &&
+        (candidate.stripe_price_id === plan || candidate.name.toLowerCase() === plan.toLowerCase()) &&
+        (!interval || candidate.recurring_interval === interval)
+    );
+    if (matches.length === 0) {
+      problems.push(`No active plan "${plan}"${interval ? ` billed every ${interval}` : ""}`);
+      return undefined;
+    }
+    if (matches.length > 1) {
+      problems.push(`"${plan}" matches ${matches.length} plans - add an interval to pick one`);
+      return undefined;
+    }
+    return { plan_id: String(matches[0].Id), stripe_price_id: matches[0].stripe_price_id };
+  }
+
+  if (interval) {
+    if (defaultPricing.mode !== "new") {
+      problems.push("An interval without a plan needs a custom batch price");
+      return undefined;
+    }
+    try {
+      return getPricingPayload({ ...defaultPricing, recurring_interval: interval });
+    } catch (err) {
+      problems.push(err instanceof Error ? err.message : "Invalid batch price");
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Map and check every data row of an imported file
+ * Rows repeating an existing client, or an earlier row, by name, email or external reference are marked duplicate
+ */
+export function validateImportRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  options: { plans: Plan[]; existingClients: ExistingClient[]; defaultPricing: ClientPricing }
+): ImportRow[] {
+  const existingByKey = new Map<string, string>();
+  for (const client of options.existingClients) {
+    existingByKey.set(`name:${client.name.trim().toLowerCase()}`, client.name);
+    if (client.email) {
+      existingByKey.set(`email:${client.email.trim().toLowerCase()}`, client.name);
+    }
+    if (client.external_ref) {
+      existingByKey.set(`ref:${client.external_ref.trim()}`, client.name);
+    }
+  }
+  const seenByKey = new Map<string, number>();
+
+  const imported: ImportRow[] = [];
+  rows.forEach((cells, i) => {
+    if (i === 0 || cells.every((value) => value.trim() === "")) {
+      return;
+    }
+
+    const cell = (field: ImportField) => {
+      const index = mapping[field];
+      return index === null ? "" : (cells[index] ?? "").trim();
+    };
+
+    const row: ImportRow = {
+      rowNumber: i + 1,
+      name: cell("name"),
+      email: cell("email").toLowerCase(),
+      external_ref: cell("external_ref"),
+      plan: cell("plan"),
+      interval: cell("interval"),
+      status: "valid",
+      problems: [],
+    };
+
+    if (!row.name) {
+      row.problems.push("Name is empty");
+    }
+    if (row.email && !EMAIL_PATTERN.test(row.email)) {
+      row.problems.push(`"${row.email}" is not a valid email`);
+    }
+    if (row.external_ref.length > MAX_EXTERNAL_REF_LENGTH) {
+      row.problems.push(`External reference is longer than ${MAX_EXTERNAL_REF_LENGTH} characters`);
+    }
+    row.pricing = resolveRowPricing(row.plan, row.interval, options.plans, options.defaultPricing, row.problems);
+
+    if (row.problems.length > 0) {
+      row.status = "invalid";
+      imported.push(row);
+      return;
+    }
+
+    const keys = [
+      { key: `ref:${row.external_ref}`, label: `external reference ${row.external_ref}`, present: Boolean(row.external_ref) },
+      { key: `email:${row.email}`, label: `email ${row.email}`, present: Boolean(row.email) },
+      { key: `name:${row.name.toLowerCase()}`, label: "name", present: true },
+    ].filter(({ present }) => present);
+
+    for (const { key, label } of keys) {
+      const existing = existingByKey.get(key);
+      const seenLine = seenByKey.get(key);
+      if (existing !== undefined) {
+        row.problems.push(`Same ${label} as existing client "${existing}"`);
+      } else if (seenLine !== undefined) {
+        row.problems.push(`Same ${label} as row ${seenLine}`);
+      }
+    }
+
+    if (row.problems.length > 0) {
+      row.status = "duplicate";
+    } else {
+      keys.forEach(({ key }) => seenByKey.set(key, row.rowNumber));
+    }
+    imported.push(row);
+  });
+
+  return imported;
+}
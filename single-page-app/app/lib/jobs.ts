@@ -0,0 +1,273 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { ApiError } from "./errors";
+import { getBackend } from "./backend";
+import { CreateClientRequest } from "./n8n";
+import { BatchClientInput, BatchJob, BatchJobItem, BatchJobSummary } from "./batch";
+import { ClientPricingPayload } from "./pricing";
+
+/**
+ * Server-side batch client creation
+ * Jobs are kept as JSON files so progress survives a closed tab and can be resumed after a server restart
+ */
+
+// Clients created at once - keeps Stripe and n8n well under their rate limits
+const JOB_CONCURRENCY = 4;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+const JOBS_DIR = process.env.JOBS_DIR || path.join(process.cwd(), ".jobs");
+
+/**
+ * The sub-org every client of a job is created in
+ */
+export type BatchClientTemplate = Pick<CreateClientRequest, "customer_id" | "org_name" | "parent_org_id" | "parent_org_name">;
+
+/**
+ * A validated client to create - unlike the request body, its pricing is always resolved
+ */
+export type BatchClient = BatchClientInput & { pricing: ClientPricingPayload };
+
+interface RunningJob {
+  job: BatchJob;
+  template: BatchClientTemplate;
+  // Writes are chained so concurrent workers never interleave on the same file
+  saving: Promise<void>;
+}
+
+// Kept on globalThis so dev-server reloads do not lose track of running jobs
+const globalJobs = globalThis as typeof globalThis & { batchJobs?: Map<string, RunningJob> };
+const runningJobs = (globalJobs.batchJobs ??= new Map());
+
+const jobPath = (id: string) => path.join(JOBS_DIR, `${id}.json`);
+
+interface StoredJob {
+  job: BatchJob;
+  template: BatchClientTemplate;
+}
+
+async function writeJob(stored: StoredJob): Promise<void> {
+  await fs.mkdir(JOBS_DIR, { recursive: true });
+  const file = jobPath(stored.job.id);
+  // Write then rename so a crash never leaves a half-written file - the temp name is unique per write
+  const temp = `${file}.${randomUUID()}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(stored));
+  await fs.rename(temp, file);
+}
+
+async function readJob(id: string): Promise<StoredJob | null> {
+  if (!/^[A-Za-z0-9-]+$/.test(id)) {
+    return null;
+  }
+  let text: string;
+  try {
+    text = await fs.readFile(jobPath(id), "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw err;
+  }
+
+  let stored: StoredJob;
+  try {
+    stored = JSON.parse(text);
+  } catch (err) {
+    // One unreadable file must not hide every other job - treat it as missing
+    console.error(`Skipping unreadable batch job file ${jobPath(id)}:`, err);
+    return null;
+  }
+  if (!stored?.job?.id) {
+    console.error(`Skipping batch job file ${jobPath(id)}: it holds no job`);
+    return null;
+  }
+
+  // A job still marked running that this process is not running was cut off by a restart
+  if (stored.job.status === "running" && !runningJobs.has(id)) {
+    stored.job.status = "interrupted";
+  }
+  return stored;
+}
+
+function save(running: RunningJob): Promise<void> {
+  running.job.updated_at = Math.floor(Date.now() / 1000);
+  const snapshot = JSON.parse(JSON.stringify({ job: running.job, template: running.template }));
+  running.saving = running.saving.then(() => writeJob(snapshot)).catch((err) => {
+    console.error(`Failed to save batch job ${running.job.id}:`, err);
+  });
+  return running.saving;
+}
+
+/**
+ * Create one client, retrying network and upstream errors with the same idempotency key
+ */
+async function createItem(running: RunningJob, item: BatchJobItem): Promise<void> {
+  item.status = "running";
+  item.error = undefined;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    item.attempts++;
+    try {
+      const data = (await getBackend().createClient({
+        ...running.template,
+        ...item.pricing,
+        name: item.name,
+        email: item.email,
+        external_ref: item.external_ref,
+        idempotency_key: item.idempotency_key,
+      })) as { Id?: number; id?: number; existing?: boolean } | null;
+
+      item.status = "done";
+      item.error = undefined;
+      item.client_id = data?.Id ?? data?.id;
+      item.existing = Boolean(data?.existing);
+      return;
+    } catch (err) {
+      item.error = err instanceof Error ? err.message : String(err);
+      // A rejected request will not succeed on retry
+      if (err instanceof ApiError && err.status < 500) {
+        break;
+      }
+      if (attempt < MAX_ATTEMPTS) {
+        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+      }
+    }
+  }
+
+  item.status = "failed";
+}
+
+/**
+ * Work through every pending item with bounded concurrency, saving after each one
+ */
+async function runJob(running: RunningJob): Promise<void> {
+  const { job } = running;
+  const pending = job.items.filter((item) => item.status !== "done");
+  let next = 0;
+
+  const worker = async () => {
+    while (next < pending.length) {
+      const item = pending[next++];
+      await createItem(running, item);
+      job.done = job.items.filter((i) => i.status === "done").length;
+      job.failed = job.items.filter((i) => i.status === "failed").length;
+      await save(running);
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(JOB_CONCURRENCY, pending.length) }, worker));
+    job.status = "completed";
+    job.finished_at = Math.floor(Date.now() / 1000);
+  } catch (err) {
+    console.error(`Batch job ${job.id} stopped:`, err);
+    job.status = "interrupted";
+  } finally {
+    await save(running);
+    runningJobs.delete(job.id);
+  }
+}
+
+function start(stored: StoredJob): void {
+  const running: RunningJob = { ...stored, saving: Promise.resolve() };
+  running.job.status = "running";
+  running.job.finished_at = undefined;
+  runningJobs.set(running.job.id, running);
+  // Deliberately not awaited - the job keeps going after the request that started it returns
+  void runJob(running);
+}
+
+/**
+ * Create a job for the given clients and start it in the background
+ */
+export async function createBatchJob(
+  template: BatchClientTemplate,
+  customer: BatchJob["customer"],
+  clients: BatchClient[]
+): Promise<BatchJob> {
+  const now = Math.floor(Date.now() / 1000);
+  const job: BatchJob = {
+    id: randomUUID(),
+    status: "running",
+    created_at: now,
+    updated_at: now,
+    customer,
+    total: clients.length,
+    done: 0,
+    failed: 0,
+    items: clients.map((client, index) => ({
+      index,
+      ...client,
+      idempotency_key: randomUUID(),
+      status: "pending",
+      attempts: 0,
+    })),
+  };
+
+  await writeJob({ job, template });
+  start({ job, template });
+  return job;
+}
+
+/**
+ * Get a job with its items - live progress while it is running
+ */
+export async function getBatchJob(id: string): Promise<BatchJob | null> {
+  const running = runningJobs.get(id);
+  if (running) {
+    return running.job;
+  }
+  return (await readJob(id))?.job ?? null;
+}
+
+/**
+ * List every job, newest first, without their items
+ */
+export async function listBatchJobs(): Promise<BatchJobSummary[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(JOBS_DIR);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw err;
+  }
+
+  const jobs = await Promise.all(
+    files.filter((file) => file.endsWith(".json")).map((file) => getBatchJob(file.slice(0, -".json".length)))
+  );
+
+  return jobs
+    .filter((job): job is BatchJob => job !== null)
+    .map(({ items: _items, ...summary }) => summary)
+    .sort((a, b) => b.created_at - a.created_at);
+}
+
+/**
+ * Run the failed and unfinished items of a job again with their original idempotency keys
+ * @throws ApiError (404) if the job does not exist, (409) if it is still running or has nothing to retry
+ */
+export async function resumeBatchJob(id: string): Promise<BatchJob> {
+  if (runningJobs.has(id)) {
+    throw new ApiError("The job is already running", 409);
+  }
+
+  const stored = await readJob(id);
+  if (!stored) {
+    throw new ApiError("Job not found", 404);
+  }
+  if (stored.job.items.every((item) => item.status === "done")) {
+    throw new ApiError("Every client in this job was already created", 409);
+  }
+
+  for (const item of stored.job.items) {
+    if (item.status !== "done") {
+      item.status = "pending";
+    }
+  }
+  stored.job.failed = 0;
+  start(stored);
+  return stored.job;
+}
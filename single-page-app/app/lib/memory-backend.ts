@@ -0,0 +1,954 @@
+import { Backend } from "./backend";
+import { ClientListQuery } from "./clients";
+import { ApiError } from "./errors";
+import { createFakeStripe, FakePrice, FakeStripe, FakeSubscription } from "./fake-stripe";
+import { MAX_PAGE_SIZE } from "./pages";
+import { Plan } from "./pricing";
+import { ReconcileIssue } from "./reconcile";
+import { CustomerType } from "./schema";
+import { PauseBehavior } from "./subscriptions";
+
+/**
+ * Backend that keeps customers, clients and plans in the server process, billed through a fake Stripe
+ * Each method ports the matching n8n workflow and answers with the same shapes, so the portal runs
+ * without the docker stack. Data is lost when the server restarts
+ */
+
+interface CustomerRow {
+  Id: number;
+  name: string;
+  customer_type: CustomerType;
+  parent_org_id: number | null;
+  stripe_customer_id: string | null;
+  CreatedAt: string;
+}
+
+interface BucketRow {
+  Id: number;
+  customer_id: number;
+  total_clients_assigned: number;
+  stripe_customer_id: string | null;
+  CreatedAt: string;
+}
+
+interface ClientRow {
+  Id: number;
+  name: string;
+  customer_id: number;
+  customer_subscription_bucket_id: number | null;
+  stripe_product_id: string | null;
+  stripe_price_id: string | null;
+  stripe_subscription_id: string | null;
+  stripe_subscription_status: string | null;
+  plan_id: number | null;
+  cancel_at: number | null;
+  pause_behavior: PauseBehavior | null;
+  pause_resumes_at: number | null;
+  email: string | null;
+  external_ref: string | null;
+  idempotency_key: string | null;
+  CreatedAt: string;
+}
+
+interface PlanRow extends Plan {
+  CreatedAt: string;
+}
+
+// A report issue as the reconcile workflow responds with it - row ids are still NocoDB numbers
+type ReconcileIssueRow = Pick<ReconcileIssue, "type" | "fix"> & Record<string, unknown>;
+
+interface MemoryState {
+  nextId: number;
+  customers: CustomerRow[];
+  buckets: BucketRow[];
+  clients: ClientRow[];
+  plans: PlanRow[];
+  stripe: FakeStripe;
+}
+
+// The create-client workflow opens a new bucket (and Stripe customer) once one holds this many clients
+const BUCKET_SIZE = 500;
+
+// Clients shown on the customer detail page
+const RECENT_CLIENT_COUNT = 10;
+
+const CLIENT_SORT_COLUMNS = {
+  name: "name",
+  created: "CreatedAt",
+  status: "stripe_subscription_status",
+} as const;
+
+const now = () => Math.floor(Date.now() / 1000);
+
+// The status the portal shows for a subscription - pausing keeps it "active" in Stripe
+const portalStatus = (subscription: FakeSubscription) =>
+  subscription.pause_collection && subscription.status !== "canceled" ? "paused" : subscription.status;
+
+const compare = (a: string | number | null, b: string | number | null) =>
+  a === b ? 0 : a === null ? -1 : b === null ? 1 : a < b ? -1 : 1;
+
+/**
+ * Create an empty in-memory backend with its own fake Stripe account
+ */
+export function createMemoryBackend(): Backend {
+  const state: MemoryState = {
+    nextId: 1,
+    customers: [],
+    buckets: [],
+    clients: [],
+    plans: [],
+    stripe: createFakeStripe(),
+  };
+  const { stripe } = state;
+
+  const createdAt = () => new Date().toISOString();
+
+  const findCustomer = (id: string | number): CustomerRow => {
+    const customer = state.customers.find((row) => row.Id === Number(id));
+    if (!customer) {
+      throw new ApiError(`Customer ${id} not found`, 404);
+    }
+    return customer;
+  };
+
+  const findClientBySubscription = (subscriptionId: string) =>
+    state.clients.find((client) => client.stripe_subscription_id === subscriptionId);
+
+  const getSuborgs = (org: CustomerRow) => state.customers.filter((row) => row.parent_org_id === org.Id);
+
+  // The customer and, for an org, its sub-orgs
+  const getScopeIds = (customer: CustomerRow) => [
+    customer.Id,
+    ...(customer.customer_type === "org" ? getSuborgs(customer).map((suborg) => suborg.Id) : []),
+  ];
+
+  /**
+   * Client counts as kept by db-update-org-client-counts - an org's counts cover every sub-org
+   */
+  const getCounts = (customer: CustomerRow) => {
+    const ids = getScopeIds(customer);
+    const clients = state.clients.filter((client) => ids.includes(client.customer_id));
+    const active = clients.filter((client) => client.stripe_subscription_status === "active").length;
+    const paused = clients.filter((client) => client.stripe_subscription_status === "paused").length;
+    return { client_count: active + paused, client_count_active: active, client_count_paused: paused };
+  };
+
+  const toCustomerRecord = (customer: CustomerRow) => ({ ...customer, ...getCounts(customer) });
+
+  const withBucketCustomer = (client: ClientRow) => ({
+    ...client,
+    stripe_customer_id:
+      state.buckets.find((bucket) => bucket.Id === client.customer_subscription_bucket_id)?.stripe_customer_id ?? null,
+  });
+
+  /**
+   * A bucket of the customer with room for another client, opened with its own Stripe customer when all are full
+   */
+  const getOpenBucket = (customer: CustomerRow, stripeName: string): BucketRow => {
+    const open = state.buckets.find(
+      (bucket) => bucket.customer_id === customer.Id && bucket.total_clients_assigned < BUCKET_SIZE
+    );
+    if (open) {
+      return open;
+    }
+
+    const bucket: BucketRow = {
+      Id: state.nextId++,
+      customer_id: customer.Id,
+      total_clients_assigned: 0,
+      stripe_customer_id: null,
+      CreatedAt: createdAt(),
+    };
+    const stripeCustomer = stripe.createCustomer(stripeName, {
+      cms_customer_subscrbucket_id: String(bucket.Id),
+      customer_id: String(customer.Id),
+      project: "b2b-subscription-portal",
+    });
+    // Like the workflow, bill every bucket to Stripe's test Visa card
+    const paymentMethod = stripe.attachPaymentMethod(stripe.createPaymentMethod("tok_visa").id, stripeCustomer.id);
+    stripe.updateCustomer(stripeCustomer.id, { default_payment_method: paymentMethod.id });
+    bucket.stripe_customer_id = stripeCustomer.id;
+    state.buckets.push(bucket);
+    return bucket;
+  };
+
+  const releaseBucketSlot = (client: ClientRow) => {
+    const bucket = state.buckets.find((row) => row.Id === client.customer_subscription_bucket_id);
+    if (bucket) {
+      bucket.total_clients_assigned = Math.max(bucket.total_clients_assigned - 1, 0);
+    }
+  };
+
+  /**
+   * Pause or resume collection on every active or paused client of a customer, reporting each one
+   */
+  const switchCollection = (id: string, action: "pause" | "resume", behavior?: PauseBehavior, resumesAt?: number) => {
+    const customer = findCustomer(id);
+    const ids = getScopeIds(customer);
+    const fromStatus = action === "pause" ? "active" : "paused";
+    const clients = state.clients.filter(
+      (client) => ids.includes(client.customer_id) && client.stripe_subscription_status === fromStatus
+    );
+
+    const results = clients.map((client) => {
+      try {
+        if (!client.stripe_subscription_id) {
+          throw new Error("The client has no subscription");
+        }
+        if (action === "pause") {
+          stripe.pauseCollection(client.stripe_subscription_id, behavior ?? "void", resumesAt);
+        } else {
+          stripe.resumeCollection(client.stripe_subscription_id);
+        }
+        client.stripe_subscription_status = action === "pause" ? "paused" : "active";
+        client.pause_behavior = action === "pause" ? behavior ?? "void" : null;
+        client.pause_resumes_at = action === "pause" ? resumesAt ?? null : null;
+        return { client_id: client.Id, customer_id: client.customer_id, name: client.name, status: "done" };
+      } catch (err) {
+        const detail = err instanceof Error ? err.message : String(err);
+        return { client_id: client.Id, customer_id: client.customer_id, name: client.name, status: "failed", detail };
+      }
+    });
+
+    const failed = results.filter((result) => result.status === "failed").length;
+    return {
+      success: failed === 0,
+      action,
+      customer: { id: customer.Id, name: customer.name, customer_type: customer.customer_type },
+      total: results.length,
+      updated: results.length - failed,
+      failed,
+      results,
+    };
+  };
+
+  /**
+   * What deleting a customer would remove, as built by the delete-customer workflow
+   */
+  const buildDeletionPlan = (id: string) => {
+    const customer = findCustomer(id);
+    const ids = getScopeIds(customer);
+    const suborgs = customer.customer_type === "org" ? getSuborgs(customer) : [];
+    const clients = state.clients.filter((client) => ids.includes(client.customer_id));
+    const buckets = state.buckets.filter((bucket) => ids.includes(bucket.customer_id));
+
+    return {
+      customer: {
+        id: customer.Id,
+        name: customer.name,
+        customer_type: customer.customer_type,
+        parent_org_id: customer.parent_org_id,
+        stripe_customer_id: customer.stripe_customer_id,
+      },
+      suborgs: suborgs.map((suborg) => ({
+        id: suborg.Id,
+        name: suborg.name,
+        client_count: getCounts(suborg).client_count,
+        stripe_customer_id: suborg.stripe_customer_id,
+      })),
+      clients,
+      buckets: buckets.map((bucket) => ({
+        id: bucket.Id,
+        customer_id: bucket.customer_id,
+        stripe_customer_id: bucket.stripe_customer_id,
+      })),
+      client_count: clients.length,
+      active_subscriptions: clients.filter((client) => client.stripe_subscription_status === "active").length,
+      paused_subscriptions: clients.filter((client) => client.stripe_subscription_status === "paused").length,
+    };
+  };
+
+  return {
+    async getCustomers(page) {
+      const orgs = state.customers.filter((row) => row.customer_type === "org");
+      const offset = page?.offset ?? 0;
+      const limit = page?.limit ?? MAX_PAGE_SIZE;
+
+      return {
+        total: orgs.length,
+        is_last_page: offset + limit >= orgs.length,
+        data: orgs.slice(offset, offset + limit).map((org) => ({
+          ...toCustomerRecord(org),
+          suborgs: getSuborgs(org).map(toCustomerRecord),
+        })),
+      };
+    },
+
+    async getCustomer(id) {
+      const customer = state.customers.find((row) => row.Id === Number(id));
+      if (!customer) {
+        return null;
+      }
+
+      const ids = getScopeIds(customer);
+      const parent = state.customers.find((row) => row.Id === customer.parent_org_id);
+      const recentClients = state.clients
+        .filter((client) => ids.includes(client.customer_id))
+        .sort((a, b) => compare(b.CreatedAt, a.CreatedAt) || b.Id - a.Id)
+        .slice(0, RECENT_CLIENT_COUNT);
+
+      return {
+        customer: {
+          id: customer.Id,
+          name: customer.name,
+          customer_type: customer.customer_type,
+          parent_org_id: customer.parent_org_id,
+          stripe_customer_id: customer.stripe_customer_id,
+          created_at: customer.CreatedAt,
+          ...getCounts(customer),
+        },
+        parent_org: parent ? { id: parent.Id, name: parent.name } : null,
+        suborgs: (customer.customer_type === "org" ? getSuborgs(customer) : []).map((suborg) => ({
+          id: suborg.Id,
+          name: suborg.name,
+          created_at: suborg.CreatedAt,
+          ...getCounts(suborg),
+        })),
+        buckets: state.buckets
+          .filter((bucket) => ids.includes(bucket.customer_id))
+          .map((bucket) => ({
+            id: bucket.Id,
+            customer_id: bucket.customer_id,
+            total_clients_assigned: bucket.total_clients_assigned,
+            stripe_customer_id: bucket.stripe_customer_id,
+          })),
+        recent_clients: recentClients.map((client) => ({
+          id: client.Id,
+          name: client.name,
+          customer_id: client.customer_id,
+          stripe_subscription_id: client.stripe_subscription_id,
+          stripe_subscription_status: client.stripe_subscription_status,
+          created_at: client.CreatedAt,
+        })),
+      };
+    },
+
+    async createCustomer(body) {
+      const parent = body.parent_org_id ? findCustomer(body.parent_org_id) : null;
+      if (parent && parent.customer_type !== "org") {
+        throw new ApiError(`Customer ${parent.Id} is not an org`, 400);
+      }
+
+      const customer: CustomerRow = {
+        Id: state.nextId++,
+        name: body.name,
+        customer_type: body.customer_type,
+        parent_org_id: parent?.Id ?? null,
+        stripe_customer_id: null,
+        CreatedAt: createdAt(),
+      };
+      customer.stripe_customer_id = stripe.createCustomer(body.name, {
+        cms_customer_id: String(customer.Id),
+        project: "b2b-subscription-portal",
+      }).id;
+      state.customers.push(customer);
+
+      // The workflow responds with all incoming items
+      return [toCustomerRecord(customer)];
+    },
+
+    async updateCustomer({ id, name }) {
+      const customer = findCustomer(id);
+      if (customer.stripe_customer_id) {
+        stripe.updateCustomer(customer.stripe_customer_id, { name });
+      }
+      customer.name = name;
+      return toCustomerRecord(customer);
+    },
+
+    async previewCustomerDeletion(id) {
+      const { clients, ...plan } = buildDeletionPlan(id);
+      return { ...plan, clients: clients.map(({ Id, name, customer_id }) => ({ id: Id, name, customer_id })) };
+    },
+
+    async deleteCustomer(id) {
+      const plan = buildDeletionPlan(id);
+      const results: { type: string; id: string; name: string; status: string; detail?: string }[] = [];
+      const removed = new Set<number>();
+
+      for (const client of plan.clients) {
+        let cancelError: string | null = null;
+        if (client.stripe_subscription_id) {
+          try {
+            if (stripe.getSubscription(client.stripe_subscription_id).status !== "canceled") {
+              stripe.cancel(client.stripe_subscription_id, "now");
+            }
+          } catch (err) {
+            cancelError = err instanceof Error ? err.message : String(err);
+          }
+        }
+        // A product is only archived once nothing bills on it, as the delete-customer workflow does
+        let productError: string | null = null;
+        if (client.stripe_product_id && !cancelError) {
+          try {
+            stripe.archiveProduct(client.stripe_product_id);
+          } catch (err) {
+            productError = err instanceof Error ? err.message : String(err);
+          }
+        }
+        if (!cancelError) {
+          removed.add(client.Id);
+        }
+
+        results.push(
+          {
+            type: "subscription",
+            id: client.stripe_subscription_id || "",
+            name: client.name,
+            status: !client.stripe_subscription_id ? "skipped" : cancelError ? "failed" : "done",
+            detail: cancelError || undefined,
+          },
+          {
+            type: "product",
+            id: client.stripe_product_id || "",
+            name: client.name,
+            status: !client.stripe_product_id || cancelError ? "skipped" : productError ? "failed" : "done",
+            detail: cancelError ? "Kept because its subscription could not be canceled" : productError || undefined,
+          },
+          {
+            type: "client",
+            id: String(client.Id),
+            name: client.name,
+            status: cancelError ? "skipped" : "done",
+            detail: cancelError ? "Kept because its subscription could not be canceled" : undefined,
+          }
+        );
+      }
+      state.clients = state.clients.filter((client) => !removed.has(client.Id));
+
+      // Only remove the customer rows once every client subscription has been canceled
+      const safe = removed.size === plan.clients.length;
+      const targets = [
+        ...plan.buckets.map((bucket) => ({
+          type: "bucket",
+          id: bucket.id,
+          name: `Subscription bucket ${bucket.id}`,
+          stripe_customer_id: bucket.stripe_customer_id,
+        })),
+        ...plan.suborgs.map((suborg) => ({ type: "customer", ...suborg })),
+        { type: "customer", ...plan.customer },
+      ];
+
+      for (const target of targets) {
+        if (!safe) {
+          if (target.type === "customer") {
+            const kept = "Kept because some client subscriptions could not be canceled";
+            results.push({ type: "customer", id: String(target.id), name: target.name, status: "skipped", detail: kept });
+          }
+          continue;
+        }
+
+        if (target.stripe_customer_id) {
+          stripe.deleteCustomer(target.stripe_customer_id);
+        }
+        results.push(
+          {
+            type: "stripe_customer",
+            id: target.stripe_customer_id || "",
+            name: target.name,
+            status: target.stripe_customer_id ? "done" : "skipped",
+          },
+          { type: target.type, id: String(target.id), name: target.name, status: "done" }
+        );
+      }
+
+      if (safe) {
+        const bucketIds = new Set(plan.buckets.map((bucket) => bucket.id));
+        const customerIds = new Set([plan.customer.id, ...plan.suborgs.map((suborg) => suborg.id)]);
+        state.buckets = state.buckets.filter((bucket) => !bucketIds.has(bucket.Id));
+        state.customers = state.customers.filter((customer) => !customerIds.has(customer.Id));
+      }
+
+      return {
+        success: results.every((result) => result.status !== "failed"),
+        deleted: safe,
+        results,
+      };
+    },
+
+    async getClients(customerId, query: ClientListQuery = {}) {
+      const status = query.status;
+      const search = query.search?.toLowerCase();
+      let clients = state.clients.filter(
+        (client) =>
+          client.customer_id === Number(customerId) &&
+          (!status || client.stripe_subscription_status === status) &&
+          (!search ||
+            [client.name, client.email, client.external_ref].some((value) => value?.toLowerCase().includes(search)))
+      );
+
+      // Id breaks ties so rows do not move between pages; without a sort clients come back in the order they were created
+      if (query.sort) {
+        const column = CLIENT_SORT_COLUMNS[query.sort.replace(/^-/, "") as keyof typeof CLIENT_SORT_COLUMNS];
+        const direction = query.sort.startsWith("-") ? -1 : 1;
+        clients = [...clients].sort((a, b) => direction * compare(a[column], b[column]) || direction * (a.Id - b.Id));
+      }
+
+      const offset = query.offset ?? 0;
+      const limit = query.limit ?? MAX_PAGE_SIZE;
+      return {
+        total: clients.length,
+        is_last_page: offset + limit >= clients.length,
+        response_code: 200,
+        data: clients.slice(offset, offset + limit).map(withBucketCustomer),
+      };
+    },
+
+    async createClient(body) {
+      const existing = state.clients.find((client) => client.idempotency_key === body.idempotency_key);
+      if (existing) {
+        return { ...existing, existing: true };
+      }
+
+      const customer = findCustomer(body.customer_id);
+      const bucket = getOpenBucket(customer, `${body.parent_org_name || body.org_name} - ${body.org_name}`);
+      const client: ClientRow = {
+        Id: state.nextId++,
+        name: body.name,
+        customer_id: customer.Id,
+        customer_subscription_bucket_id: bucket.Id,
+        stripe_product_id: null,
+        stripe_price_id: null,
+        stripe_subscription_id: null,
+        stripe_subscription_status: null,
+        plan_id: body.plan_id ? Number(body.plan_id) : null,
+        cancel_at: null,
+        pause_behavior: null,
+        pause_resumes_at: null,
+        email: body.email ?? null,
+        external_ref: body.external_ref ?? null,
+        idempotency_key: body.idempotency_key,
+        CreatedAt: createdAt(),
+      };
+
+      const product = stripe.createProduct(
+        body.name,
+        { client_id: String(client.Id), customer_id: String(customer.Id), project: "b2b-subscription-portal" },
+        `${customer.Id}_${bucket.Id}_${client.Id}`
+      );
+      const price: FakePrice = body.stripe_price_id
+        ? stripe.getPrice(body.stripe_price_id)
+        : stripe.createPrice({
+            product: product.id,
+            currency: body.currency ?? "",
+            unit_amount: body.unit_amount ?? 0,
+            interval: body.recurring_interval ?? "month",
+            interval_count: body.recurring_quantity ?? 1,
+          });
+      const subscription = stripe.createSubscription(bucket.stripe_customer_id ?? "", price, 1, {
+        client_id: String(client.Id),
+      });
+
+      client.stripe_product_id = product.id;
+      client.stripe_price_id = price.id;
+      client.stripe_subscription_id = subscription.id;
+      client.stripe_subscription_status = subscription.status;
+      bucket.total_clients_assigned++;
+      state.clients.push(client);
+      return client;
+    },
+
+    async pauseSubscription(body) {
+      stripe.pauseCollection(body.stripe_subscription_id, body.stripe_status as PauseBehavior, body.resumes_at);
+      const client = findClientBySubscription(body.stripe_subscription_id);
+      if (client) {
+        client.stripe_subscription_status = body.db_status;
+        client.pause_behavior = body.stripe_status as PauseBehavior;
+        client.pause_resumes_at = body.resumes_at ?? null;
+      }
+      return { success: true };
+    },
+
+    async resumeSubscription(body) {
+      stripe.resumeCollection(body.stripe_subscription_id);
+      const client = findClientBySubscription(body.stripe_subscription_id);
+      if (client) {
+        client.stripe_subscription_status = body.db_status;
+        client.pause_behavior = null;
+        client.pause_resumes_at = null;
+      }
+      return { success: true };
+    },
+
+    async pauseCustomer(id, options) {
+      return switchCollection(id, "pause", options.behavior, options.resumes_at);
+    },
+
+    async resumeCustomer(id) {
+      return switchCollection(id, "resume");
+    },
+
+    async cancelSubscription(body) {
+      const subscription = stripe.cancel(body.stripe_subscription_id, body.when);
+      const client = findClientBySubscription(body.stripe_subscription_id);
+      if (client && body.when === "now") {
+        // A subscription canceled at period end frees its slot through syncSubscription when Stripe ends it
+        if (client.stripe_subscription_status !== "canceled") {
+          releaseBucketSlot(client);
+        }
+        client.stripe_subscription_status = "canceled";
+        client.cancel_at = subscription.canceled_at;
+        client.pause_behavior = null;
+        client.pause_resumes_at = null;
+      } else if (client) {
+        client.cancel_at = subscription.cancel_at;
+      }
+      return { success: true };
+    },
+
+    async syncSubscription(body) {
+      // Subscriptions that belong to no client are ignored
+      const client = findClientBySubscription(body.stripe_subscription_id);
+      if (!client) {
+        return { success: true, updated: false };
+      }
+      // A subscription that has ended, e.g. canceled at period end, gives up its bucket slot once
+      if (body.status === "canceled" && client.stripe_subscription_status !== "canceled") {
+        releaseBucketSlot(client);
+      }
+      client.stripe_subscription_status = body.status;
+      client.pause_behavior = (body.pause_behavior as PauseBehavior) || null;
+      client.pause_resumes_at = body.pause_resumes_at || null;
+      client.cancel_at = body.cancel_at || null;
+      return { success: true, updated: true };
+    },
+
+    async reconcileReport(customerId) {
+      const inScope = (row: { customer_id: number }) => !customerId || row.customer_id === Number(customerId);
+      const buckets = state.buckets.filter(inScope);
+      const clients = state.clients.filter(inScope);
+      const bucketByStripeCustomer = new Map(
+        buckets.filter((bucket) => bucket.stripe_customer_id).map((bucket) => [bucket.stripe_customer_id, bucket])
+      );
+      const subscriptions = Array.from(bucketByStripeCustomer.keys()).flatMap((id) =>
+        stripe.listSubscriptions(id ?? "")
+      );
+      const subscriptionById = new Map(subscriptions.map((subscription) => [subscription.id, subscription]));
+
+      const summarizeClient = (client: ClientRow) => ({
+        id: client.Id,
+        name: client.name,
+        customer_id: client.customer_id,
+        bucket_id: client.customer_subscription_bucket_id,
+        stripe_subscription_id: client.stripe_subscription_id,
+        status: client.stripe_subscription_status,
+      });
+      const summarizeSubscription = (subscription: FakeSubscription) => ({
+        id: subscription.id,
+        stripe_customer_id: subscription.customer,
+        bucket_id: bucketByStripeCustomer.get(subscription.customer)?.Id ?? null,
+        status: portalStatus(subscription),
+        stripe_price_id: subscription.items.data[0]?.price.id ?? null,
+        created: subscription.created,
+      });
+
+      const issues: ReconcileIssueRow[] = buckets
+        .filter((bucket) => !bucket.stripe_customer_id)
+        .map((bucket) => ({
+          type: "bucket_without_stripe_customer",
+          fix: null,
+          bucket_id: bucket.Id,
+          customer_id: bucket.customer_id,
+        }));
+
+      // Clients still missing a subscription id can be matched through their per-client product
+      const linkedIds = new Set(clients.map((client) => client.stripe_subscription_id).filter(Boolean));
+      const unlinkedByProduct = new Map(
+        subscriptions
+          .filter((subscription) => !linkedIds.has(subscription.id))
+          .map((subscription) => [subscription.items.data[0]?.price.product, subscription])
+      );
+      const linkedSubscriptionIds = new Set<string>();
+      const listedBucketIds = new Set(Array.from(bucketByStripeCustomer.values()).map((bucket) => bucket.Id));
+
+      for (const client of clients) {
+        // Clients of buckets without a Stripe customer are covered by the bucket issue
+        if (!listedBucketIds.has(client.customer_subscription_bucket_id ?? -1)) {
+          continue;
+        }
+
+        if (client.stripe_subscription_id) {
+          const subscription = subscriptionById.get(client.stripe_subscription_id);
+          if (!subscription) {
+            if (client.stripe_subscription_status !== "orphaned") {
+              issues.push({
+                type: "missing_subscription",
+                fix: "mark_orphan",
+                customer_id: client.customer_id,
+                client: summarizeClient(client),
+              });
+            }
+            continue;
+          }
+
+          linkedSubscriptionIds.add(subscription.id);
+          const expected = summarizeSubscription(subscription);
+          if (
+            client.stripe_subscription_status !== expected.status ||
+            client.customer_subscription_bucket_id !== expected.bucket_id
+          ) {
+            issues.push({
+              type: "out_of_sync",
+              fix: "link",
+              customer_id: client.customer_id,
+              client: summarizeClient(client),
+              subscription: expected,
+            });
+          }
+          continue;
+        }
+
+        const subscription = client.stripe_product_id ? unlinkedByProduct.get(client.stripe_product_id) : undefined;
+        if (subscription) {
+          linkedSubscriptionIds.add(subscription.id);
+          issues.push({
+            type: "unlinked_subscription",
+            fix: "link",
+            customer_id: client.customer_id,
+            client: summarizeClient(client),
+            subscription: summarizeSubscription(subscription),
+          });
+        } else if (client.stripe_subscription_status !== "orphaned") {
+          issues.push({
+            type: "client_without_subscription",
+            fix: "mark_orphan",
+            customer_id: client.customer_id,
+            client: summarizeClient(client),
+          });
+        }
+      }
+
+      // Subscriptions still billing that no client row points at - one any client holds is never offered for cancelation
+      for (const subscription of subscriptions) {
+        if (
+          linkedSubscriptionIds.has(subscription.id) ||
+          linkedIds.has(subscription.id) ||
+          subscription.status === "canceled"
+        ) {
+          continue;
+        }
+        issues.push({
+          type: "orphan_subscription",
+          fix: "cancel",
+          customer_id: bucketByStripeCustomer.get(subscription.customer)?.customer_id ?? null,
+          subscription: summarizeSubscription(subscription),
+        });
+      }
+
+      return {
+        dry_run: true,
+        checked_at: now(),
+        buckets: buckets.length,
+        clients: clients.length,
+        subscriptions: subscriptions.length,
+        issues,
+      };
+    },
+
+    async applyReconcileFix(fix) {
+      switch (fix.action) {
+        case "link": {
+          const subscription = stripe.getSubscription(fix.stripe_subscription_id ?? "");
+          const client = state.clients.find((row) => row.Id === Number(fix.client_id));
+          if (!client) {
+            throw new ApiError(`Client ${fix.client_id} not found`, 404);
+          }
+          client.stripe_subscription_id = subscription.id;
+          client.stripe_subscription_status = portalStatus(subscription);
+          client.customer_subscription_bucket_id = Number(fix.bucket_id);
+          client.stripe_price_id = subscription.items.data[0]?.price.id ?? client.stripe_price_id;
+          break;
+        }
+        case "mark_orphan": {
+          const client = state.clients.find((row) => row.Id === Number(fix.client_id));
+          if (!client) {
+            throw new ApiError(`Client ${fix.client_id} not found`, 404);
+          }
+          client.stripe_subscription_status = "orphaned";
+          break;
+        }
+        case "cancel": {
+          // Only subscriptions no client holds are canceled - the others are fixed through the client
+          const client = findClientBySubscription(fix.stripe_subscription_id ?? "");
+          if (client) {
+            throw new ApiError(
+              `Client ${client.name} (${client.Id}) still uses this subscription - link or mark the client instead`,
+              409
+            );
+          }
+          stripe.cancel(fix.stripe_subscription_id ?? "", "now");
+          break;
+        }
+      }
+      return { success: true, action: fix.action };
+    },
+
+    async previewPlanChange(body) {
+      const subscription = stripe.getSubscription(body.stripe_subscription_id);
+      const current = subscription.items.data[0];
+      const invoice = stripe.previewItemChange(body.stripe_subscription_id, body.stripe_price_id, body.quantity);
+
+      return {
+        current: { stripe_price_id: current.price.id, quantity: current.quantity },
+        currency: invoice.currency,
+        proration_amount: invoice.lines
+          .filter((line) => line.proration)
+          .reduce((sum, line) => sum + line.amount, 0),
+        amount_due: invoice.amount_due,
+        next_invoice_date: invoice.period_end,
+        lines: invoice.lines,
+      };
+    },
+
+    async changePlan(body) {
+      stripe.updateItem(body.stripe_subscription_id, body.stripe_price_id, body.quantity);
+      const client = findClientBySubscription(body.stripe_subscription_id);
+      if (client) {
+        client.stripe_price_id = body.stripe_price_id;
+        client.plan_id = body.plan_id ? Number(body.plan_id) : null;
+      }
+      return { success: true };
+    },
+
+    async getStats() {
+      const orgs = state.customers.filter((row) => row.customer_type === "org").map(getCounts);
+      return {
+        totalOrgs: orgs.length,
+        totalSubOrgs: state.customers.length - orgs.length,
+        totalClients: orgs.reduce((sum, counts) => sum + counts.client_count, 0),
+        totalActiveClients: orgs.reduce((sum, counts) => sum + counts.client_count_active, 0),
+        totalPausedClients: orgs.reduce((sum, counts) => sum + counts.client_count_paused, 0),
+      };
+    },
+
+    async getPlans(includeArchived) {
+      return state.plans
+        .filter((plan) => includeArchived || plan.status === "active")
+        .sort((a, b) => compare(a.name, b.name));
+    },
+
+    async createPlan(body) {
+      const product = stripe.createProduct(body.name, { project: "b2b-subscription-portal" });
+      const price = stripe.createPrice({
+        product: product.id,
+        currency: body.currency,
+        unit_amount: body.unit_amount,
+        interval: body.recurring_interval,
+        interval_count: body.recurring_quantity,
+      });
+      const plan: PlanRow = {
+        Id: state.nextId++,
+        name: body.name,
+        description: body.description,
+        stripe_product_id: product.id,
+        stripe_price_id: price.id,
+        currency: price.currency,
+        unit_amount: price.unit_amount,
+        recurring_interval: price.recurring.interval,
+        recurring_quantity: price.recurring.interval_count,
+        status: "active",
+        CreatedAt: createdAt(),
+      };
+      state.plans.push(plan);
+      return plan;
+    },
+
+    async archivePlan(id) {
+      const plan = state.plans.find((row) => row.Id === Number(id));
+      if (!plan) {
+        throw new ApiError(`Plan ${id} not found`, 404);
+      }
+      stripe.archiveProduct(plan.stripe_product_id);
+      stripe.archivePrice(plan.stripe_price_id);
+      plan.status = "archived";
+      return plan;
+    },
+  };
+}
+
+/**
+ * Fill a backend with a plan and a couple of orgs, sub-orgs and clients to click through
+ */
+export async function seedMemoryBackend(backend: Backend): Promise<void> {
+  const plan = (await backend.createPlan({
+    name: "Standard",
+    description: "Monthly seat",
+    currency: "aud",
+    unit_amount: 999,
+    recurring_interval: "month",
+    recurring_quantity: 1,
+  })) as PlanRow;
+
+  const orgs = [
+    { name: "Acme Health", suborgs: ["Acme North Clinic", "Acme South Clinic"] },
+    { name: "Globex Schools", suborgs: ["Globex Primary"] },
+  ];
+
+  for (const org of orgs) {
+    const [created] = (await backend.createCustomer({ name: org.name, customer_type: "org" })) as CustomerRow[];
+
+    for (const suborgName of org.suborgs) {
+      const [suborg] = (await backend.createCustomer({
+        name: suborgName,
+        customer_type: "sub-org",
+        parent_org_id: String(created.Id),
+      })) as CustomerRow[];
+
+      for (let index = 1; index <= 3; index++) {
+        const client = (await backend.createClient({
+          name: `${suborgName} client ${index}`,
+          customer_id: String(suborg.Id),
+          org_name: suborgName,
+          parent_org_id: String(created.Id),
+          parent_org_name: org.name,
+          plan_id: String(plan.Id),
+          stripe_price_id: plan.stripe_price_id,
+          idempotency_key: `seed-${suborg.Id}-${index}`,
+        })) as ClientRow;
+
+        if (index === 3) {
+          await backend.pauseSubscription({
+            customer_id: String(suborg.Id),
+            stripe_subscription_id: client.stripe_subscription_id ?? "",
+            db_status: "paused",
+            stripe_status: "void",
+          });
+        }
+      }
+    }
+  }
+}
+
+// Kept on globalThis so the data survives module reloads while developing
+const globalStore = globalThis as typeof globalThis & { memoryBackend?: Promise<Backend> };
+
+/**
+ * Get the shared in-memory backend, seeded with demo data unless MEMORY_BACKEND_SEED is "false"
+ */
+export function getMemoryBackend(): Backend {
+  if (!globalStore.memoryBackend) {
+    const backend = createMemoryBackend();
+    globalStore.memoryBackend =
+      process.env.MEMORY_BACKEND_SEED === "false"
+        ? Promise.resolve(backend)
+        : seedMemoryBackend(backend).then(() => backend);
+  }
+
+  const ready = globalStore.memoryBackend;
+  // Every call waits for seeding to finish. Each route is bundled separately, so errors thrown by the shared
+  // instance carry another bundle's ApiError class and are rethrown as this one for errorResponse
+  return new Proxy({} as Backend, {
+    get: (_target, method: keyof Backend) =>
+      async (...args: unknown[]) => {
+        const backend = await ready;
+        try {
+          return await (backend[method] as (...params: unknown[]) => Promise<unknown>)(...args);
+        } catch (err) {
+          if (err instanceof Error && err.name === "ApiError" && "status" in err) {
+            throw new ApiError(err.message, Number(err.status));
+          }
+          throw err;
+        }
+      },
+  });
+}
@@ -0,0 +1,110 @@
+import { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createMockStripeServer } from "./mock-stripe";
+
+const NOW = 1772352000;
+
+const server = createMockStripeServer({ now: NOW });
+let baseUrl = "";
+
+/**
+ * Call the mock the way the workflows call Stripe - a secret key and a form-encoded body
+ */
+async function stripe(
+  method: "GET" | "POST" | "DELETE",
+  path: string,
+  params: Record<string, string> = {},
+  headers: Record<string, string> = {}
+) {
+  const body = new URLSearchParams(params).toString();
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      Authorization: "Bearer sk_test_mock",
+      "Content-Type": "application/x-www-form-urlencoded",
+      ...headers,
+    },
+    body: method === "POST" ? body : undefined,
+  });
+  return { status: response.status, headers: response.headers, body: await response.json() };
+}
+
+beforeAll(async () => {
+  // Port 0 picks a free port, so the test never clashes with a running npm run mock-stripe
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("mock Stripe server", () => {
+  it("creates, pauses, resumes and cancels a subscription", async () => {
+    const customer = await stripe("POST", "/v1/customers", {
+      name: "Acme Health - North Clinic",
+      "metadata[customer_id]": "2",
+    });
+    expect(customer.status).toBe(200);
+    expect(customer.body).toMatchObject({ id: "cus_mock000001", metadata: { customer_id: "2" } });
+
+    const paymentMethod = await stripe("POST", "/v1/payment_methods", { type: "card", "card[token]": "tok_visa" });
+    await stripe("POST", `/v1/payment_methods/${paymentMethod.body.id}/attach`, { customer: customer.body.id });
+    await stripe("POST", `/v1/customers/${customer.body.id}`, {
+      "invoice_settings[default_payment_method]": paymentMethod.body.id,
+    });
+
+    const product = await stripe("POST", "/v1/products", { id: "prod_2_1_11", name: "Jane Doe" });
+    const created = await stripe("POST", "/v1/subscriptions", {
+      customer: customer.body.id,
+      "items[0][price_data][product]": product.body.id,
+      "items[0][price_data][currency]": "aud",
+      "items[0][price_data][unit_amount]": "999",
+      "items[0][price_data][recurring][interval]": "month",
+      "metadata[client_id]": "11",
+    });
+    expect(created.status).toBe(200);
+    expect(created.body).toMatchObject({
+      status: "active",
+      created: NOW,
+      pause_collection: null,
+      metadata: { client_id: "11" },
+      items: { data: [{ quantity: 1, price: { product: "prod_2_1_11", unit_amount: 999, currency: "aud" } }] },
+    });
+    const subscriptionPath = `/v1/subscriptions/${created.body.id}`;
+
+    const paused = await stripe("POST", subscriptionPath, {
+      "pause_collection[behavior]": "void",
+      "pause_collection[resumes_at]": String(NOW + 86400),
+    });
+    expect(paused.body.pause_collection).toEqual({ behavior: "void", resumes_at: NOW + 86400 });
+
+    // An empty pause_collection resumes collection, as the resume workflow sends it
+    const resumed = await stripe("POST", subscriptionPath, { pause_collection: "" });
+    expect(resumed.body).toMatchObject({ status: "active", pause_collection: null });
+
+    const canceled = await stripe("DELETE", subscriptionPath);
+    expect(canceled.body).toMatchObject({ status: "canceled", canceled_at: NOW });
+
+    const listed = await stripe("GET", `/v1/subscriptions?customer=${customer.body.id}&status=all`);
+    expect(listed.body.data).toEqual([expect.objectContaining({ id: created.body.id, status: "canceled" })]);
+  });
+
+  it("replays a retried request with the same Idempotency-Key", async () => {
+    const key = { "Idempotency-Key": "create-customer-1" };
+    const first = await stripe("POST", "/v1/customers", { name: "South Clinic" }, key);
+    const retry = await stripe("POST", "/v1/customers", { name: "South Clinic" }, key);
+
+    expect(retry.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(retry.body.id).toBe(first.body.id);
+  });
+
+  it("answers with Stripe's error shape", async () => {
+    const missing = await stripe("GET", "/v1/subscriptions/sub_unknown");
+    expect(missing.status).toBe(404);
+    expect(missing.body.error).toMatchObject({ type: "invalid_request_error" });
+
+    const response = await fetch(`${baseUrl}/v1/customers`, { method: "POST" });
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,388 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { ApiError } from "./errors";
+import { createFakeStripe, FakeStripe, FakeSubscription, sequentialIds } from "./fake-stripe";
+import { RecurringInterval } from "./pricing";
+import { PauseBehavior } from "./subscriptions";
+
+/**
+ * Local HTTP stand-in for the Stripe API, serving a fake Stripe account over the endpoints the n8n workflows
+ * and route handlers call. Point STRIPE_API_BASE at it to run the create, pause, resume and cancel flows offline
+ * Requests are form-encoded with Stripe's bracket notation (items[0][price]=...) and answered with Stripe's
+ * object and error shapes. Ids are numbered and the clock can be frozen, so a replayed flow gives the same state
+ */
+
+export interface MockStripeOptions {
+  // Unix time reported for every object, the real time when not set
+  now?: number;
+}
+
+// Nested form fields as decoded from Stripe's bracket notation
+interface FormValue {
+  [key: string]: string | FormValue | undefined;
+}
+
+type Handler = (match: string[], form: FormValue, stripe: FakeStripe) => unknown;
+
+interface Route {
+  method: "GET" | "POST" | "DELETE";
+  path: RegExp;
+  handler: Handler;
+}
+
+// Stripe's list endpoints page 10 objects at a time and at most 100
+const DEFAULT_LIST_LIMIT = 10;
+const MAX_LIST_LIMIT = 100;
+
+/**
+ * Decode form fields such as items[0][price_data][currency] into nested objects
+ * Lists stay objects keyed by index - read them with toList
+ */
+export function decodeForm(params: URLSearchParams): FormValue {
+  const form: FormValue = {};
+  params.forEach((value, key) => {
+    const [name, ...rest] = key.split("[");
+    const path = [name, ...rest.map((part) => part.replace(/]$/, ""))];
+    let target = form;
+    path.slice(0, -1).forEach((part) => {
+      if (typeof target[part] !== "object") {
+        target[part] = {};
+      }
+      target = target[part] as FormValue;
+    });
+    target[path[path.length - 1]] = value;
+  });
+  return form;
+}
+
+const toList = (value: FormValue[string]): FormValue[] =>
+  typeof value === "object" ? Object.values(value).filter((item): item is FormValue => typeof item === "object") : [];
+
+const toText = (value: FormValue[string]): string | undefined => (typeof value === "string" ? value : undefined);
+
+const toMetadata = (value: FormValue[string]): Record<string, string> =>
+  typeof value === "object"
+    ? Object.fromEntries(
+        Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+      )
+    : {};
+
+/**
+ * Read a required form field
+ * @throws ApiError (400) worded like Stripe's missing parameter error
+ */
+function requireParam(form: FormValue, name: string): string {
+  const value = toText(form[name]);
+  if (!value) {
+    throw new ApiError(`Missing required param: ${name}.`, 400);
+  }
+  return value;
+}
+
+function toInteger(value: string | undefined, name: string, fallback?: number): number {
+  if (value === undefined && fallback !== undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new ApiError(`Invalid integer: ${name}`, 400);
+  }
+  return parsed;
+}
+
+/**
+ * A { object: "list" } page of subscriptions, filtered and paged like GET /v1/subscriptions
+ * Without a status canceled subscriptions are left out; status=all includes them
+ */
+function listSubscriptions(form: FormValue, stripe: FakeStripe) {
+  const status = toText(form.status);
+  const limit = Math.min(toInteger(toText(form.limit), "limit", DEFAULT_LIST_LIMIT), MAX_LIST_LIMIT);
+  const startingAfter = toText(form.starting_after);
+
+  const matchesStatus = (subscription: FakeSubscription) =>
+    status === "all" || (status ? subscription.status === status : subscription.status !== "canceled");
+
+  // Stripe lists newest first
+  let subscriptions = stripe.listSubscriptions(toText(form.customer)).filter(matchesStatus).reverse();
+  if (startingAfter) {
+    const index = subscriptions.findIndex((subscription) => subscription.id === startingAfter);
+    subscriptions = subscriptions.slice(index + 1);
+  }
+
+  return {
+    object: "list",
+    url: "/v1/subscriptions",
+    has_more: subscriptions.length > limit,
+    data: subscriptions.slice(0, limit),
+  };
+}
+
+/**
+ * POST /v1/subscriptions - only the first item is used, with a price or inline price_data
+ */
+function createSubscription(form: FormValue, stripe: FakeStripe): FakeSubscription {
+  const customer = requireParam(form, "customer");
+  const [item] = toList(form.items);
+  if (!item) {
+    throw new ApiError("Missing required param: items.", 400);
+  }
+
+  const priceData = typeof item.price_data === "object" ? item.price_data : null;
+  const recurring = typeof priceData?.recurring === "object" ? priceData.recurring : {};
+  const price = priceData
+    ? stripe.createPrice({
+        product: requireParam(priceData, "product"),
+        currency: requireParam(priceData, "currency"),
+        unit_amount: toInteger(toText(priceData.unit_amount), "unit_amount"),
+        interval: (toText(recurring.interval) ?? "month") as RecurringInterval,
+        interval_count: toInteger(toText(recurring.interval_count), "interval_count", 1),
+      })
+    : stripe.getPrice(requireParam(item, "price"));
+
+  return stripe.createSubscription(
+    customer,
+    price,
+    toInteger(toText(item.quantity), "quantity", 1),
+    toMetadata(form.metadata)
+  );
+}
+
+/**
+ * POST /v1/subscriptions/:id - pause_collection (an empty value resumes), cancel_at_period_end and the first item
+ */
+function updateSubscription(id: string, form: FormValue, stripe: FakeStripe): FakeSubscription {
+  let subscription = stripe.getSubscription(id);
+
+  if (form.pause_collection !== undefined) {
+    const pause = typeof form.pause_collection === "object" ? form.pause_collection : null;
+    subscription = pause
+      ? stripe.pauseCollection(
+          id,
+          requireParam(pause, "behavior") as PauseBehavior,
+          pause.resumes_at ? toInteger(toText(pause.resumes_at), "resumes_at") : undefined
+        )
+      : stripe.resumeCollection(id);
+  }
+
+  if (toText(form.cancel_at_period_end) === "true") {
+    subscription = stripe.cancel(id, "period_end");
+  }
+
+  const [item] = toList(form.items);
+  if (item) {
+    const current = subscription.items.data[0];
+    if (item.id && item.id !== current.id) {
+      throw new ApiError(`No such subscription item: '${toText(item.id)}'`, 404);
+    }
+    subscription = stripe.updateItem(
+      id,
+      toText(item.price) ?? current.price.id,
+      toInteger(toText(item.quantity), "quantity", current.quantity)
+    );
+  }
+
+  return subscription;
+}
+
+/**
+ * POST /v1/invoices/create_preview - prorates a change of the subscription's first item
+ */
+function previewInvoice(form: FormValue, stripe: FakeStripe) {
+  const id = requireParam(form, "subscription");
+  const details = typeof form.subscription_details === "object" ? form.subscription_details : {};
+  const [item] = toList(details.items);
+  const current = stripe.getSubscription(id).items.data[0];
+  const preview = stripe.previewItemChange(
+    id,
+    toText(item?.price) ?? current.price.id,
+    toInteger(toText(item?.quantity), "quantity", current.quantity)
+  );
+
+  return {
+    object: "invoice",
+    subscription: id,
+    currency: preview.currency,
+    amount_due: preview.amount_due,
+    period_end: preview.period_end,
+    lines: { object: "list", has_more: false, data: preview.lines },
+  };
+}
+
+const ROUTES: Route[] = [
+  {
+    method: "POST",
+    path: /^\/v1\/customers$/,
+    handler: (_match, form, stripe) =>
+      stripe.createCustomer(requireParam(form, "name"), toMetadata(form.metadata)),
+  },
+  { method: "GET", path: /^\/v1\/customers\/([^/]+)$/, handler: ([id], _form, stripe) => stripe.getCustomer(id) },
+  {
+    method: "POST",
+    path: /^\/v1\/customers\/([^/]+)$/,
+    handler: ([id], form, stripe) =>
+      stripe.updateCustomer(id, {
+        name: toText(form.name),
+        default_payment_method:
+          typeof form.invoice_settings === "object" ? toText(form.invoice_settings.default_payment_method) : undefined,
+      }),
+  },
+  {
+    method: "DELETE",
+    path: /^\/v1\/customers\/([^/]+)$/,
+    handler: ([id], _form, stripe) => {
+      stripe.deleteCustomer(id);
+      return { id, object: "customer", deleted: true };
+    },
+  },
+  {
+    method: "POST",
+    path: /^\/v1\/payment_methods$/,
+    handler: (_match, form, stripe) => {
+      if (toText(form.type) !== "card" || typeof form.card !== "object") {
+        throw new ApiError("Only card payment methods created from a test token are supported.", 400);
+      }
+      return stripe.createPaymentMethod(requireParam(form.card, "token"));
+    },
+  },
+  {
+    method: "POST",
+    path: /^\/v1\/payment_methods\/([^/]+)\/attach$/,
+    handler: ([id], form, stripe) => stripe.attachPaymentMethod(id, requireParam(form, "customer")),
+  },
+  {
+    method: "POST",
+    path: /^\/v1\/products$/,
+    handler: (_match, form, stripe) =>
+      stripe.createProduct(requireParam(form, "name"), toMetadata(form.metadata), toText(form.id)),
+  },
+  { method: "GET", path: /^\/v1\/products\/([^/]+)$/, handler: ([id], _form, stripe) => stripe.getProduct(id) },
+  {
+    method: "POST",
+    path: /^\/v1\/products\/([^/]+)$/,
+    handler: ([id], form, stripe) =>
+      toText(form.active) === "false" ? stripe.archiveProduct(id) : stripe.getProduct(id),
+  },
+  {
+    method: "POST",
+    path: /^\/v1\/prices$/,
+    handler: (_match, form, stripe) => {
+      const recurring = typeof form.recurring === "object" ? form.recurring : {};
+      return stripe.createPrice({
+        product: requireParam(form, "product"),
+        currency: requireParam(form, "currency"),
+        unit_amount: toInteger(toText(form.unit_amount), "unit_amount"),
+        interval: requireParam(recurring, "interval") as RecurringInterval,
+        interval_count: toInteger(toText(recurring.interval_count), "interval_count", 1),
+      });
+    },
+  },
+  { method: "GET", path: /^\/v1\/prices\/([^/]+)$/, handler: ([id], _form, stripe) => stripe.getPrice(id) },
+  {
+    method: "POST",
+    path: /^\/v1\/prices\/([^/]+)$/,
+    handler: ([id], form, stripe) => (toText(form.active) === "false" ? stripe.archivePrice(id) : stripe.getPrice(id)),
+  },
+  { method: "GET", path: /^\/v1\/subscriptions$/, handler: (_match, form, stripe) => listSubscriptions(form, stripe) },
+  {
+    method: "POST",
+    path: /^\/v1\/subscriptions$/,
+    handler: (_match, form, stripe) => createSubscription(form, stripe),
+  },
+  {
+    method: "GET",
+    path: /^\/v1\/subscriptions\/([^/]+)$/,
+    handler: ([id], _form, stripe) => stripe.getSubscription(id),
+  },
+  {
+    method: "POST",
+    path: /^\/v1\/subscriptions\/([^/]+)$/,
+    handler: ([id], form, stripe) => updateSubscription(id, form, stripe),
+  },
+  {
+    method: "DELETE",
+    path: /^\/v1\/subscriptions\/([^/]+)$/,
+    handler: ([id], _form, stripe) => stripe.cancel(id, "now"),
+  },
+  {
+    method: "POST",
+    path: /^\/v1\/invoices\/create_preview$/,
+    handler: (_match, form, stripe) => previewInvoice(form, stripe),
+  },
+];
+
+// Stripe's error type for each status the fake account throws
+const ERROR_TYPES: Record<number, string> = {
+  402: "card_error",
+  404: "invalid_request_error",
+  400: "invalid_request_error",
+};
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function readForm(req: IncomingMessage, url: URL): Promise<FormValue> {
+  if (req.method === "GET" || req.method === "DELETE") {
+    return decodeForm(url.searchParams);
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return decodeForm(new URLSearchParams(Buffer.concat(chunks).toString()));
+}
+
+/**
+ * Create the mock Stripe server - call listen() on it to start
+ * POST /_mock/reset starts a fresh account, with ids numbered from 1 again
+ */
+export function createMockStripeServer({ now }: MockStripeOptions = {}): Server {
+  const newAccount = () => createFakeStripe({ newId: sequentialIds(), now: now ? () => now : undefined });
+  let stripe = newAccount();
+  // Responses to POST requests by Idempotency-Key, replayed when a request is retried
+  let idempotentResponses = new Map<string, { status: number; body: unknown }>();
+
+  return createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    if (req.method === "POST" && url.pathname === "/_mock/reset") {
+      stripe = newAccount();
+      idempotentResponses = new Map();
+      return send(res, 200, { reset: true });
+    }
+
+    // Like Stripe, take the secret key as a bearer token or as the basic auth username
+    if (!/^(Bearer|Basic) \S/.test(req.headers.authorization ?? "")) {
+      return send(res, 401, {
+        error: { type: "invalid_request_error", message: "You did not provide an API key." },
+      });
+    }
+
+    const idempotencyKey = req.method === "POST" ? req.headers["idempotency-key"] : undefined;
+    const replay = typeof idempotencyKey === "string" ? idempotentResponses.get(idempotencyKey) : undefined;
+    if (replay) {
+      res.setHeader("Idempotent-Replayed", "true");
+      return send(res, replay.status, replay.body);
+    }
+
+    let status = 200;
+    let body: unknown;
+    try {
+      const route = ROUTES.find((candidate) => candidate.method === req.method && candidate.path.test(url.pathname));
+      if (!route) {
+        throw new ApiError(`Unrecognized request URL (${req.method}: ${url.pathname}).`, 404);
+      }
+      const match = url.pathname.match(route.path)?.slice(1).map(decodeURIComponent) ?? [];
+      body = route.handler(match, await readForm(req, url), stripe);
+    } catch (err) {
+      status = err instanceof ApiError ? err.status : 500;
+      const message = err instanceof Error ? err.message : "Unexpected error";
+      body = { error: { type: ERROR_TYPES[status] ?? "api_error", message } };
+    }
+
+    if (typeof idempotencyKey === "string") {
+      idempotentResponses.set(idempotencyKey, { status, body });
+    }
+    send(res, status, body);
+  });
+}
@@ -0,0 +1,219 @@
+import { Backend } from "./backend";
+import { ClientListQuery } from "./clients";
+import { getWebhookUrl, WebhookName } from "./config";
+import { ApiError } from "./errors";
+import { PageQuery } from "./pages";
+import { RecurringInterval } from "./pricing";
+import { ReconcileFix } from "./reconcile";
+import { CreateCustomerBody, PauseBody } from "./schema";
+
+/**
+ * Typed upstream client for the n8n webhook backend - the default Backend, see app/lib/backend.ts
+ * Only used by route handlers under app/api - the browser never talks to n8n directly
+ */
+
+/**
+ * Request body for the update-customer webhook
+ */
+export interface UpdateCustomerRequest {
+  id: string;
+  name: string;
+}
+
+/**
+ * Request body for the create-client webhook
+ * Either stripe_price_id (a plan or existing price) or currency, unit_amount and the recurring fields are set
+ */
+export interface CreateClientRequest {
+  name: string;
+  customer_id: string;
+  org_name: string;
+  parent_org_id?: string;
+  parent_org_name?: string;
+  plan_id?: string;
+  stripe_price_id?: string;
+  currency?: string;
+  unit_amount?: number;
+  recurring_interval?: RecurringInterval;
+  recurring_quantity?: number;
+  email?: string;
+  // The client's id in the customer's own systems, e.g. from an imported roster
+  external_ref?: string;
+  // Retrying with the same key returns the client already created instead of a duplicate
+  idempotency_key: string;
+}
+
+/**
+ * Request body for the create-plan webhook
+ */
+export interface CreatePlanRequest {
+  name: string;
+  description?: string;
+  currency: string;
+  unit_amount: number;
+  recurring_interval: RecurringInterval;
+  recurring_quantity: number;
+}
+
+/**
+ * Request body for the subscription pause/resume webhooks
+ * db_status is written to the clients row, stripe_status is sent as pause_collection behavior
+ * resumes_at (unix timestamp) lets Stripe resume collection automatically
+ */
+export interface SubscriptionStatusRequest {
+  customer_id: string;
+  stripe_subscription_id: string;
+  db_status: "active" | "paused";
+  stripe_status: string;
+  resumes_at?: number;
+}
+
+/**
+ * Request body for the cancel-subscription webhook
+ * "now" cancels immediately, "period_end" lets the subscription run until the end of the paid period
+ */
+export interface CancelSubscriptionRequest {
+  customer_id: string;
+  stripe_subscription_id: string;
+  when: "now" | "period_end";
+}
+
+/**
+ * Request body for the sync-subscription webhook, built from a verified Stripe event
+ * status is Stripe's subscription status, or "paused" while collection is paused
+ */
+export interface SubscriptionSyncRequest {
+  stripe_subscription_id: string;
+  event_type: string;
+  status: string;
+  pause_behavior: string | null;
+  pause_resumes_at: number | null;
+  cancel_at: number | null;
+}
+
+/**
+ * Request body for the plan change preview and change-plan webhooks
+ * The subscription's (single) item is moved to stripe_price_id and quantity with prorations
+ */
+export interface PlanChangeRequest {
+  customer_id: string;
+  stripe_subscription_id: string;
+  stripe_price_id: string;
+  quantity: number;
+  plan_id?: string;
+}
+
+/**
+ * Call an n8n webhook and return its parsed JSON response
+ * Responses are never cached - n8n is the source of truth
+ * query values left undefined are not sent
+ * @throws ApiError (503) if the webhook is not configured, (502) if n8n fails
+ */
+async function callWebhook<T = unknown>(
+  name: WebhookName,
+  options: { method?: "GET" | "POST"; body?: unknown; query?: Record<string, string | number | undefined> } = {}
+): Promise<T> {
+  const url = new URL(getWebhookUrl(name));
+  const method = options.method ?? "POST";
+  Object.entries(options.query ?? {}).forEach(([key, value]) => {
+    if (value !== undefined) {
+      url.searchParams.set(key, String(value));
+    }
+  });
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method,
+      headers: options.body !== undefined ? { "Content-Type": "application/json" } : undefined,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      cache: "no-store",
+    });
+  } catch (err) {
+    console.error(`Error calling ${name} webhook:`, err);
+    throw new ApiError(`Could not reach the ${name} webhook`, 502);
+  }
+
+  if (!response.ok) {
+    throw new ApiError(`The ${name} webhook failed: ${response.status} ${response.statusText}`, 502);
+  }
+
+  // Some workflows respond with an empty body
+  const text = await response.text();
+  if (!text) {
+    return null as T;
+  }
+
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new ApiError(`The ${name} webhook returned invalid JSON`, 502);
+  }
+}
+
+export const n8n: Backend = {
+  getCustomers: (page?: PageQuery) => callWebhook("getCustomers", { method: "GET", query: { ...page } }),
+
+  getCustomer: (id: string) => callWebhook<{ customer: unknown } | null>("getCustomer", { body: { id } }),
+
+  createCustomer: (body: CreateCustomerBody) => callWebhook("createCustomer", { body }),
+
+  updateCustomer: (body: UpdateCustomerRequest) => callWebhook("updateCustomer", { body }),
+
+  // The delete-customer workflow only reports what it would remove when dry_run is set
+  previewCustomerDeletion: (id: string) =>
+    callWebhook("deleteCustomer", { body: { id, dry_run: true } }),
+
+  deleteCustomer: (id: string) => callWebhook("deleteCustomer", { body: { id, dry_run: false } }),
+
+  getClients: (customerId: string, query?: ClientListQuery) =>
+    callWebhook("getClients", { body: { customer_id: customerId, ...query } }),
+
+  createClient: (body: CreateClientRequest) => callWebhook("createClient", { body }),
+
+  pauseSubscription: (body: SubscriptionStatusRequest) =>
+    callWebhook("pauseSubscription", { body }),
+
+  resumeSubscription: (body: SubscriptionStatusRequest) =>
+    callWebhook("resumeSubscription", { body }),
+
+  // Pause or resume every client of an org (across its sub-orgs) or sub-org
+  pauseCustomer: (id: string, options: PauseBody) =>
+    callWebhook("pauseResumeCustomer", { body: { id, action: "pause", ...options } }),
+
+  resumeCustomer: (id: string) => callWebhook("pauseResumeCustomer", { body: { id, action: "resume" } }),
+
+  cancelSubscription: (body: CancelSubscriptionRequest) =>
+    callWebhook("cancelSubscription", { body }),
+
+  // Copy a subscription's state from Stripe onto its client row - unknown subscriptions are ignored
+  syncSubscription: (body: SubscriptionSyncRequest) => callWebhook("syncSubscription", { body }),
+
+  // The reconcile workflow only reports issues for the "report" action, the other actions apply one fix
+  reconcileReport: (customerId?: string) =>
+    callWebhook("reconcileSubscriptions", { body: { action: "report", customer_id: customerId } }),
+
+  // cancel answers success: false when a client still references the subscription
+  applyReconcileFix: async (fix: ReconcileFix) => {
+    const data = await callWebhook<{ success?: boolean; error?: string } | null>("reconcileSubscriptions", {
+      body: fix,
+    });
+    if (data?.success === false) {
+      throw new ApiError(data.error || "The reconciliation fix was refused", 409);
+    }
+    return data;
+  },
+
+  previewPlanChange: (body: PlanChangeRequest) => callWebhook("previewPlanChange", { body }),
+
+  changePlan: (body: PlanChangeRequest) => callWebhook("changePlan", { body }),
+
+  getStats: () => callWebhook("getStats", { body: { key: "overall_stats" } }),
+
+  getPlans: (includeArchived: boolean) =>
+    callWebhook("getPlans", { body: { include_archived: includeArchived } }),
+
+  createPlan: (body: CreatePlanRequest) => callWebhook("createPlan", { body }),
+
+  archivePlan: (id: string) => callWebhook("archivePlan", { body: { id } }),
+};
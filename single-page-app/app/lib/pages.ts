@@ -0,0 +1,43 @@
+/**
+ * Paged list responses shared by the clients and customers API routes
+ */
+
+// NocoDB returns at most this many rows per request
+export const MAX_PAGE_SIZE = 1000;
+
+/**
+ * One page of a list as returned by the get-clients and get-customers workflows
+ */
+export interface ListPage<T = Record<string, unknown>> {
+  // Rows matching the filter across every page
+  total: number;
+  is_last_page: boolean;
+  data: T[];
+}
+
+/**
+ * Offset and limit of a page - the workflows return their first 1000 rows when left out
+ */
+export interface PageQuery {
+  offset?: number;
+  limit?: number;
+}
+
+/**
+ * Read a paged workflow response, which n8n may wrap in [{ ... }] - a bare array is a single page
+ */
+export function toListPage<T = Record<string, unknown>>(data: unknown): ListPage<T> {
+  const page = Array.isArray(data) && data.length > 0 && Array.isArray(data[0]?.data) ? data[0] : data;
+
+  if (Array.isArray(page)) {
+    return { total: page.length, is_last_page: true, data: page as T[] };
+  }
+
+  const { total, is_last_page, data: rows } = (page ?? {}) as Partial<ListPage<T>>;
+  const list = Array.isArray(rows) ? rows : [];
+  return {
+    total: Number(total ?? list.length),
+    is_last_page: is_last_page ?? true,
+    data: list,
+  };
+}
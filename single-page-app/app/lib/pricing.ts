@@ -0,0 +1,125 @@
+/**
+ * Client pricing shared by the client create forms and the clients API route
+ * Stripe amounts are sent in the currency's smallest unit (e.g. cents)
+ */
+
+export type RecurringInterval = "day" | "week" | "month" | "year";
+
+export const RECURRING_INTERVALS: RecurringInterval[] = ["day", "week", "month", "year"];
+
+export const CURRENCIES = ["aud", "usd", "eur", "gbp", "nzd", "cad", "jpy"];
+
+// Currencies Stripe charges in whole units - no cents
+const ZERO_DECIMAL_CURRENCIES = ["jpy"];
+
+/**
+ * Plan type definition - a row of the CMS plans table
+ */
+export interface Plan {
+  Id: number;
+  name: string;
+  description?: string;
+  stripe_product_id: string;
+  stripe_price_id: string;
+  currency: string;
+  unit_amount: number;
+  recurring_interval: RecurringInterval;
+  recurring_quantity: number;
+  status: "active" | "archived";
+}
+
+/**
+ * Pricing as entered in the form
+ * "plan" subscribes to a plan's price, "new" creates a price for the client's product,
+ * "existing" subscribes to any Stripe price as-is
+ */
+export interface ClientPricing {
+  mode: "plan" | "new" | "existing";
+  plan_id: string;
+  currency: string;
+  amount: string;
+  recurring_interval: RecurringInterval;
+  recurring_quantity: number;
+  stripe_price_id: string;
+}
+
+/**
+ * Pricing fields sent to POST /api/clients
+ */
+export type ClientPricingPayload =
+  | { plan_id?: string; stripe_price_id: string }
+  | {
+      currency: string;
+      unit_amount: number;
+      recurring_interval: RecurringInterval;
+      recurring_quantity: number;
+    };
+
+// Custom price defaults match the price every client was created with before pricing was configurable
+export const DEFAULT_PRICING: ClientPricing = {
+  mode: "plan",
+  plan_id: "",
+  currency: "aud",
+  amount: "9.99",
+  recurring_interval: "month",
+  recurring_quantity: 1,
+  stripe_price_id: "",
+};
+
+/**
+ * Convert a display amount (e.g. 9.99) to Stripe's smallest currency unit (e.g. 999)
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  const factor = ZERO_DECIMAL_CURRENCIES.includes(currency.toLowerCase()) ? 1 : 100;
+  return Math.round(amount * factor);
+}
+
+/**
+ * Format an amount in the currency's smallest unit for display, e.g. 999 aud -> A$9.99
+ */
+export function formatPrice(unitAmount: number, currency: string): string {
+  const factor = ZERO_DECIMAL_CURRENCIES.includes(currency.toLowerCase()) ? 1 : 100;
+  return new Intl.NumberFormat(undefined, { style: "currency", currency: currency.toUpperCase() }).format(
+    unitAmount / factor
+  );
+}
+
+/**
+ * Describe a billing frequency, e.g. "month" or "3 months"
+ */
+export function formatInterval(interval: RecurringInterval, quantity: number): string {
+  return quantity === 1 ? interval : `${quantity} ${interval}s`;
+}
+
+/**
+ * Build the pricing part of the create-client payload from the form values
+ * @throws Error if no plan is selected or the amount or price id is invalid
+ */
+export function getPricingPayload(pricing: ClientPricing): ClientPricingPayload {
+  if (pricing.mode === "plan") {
+    if (!pricing.plan_id || !pricing.stripe_price_id) {
+      throw new Error("Please select a plan");
+    }
+    return { plan_id: pricing.plan_id, stripe_price_id: pricing.stripe_price_id };
+  }
+
+  if (pricing.mode === "existing") {
+    const priceId = pricing.stripe_price_id.trim();
+    if (!priceId.startsWith("price_")) {
+      throw new Error("Please enter a Stripe price id (price_...)");
+    }
+    return { stripe_price_id: priceId };
+  }
+
+  const amount = parseFloat(pricing.amount);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error("Please enter a price greater than 0");
+  }
+
+  return {
+    currency: pricing.currency,
+    unit_amount: toMinorUnits(amount, pricing.currency),
+    recurring_interval: pricing.recurring_interval,
+    recurring_quantity: pricing.recurring_quantity,
+  };
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from "vitest";
+import { createQueryCache } from "./query-cache";
+
+/**
+ * A cache on a clock the test moves by hand
+ */
+function setup() {
+  let time = 1_000_000;
+  const cache = createQueryCache({ staleTime: 1000, now: () => time });
+  return { cache, advance: (ms: number) => (time += ms) };
+}
+
+// A fetcher that answers with a numbered response each time, so refetches are visible
+function counter() {
+  let calls = 0;
+  return vi.fn(async () => ++calls);
+}
+
+describe("createQueryCache", () => {
+  it("shares one request between concurrent fetches of a key", async () => {
+    const { cache } = setup();
+    const fetcher = counter();
+
+    const results = await Promise.all([cache.fetch(["stats"], fetcher), cache.fetch(["stats"], fetcher)]);
+
+    expect(results).toEqual([1, 1]);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("serves fresh data from the cache and refetches once stale", async () => {
+    const { cache, advance } = setup();
+    const fetcher = counter();
+
+    await cache.fetch(["stats"], fetcher);
+    advance(999);
+    expect(await cache.fetch(["stats"], fetcher)).toBe(1);
+
+    advance(1);
+    expect(await cache.fetch(["stats"], fetcher)).toBe(2);
+    expect(cache.getState(["stats"]).data).toBe(2);
+  });
+
+  it("keeps the last good data when a refetch fails", async () => {
+    const { cache } = setup();
+    await cache.fetch(["stats"], async () => 1);
+
+    await expect(
+      cache.fetch(["stats"], () => Promise.reject(new Error("Failed to fetch stats")), { force: true })
+    ).rejects.toThrow("Failed to fetch stats");
+
+    expect(cache.getState(["stats"])).toMatchObject({ data: 1, error: "Failed to fetch stats", fetching: false });
+  });
+
+  it("refetches the invalidated keys in use and marks the rest stale", async () => {
+    const { cache } = setup();
+    const shown = counter();
+    const hidden = counter();
+    await cache.fetch(["clients", "2", "page=1"], shown);
+    await cache.fetch(["clients", "2", "page=2"], hidden);
+    await cache.fetch(["clients", "3", "page=1"], counter());
+    cache.subscribe(["clients", "2", "page=1"], () => {});
+
+    await cache.invalidate(["clients", "2"]);
+
+    expect(cache.getState(["clients", "2", "page=1"])).toMatchObject({ data: 2, invalidated: false });
+    expect(cache.getState(["clients", "2", "page=2"])).toMatchObject({ data: 1, invalidated: true });
+    expect(cache.getState(["clients", "3", "page=1"]).invalidated).toBe(false);
+
+    // Stale keys refetch when next used, however recent their data is
+    expect(await cache.fetch(["clients", "2", "page=2"], hidden)).toBe(2);
+  });
+
+  it("patches every key under a prefix and rolls the patch back", async () => {
+    const { cache } = setup();
+    await cache.fetch(["clients", "2", "page=1"], async () => ["paused"]);
+    await cache.fetch(["clients", "2", "page=2"], async () => ["paused", "paused"]);
+
+    const rollback = cache.patch<string[]>(["clients", "2"], (statuses) => statuses.map(() => "active"));
+
+    expect(cache.getState(["clients", "2", "page=1"]).data).toEqual(["active"]);
+    expect(cache.getState(["clients", "2", "page=2"]).data).toEqual(["active", "active"]);
+
+    rollback();
+
+    expect(cache.getState(["clients", "2", "page=1"]).data).toEqual(["paused"]);
+    expect(cache.getState(["clients", "2", "page=2"]).data).toEqual(["paused", "paused"]);
+  });
+
+  it("drops a response sent before a patch so it cannot undo the patch", async () => {
+    const { cache } = setup();
+    await cache.fetch(["clients", "2"], async () => "paused");
+
+    let respond: (value: string) => void = () => {};
+    const inFlight = cache.fetch(["clients", "2"], () => new Promise<string>((res) => (respond = res)), { force: true });
+    cache.patch<string>(["clients", "2"], () => "active");
+    respond("paused");
+    await inFlight;
+
+    expect(cache.getState(["clients", "2"]).data).toBe("active");
+  });
+
+  it("notifies listeners with a new state object on every change", async () => {
+    const { cache } = setup();
+    const listener = vi.fn();
+    cache.subscribe(["stats"], listener);
+    const before = cache.getState(["stats"]);
+
+    await cache.fetch(["stats"], async () => 1);
+
+    // Fetching, then data, then done
+    expect(listener).toHaveBeenCalledTimes(3);
+    expect(cache.getState(["stats"])).not.toBe(before);
+    expect(cache.getState(["stats"])).toBe(cache.getState(["stats"]));
+  });
+});
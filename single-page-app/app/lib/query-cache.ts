@@ -0,0 +1,262 @@
+/**
+ * Browser-side cache for reads from the app's /api routes, shared by every page through QueryProvider
+ * Concurrent requests for a key share one fetch, cached data is shown straight away and refetched in the
+ * background once stale, and mutations invalidate or patch the keys they affect
+ */
+
+// Cache keys are paths - invalidating ["clients", "12"] covers every page of sub-org 12's clients
+export type QueryKey = readonly (string | number)[];
+
+export interface QueryState<T> {
+  data?: T;
+  // Message of the last failed fetch - cleared by the next successful one
+  error: string | null;
+  // Unix ms the data was fetched at, 0 before the first fetch
+  updatedAt: number;
+  fetching: boolean;
+  // Set by invalidate - the data is refetched the next time it is used, however recent it is
+  invalidated: boolean;
+}
+
+export interface FetchOptions {
+  // How long fetched data counts as fresh, in ms
+  staleTime?: number;
+  // Fetch even when the data is fresh
+  force?: boolean;
+}
+
+export interface QueryCache {
+  getState: <T>(key: QueryKey) => QueryState<T>;
+  subscribe: (key: QueryKey, listener: () => void) => () => void;
+  fetch: <T>(key: QueryKey, fetcher: () => Promise<T>, options?: FetchOptions) => Promise<T>;
+  setData: <T>(key: QueryKey, update: (data: T | undefined) => T) => void;
+  patch: <T>(prefix: QueryKey, update: (data: T) => T) => () => void;
+  invalidate: (prefix: QueryKey) => Promise<void>;
+  revalidateActive: () => void;
+}
+
+/**
+ * Keys of the cached reads
+ */
+export const queryKeys = {
+  customers: ["customers"] as const,
+  // Every org with its sub-orgs - CustomerContext's list
+  customerList: ["customers", "all"] as const,
+  customerPages: ["customers", "page"] as const,
+  customerPage: (offset: number, limit: number) => ["customers", "page", offset, limit] as const,
+  clients: ["clients"] as const,
+  // Every cached page of one sub-org's clients
+  clientsBySubOrg: (suborgId: string) => ["clients", suborgId] as const,
+  // One page of a sub-org's clients - params is the list query string (page, sort, filters)
+  clientPage: (suborgId: string, params: string) => ["clients", suborgId, params] as const,
+  stats: ["stats"] as const,
+};
+
+// Data younger than this is served without a refetch
+export const DEFAULT_STALE_TIME_MS = 30 * 1000;
+
+// Entries nobody has used for this long are dropped
+export const DEFAULT_GC_TIME_MS = 5 * 60 * 1000;
+
+interface Entry {
+  key: QueryKey;
+  state: QueryState<unknown>;
+  // Latest fetcher registered for the key, used to refetch it after an invalidate
+  fetcher?: () => Promise<unknown>;
+  // Bumped by every patch, setData and invalidate - a fetch started before a bump is out of date
+  generation: number;
+  inFlight?: { generation: number; promise: Promise<unknown> };
+  listeners: Set<() => void>;
+  gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+const INITIAL_STATE: QueryState<unknown> = {
+  error: null,
+  updatedAt: 0,
+  fetching: false,
+  invalidated: false,
+};
+
+const hashKey = (key: QueryKey) => JSON.stringify(key);
+
+const startsWith = (key: QueryKey, prefix: QueryKey) =>
+  prefix.length <= key.length && prefix.every((part, i) => key[i] === part);
+
+/**
+ * Create an empty query cache
+ */
+export function createQueryCache({
+  staleTime = DEFAULT_STALE_TIME_MS,
+  gcTime = DEFAULT_GC_TIME_MS,
+  now = () => Date.now(),
+}: { staleTime?: number; gcTime?: number; now?: () => number } = {}): QueryCache {
+  const entries = new Map<string, Entry>();
+
+  const getEntry = (key: QueryKey): Entry => {
+    const hash = hashKey(key);
+    let entry = entries.get(hash);
+    if (!entry) {
+      entry = { key, state: INITIAL_STATE, generation: 0, listeners: new Set() };
+      entries.set(hash, entry);
+    }
+    return entry;
+  };
+
+  const matching = (prefix: QueryKey) => Array.from(entries.values()).filter((entry) => startsWith(entry.key, prefix));
+
+  // State objects are replaced, never mutated, so subscribers can compare them by reference
+  const setState = (entry: Entry, changes: Partial<QueryState<unknown>>) => {
+    entry.state = { ...entry.state, ...changes };
+    entry.listeners.forEach((listener) => listener());
+  };
+
+  const scheduleGc = (entry: Entry) => {
+    clearTimeout(entry.gcTimer);
+    entry.gcTimer = setTimeout(() => {
+      if (entry.listeners.size === 0 && !entry.inFlight) {
+        entries.delete(hashKey(entry.key));
+      }
+    }, gcTime);
+  };
+
+  const fetchEntry = <T>(entry: Entry, fetcher: () => Promise<T>, options: FetchOptions = {}): Promise<T> => {
+    entry.fetcher = fetcher;
+
+    // Share the request already on its way, unless the cache changed after it was sent
+    if (entry.inFlight && entry.inFlight.generation === entry.generation) {
+      return entry.inFlight.promise as Promise<T>;
+    }
+
+    const { state } = entry;
+    const fresh =
+      state.data !== undefined && !state.invalidated && now() - state.updatedAt < (options.staleTime ?? staleTime);
+    if (fresh && !options.force) {
+      return Promise.resolve(state.data as T);
+    }
+
+    const generation = entry.generation;
+    const promise = fetcher().then(
+      (data) => {
+        // A patch or invalidate since the request was sent wins - its own refetch brings the new data
+        if (entry.generation === generation) {
+          setState(entry, { data, error: null, updatedAt: now(), invalidated: false });
+        }
+        return data;
+      },
+      (err) => {
+        if (entry.generation === generation) {
+          setState(entry, { error: err instanceof Error ? err.message : String(err) });
+        }
+        throw err;
+      }
+    );
+
+    entry.inFlight = { generation, promise };
+    setState(entry, { fetching: true });
+    promise
+      .finally(() => {
+        if (entry.inFlight?.promise === promise) {
+          entry.inFlight = undefined;
+          setState(entry, { fetching: false });
+        }
+        if (entry.listeners.size === 0) {
+          scheduleGc(entry);
+        }
+      })
+      .catch(() => {
+        // Reported through the returned promise and the entry's error
+      });
+
+    return promise;
+  };
+
+  /**
+   * Refetch the entries someone is showing - the rest wait until they are used again
+   */
+  const refetchActive = (list: Entry[], options?: FetchOptions) =>
+    list
+      .filter((entry) => entry.listeners.size > 0 && entry.fetcher)
+      .map((entry) =>
+        fetchEntry(entry, entry.fetcher as () => Promise<unknown>, options).catch((err) => {
+          console.error(`Error refetching ${hashKey(entry.key)}:`, err);
+        })
+      );
+
+  return {
+    /**
+     * Current state of a key - the same object until the key changes
+     */
+    getState: <T>(key: QueryKey) => getEntry(key).state as QueryState<T>,
+
+    /**
+     * Listen for changes to a key; keys with listeners are refetched when invalidated
+     */
+    subscribe: (key, listener) => {
+      const entry = getEntry(key);
+      clearTimeout(entry.gcTimer);
+      entry.listeners.add(listener);
+      return () => {
+        entry.listeners.delete(listener);
+        if (entry.listeners.size === 0) {
+          scheduleGc(entry);
+        }
+      };
+    },
+
+    /**
+     * Data for a key - from the cache while fresh, otherwise from the fetcher
+     * @throws the fetcher's error; the last good data stays cached
+     */
+    fetch: (key, fetcher, options) => fetchEntry(getEntry(key), fetcher, options),
+
+    /**
+     * Replace the data of one key, e.g. to add a created row without a refetch
+     */
+    setData: <T>(key: QueryKey, update: (data: T | undefined) => T) => {
+      const entry = getEntry(key);
+      entry.generation++;
+      setState(entry, { data: update(entry.state.data as T | undefined) });
+    },
+
+    /**
+     * Update the cached data of every key under a prefix, e.g. an optimistic status change
+     * @returns a function that puts the previous data back if the change fails
+     */
+    patch: <T>(prefix: QueryKey, update: (data: T) => T) => {
+      const previous = matching(prefix)
+        .filter((entry) => entry.state.data !== undefined)
+        .map((entry) => ({ entry, data: entry.state.data }));
+
+      previous.forEach(({ entry, data }) => {
+        entry.generation++;
+        setState(entry, { data: update(data as T) });
+      });
+
+      return () =>
+        previous.forEach(({ entry, data }) => {
+          entry.generation++;
+          setState(entry, { data });
+        });
+    },
+
+    /**
+     * Mark every key under a prefix as stale and refetch the ones in use
+     * Cached data stays visible until the new data arrives
+     */
+    invalidate: async (prefix) => {
+      const list = matching(prefix);
+      list.forEach((entry) => {
+        entry.generation++;
+        setState(entry, { invalidated: true });
+      });
+      await Promise.all(refetchActive(list));
+    },
+
+    /**
+     * Refetch the stale keys in use, e.g. when the window regains focus
+     */
+    revalidateActive: () => {
+      refetchActive(Array.from(entries.values()));
+    },
+  };
+}
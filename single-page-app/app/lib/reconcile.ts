@@ -0,0 +1,124 @@
+/**
+ * Reconciliation report types shared by the reconcile page and API routes
+ * The report compares the clients table with the subscriptions of every bucket's Stripe customer
+ */
+
+export type ReconcileIssueType =
+  | "out_of_sync"
+  | "unlinked_subscription"
+  | "missing_subscription"
+  | "client_without_subscription"
+  | "orphan_subscription"
+  | "bucket_without_stripe_customer";
+
+// link copies the subscription onto the client, mark_orphan flags the client, cancel cancels the subscription
+export type ReconcileFixAction = "link" | "mark_orphan" | "cancel";
+
+export const RECONCILE_FIX_ACTIONS: ReconcileFixAction[] = ["link", "mark_orphan", "cancel"];
+
+/**
+ * Client row as summarized in the report
+ */
+export interface ReconcileClient {
+  id: string;
+  name: string;
+  customer_id: string;
+  bucket_id: string | null;
+  stripe_subscription_id: string | null;
+  status: string | null;
+}
+
+/**
+ * Stripe subscription as summarized in the report - status is the status the portal would show
+ */
+export interface ReconcileSubscription {
+  id: string;
+  stripe_customer_id: string;
+  bucket_id: string | null;
+  status: string;
+  stripe_price_id: string | null;
+  created: number;
+}
+
+export interface ReconcileIssue {
+  type: ReconcileIssueType;
+  fix: ReconcileFixAction | null;
+  customer_id: string | null;
+  bucket_id?: string;
+  client?: ReconcileClient;
+  subscription?: ReconcileSubscription;
+}
+
+/**
+ * Dry run result - nothing has been changed
+ */
+export interface ReconcileReport {
+  dry_run: true;
+  checked_at: number;
+  buckets: number;
+  clients: number;
+  subscriptions: number;
+  issues: ReconcileIssue[];
+}
+
+/**
+ * A single fix sent back from the report
+ * link needs the client and subscription, mark_orphan the client, cancel the subscription
+ */
+export interface ReconcileFix {
+  action: ReconcileFixAction;
+  customer_id?: string;
+  client_id?: string;
+  stripe_subscription_id?: string;
+  bucket_id?: string;
+}
+
+export const RECONCILE_ISSUE_LABELS: Record<ReconcileIssueType, { label: string; description: string }> = {
+  out_of_sync: {
+    label: "Out of sync",
+    description: "The client's status or bucket no longer matches its Stripe subscription",
+  },
+  unlinked_subscription: {
+    label: "Unlinked subscription",
+    description: "A subscription exists for the client's product but was never saved on the client",
+  },
+  missing_subscription: {
+    label: "Missing subscription",
+    description: "The client's subscription id was not found on its bucket's Stripe customer",
+  },
+  client_without_subscription: {
+    label: "No subscription",
+    description: "The client was never given a subscription and none could be matched",
+  },
+  orphan_subscription: {
+    label: "Orphan subscription",
+    description: "A subscription is billing but no client points at it",
+  },
+  bucket_without_stripe_customer: {
+    label: "Bucket without Stripe customer",
+    description: "The subscription bucket has no Stripe customer, so its clients could not be checked",
+  },
+};
+
+export const RECONCILE_FIX_LABELS: Record<ReconcileFixAction, string> = {
+  link: "Link subscription",
+  mark_orphan: "Mark orphaned",
+  cancel: "Cancel subscription",
+};
+
+/**
+ * Build the fix request for an issue, or null when it has no automatic fix
+ */
+export function toReconcileFix(issue: ReconcileIssue): ReconcileFix | null {
+  if (!issue.fix) {
+    return null;
+  }
+
+  return {
+    action: issue.fix,
+    customer_id: issue.customer_id ?? undefined,
+    client_id: issue.client?.id,
+    stripe_subscription_id: issue.subscription?.id,
+    bucket_id: issue.subscription?.bucket_id ?? undefined,
+  };
+}
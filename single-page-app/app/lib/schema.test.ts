@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import {
+  customerSchema,
+  clientSchema,
+  listPage,
+  overallStatsSchema,
+  parse,
+  reconcileReportSchema,
+  SchemaError,
+  single,
+} from "./schema";
+
+describe("customerSchema", () => {
+  const org = {
+    Id: 1,
+    name: "Acme Health",
+    customer_type: "org",
+    CreatedAt: "2026-01-05T10:00:00Z",
+    client_count: 3,
+    client_count_paused: 1,
+    stripe_customer_id: "cus_123",
+    suborgs: [{ Id: 2, name: "North Clinic", customer_type: "sub-org", CreatedAt: "2026-01-06T10:00:00Z" }],
+  };
+
+  it("maps NocoDB rows onto customers with string ids and unix timestamps", () => {
+    expect(parse(customerSchema, org)).toEqual({
+      id: "1",
+      name: "Acme Health",
+      customer_type: "org",
+      created: Date.UTC(2026, 0, 5, 10) / 1000,
+      client_count: 3,
+      client_count_paused: 1,
+      suborgs: [
+        {
+          id: "2",
+          name: "North Clinic",
+          customer_type: "sub-org",
+          created: Date.UTC(2026, 0, 6, 10) / 1000,
+          client_count: 0,
+          client_count_paused: 0,
+          suborgs: [],
+        },
+      ],
+    });
+  });
+
+  it("reads missing or null counts and sub-orgs as empty", () => {
+    const customer = parse(customerSchema, { ...org, client_count: null, client_count_paused: undefined, suborgs: null });
+
+    expect(customer.client_count).toBe(0);
+    expect(customer.client_count_paused).toBe(0);
+    expect(customer.suborgs).toEqual([]);
+  });
+
+  it("keeps the parent org name of a sub-org listed on its own", () => {
+    const suborg = { ...org.suborgs[0], parent_org_name: "Acme Health" };
+
+    expect(parse(customerSchema, suborg).parent_org_name).toBe("Acme Health");
+  });
+
+  it("names the field that drifted, including inside sub-orgs", () => {
+    const drifted = { ...org, suborgs: [{ ...org.suborgs[0], name: "" }] };
+
+    expect(() => parse(customerSchema, drifted)).toThrow(
+      'response.suborgs[0].name must be a non-empty string, got ""'
+    );
+  });
+
+  it("rejects unknown customer types and dates", () => {
+    expect(() => parse(customerSchema, { ...org, customer_type: "team" })).toThrow(SchemaError);
+    expect(() => parse(customerSchema, { ...org, CreatedAt: "yesterday" })).toThrow(
+      'response.CreatedAt must be a date, got "yesterday"'
+    );
+  });
+});
+
+describe("clientSchema", () => {
+  it("keeps subscription fields and drops null ones", () => {
+    const client = parse(clientSchema, {
+      Id: 9,
+      name: "Jane",
+      customer_id: 2,
+      CreatedAt: "2026-02-01T09:00:00Z",
+      email: null,
+      stripe_subscription_id: "sub_9",
+      stripe_subscription_status: "paused",
+      pause_behavior: "void",
+      plan_id: 7,
+    });
+
+    expect(client).toMatchObject({
+      id: "9",
+      customer_id: "2",
+      stripe_subscription_status: "paused",
+      pause_behavior: "void",
+      plan_id: "7",
+    });
+    expect(client.email).toBeUndefined();
+  });
+});
+
+describe("listPage", () => {
+  it("reports the index of a bad row", () => {
+    const page = { total: 2, is_last_page: true, data: [{ Id: 1, name: "Jane", customer_id: 2 }] };
+
+    expect(() => parse(listPage(clientSchema), page)).toThrow("response.data[0].CreatedAt must be a date, got undefined");
+  });
+});
+
+describe("single", () => {
+  const stats = { totalOrgs: 1, totalSubOrgs: 2, totalClients: 3, totalActiveClients: 2, totalPausedClients: 1 };
+
+  it("unwraps workflows that respond with all incoming items", () => {
+    expect(parse(overallStatsSchema, [stats])).toEqual(stats);
+    expect(parse(overallStatsSchema, stats)).toEqual(stats);
+  });
+
+  it("rejects more than one item", () => {
+    expect(() => parse(single(customerSchema), [{}, {}])).toThrow("response must be a single item, got an array");
+  });
+});
+
+describe("reconcileReportSchema", () => {
+  it("reads number and string row ids alike", () => {
+    const issue = {
+      type: "missing_subscription",
+      fix: "mark_orphan",
+      customer_id: "2",
+      client: { id: 11, name: "Jane Doe", customer_id: 2, bucket_id: "5", stripe_subscription_id: "sub_11", status: null },
+    };
+    const report = parse(reconcileReportSchema, {
+      dry_run: true,
+      checked_at: 1772352000,
+      buckets: 1,
+      clients: 1,
+      subscriptions: 0,
+      issues: [issue],
+    });
+
+    expect(report.issues[0]).toMatchObject({
+      customer_id: "2",
+      client: { id: "11", customer_id: "2", bucket_id: "5" },
+    });
+  });
+});
@@ -0,0 +1,633 @@
+import { BatchJob, BatchJobItem, BatchJobSummary } from "./batch";
+import { ClientPricingPayload, Plan, RECURRING_INTERVALS } from "./pricing";
+import { RECONCILE_FIX_ACTIONS, RECONCILE_ISSUE_LABELS, ReconcileIssueType, ReconcileReport } from "./reconcile";
+import { PAUSE_BEHAVIORS, PauseBehavior } from "./subscriptions";
+
+/**
+ * API contract shared by the browser and the route handlers
+ * Every response the browser reads is checked against a schema here; a mismatch names
+ * the field that drifted (e.g. response.data[3].name) instead of guessing at field names or dropping rows
+ */
+
+/**
+ * A value that does not match its schema
+ */
+export class SchemaError extends Error {
+  // Where the mismatch is, e.g. response.data[3].suborgs[0].Id
+  readonly path: string;
+
+  constructor(path: string, expected: string, value: unknown) {
+    super(`${path} must be ${expected}, got ${describeValue(value)}`);
+    this.name = "SchemaError";
+    this.path = path;
+  }
+}
+
+/**
+ * Checks an unknown value and returns it typed - path names the value in error messages
+ * @throws SchemaError if the value does not match
+ */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type ShapeType<S extends Shape> = { [K in keyof S]: S[K] extends Schema<infer T> ? T : never };
+
+const describeValue = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "an array" : typeof value === "string" ? `"${value.slice(0, 40)}"` : typeof value;
+
+/**
+ * Check a response body against a schema
+ * @throws SchemaError if the body does not match
+ */
+export function parse<T>(schema: Schema<T>, value: unknown): T {
+  return schema(value, "response");
+}
+
+export const string: Schema<string> = (value, path) => {
+  if (typeof value !== "string") {
+    throw new SchemaError(path, "a string", value);
+  }
+  return value;
+};
+
+export const nonEmptyString: Schema<string> = (value, path) => {
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new SchemaError(path, "a non-empty string", value);
+  }
+  return value;
+};
+
+export const number: Schema<number> = (value, path) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new SchemaError(path, "a number", value);
+  }
+  return value;
+};
+
+export const boolean: Schema<boolean> = (value, path) => {
+  if (typeof value !== "boolean") {
+    throw new SchemaError(path, "true or false", value);
+  }
+  return value;
+};
+
+// NocoDB row ids are numbers; the app always handles them as strings
+export const id: Schema<string> = (value, path) => {
+  if ((typeof value === "number" && Number.isInteger(value)) || (typeof value === "string" && value !== "")) {
+    return String(value);
+  }
+  throw new SchemaError(path, "an id", value);
+};
+
+// NocoDB CreatedAt dates, read as unix timestamps
+export const timestamp: Schema<number> = (value, path) => {
+  const time = typeof value === "string" ? new Date(value).getTime() : NaN;
+  if (Number.isNaN(time)) {
+    throw new SchemaError(path, "a date", value);
+  }
+  return Math.floor(time / 1000);
+};
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return (value, path) => {
+    if (!values.includes(value as T)) {
+      throw new SchemaError(path, `one of ${values.join(", ")}`, value);
+    }
+    return value as T;
+  };
+}
+
+// Missing and null values both read as undefined
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) => (value === undefined || value === null ? undefined : schema(value, path));
+}
+
+// Missing and null values both read as null
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path) => (value === undefined || value === null ? null : schema(value, path));
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new SchemaError(path, "an array", value);
+    }
+    return value.map((entry, index) => item(entry, `${path}[${index}]`));
+  };
+}
+
+// Fields not in the shape are ignored, so the backend can add columns without breaking the app
+export function object<S extends Shape>(shape: S): Schema<ShapeType<S>> {
+  return (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new SchemaError(path, "an object", value);
+    }
+    const record = value as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.entries(shape).map(([key, field]) => [key, field(record[key], `${path}.${key}`)])
+    ) as ShapeType<S>;
+  };
+}
+
+export function transform<A, B>(schema: Schema<A>, convert: (value: A) => B): Schema<B> {
+  return (value, path) => convert(schema(value, path));
+}
+
+// Workflows that respond with all incoming items wrap a single result in [{ ... }]
+export function single<T>(schema: Schema<T>): Schema<T> {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      return schema(value, path);
+    }
+    if (value.length !== 1) {
+      throw new SchemaError(path, "a single item", value);
+    }
+    return schema(value[0], `${path}[0]`);
+  };
+}
+
+/**
+ * A { total, is_last_page, data } page of rows, as returned by the customers and clients routes
+ */
+export interface ListPage<T> {
+  total: number;
+  is_last_page: boolean;
+  data: T[];
+}
+
+export function listPage<T>(item: Schema<T>): Schema<ListPage<T>> {
+  return object({ total: number, is_last_page: boolean, data: array(item) });
+}
+
+export type CustomerType = "org" | "sub-org";
+
+export const CUSTOMER_TYPES: CustomerType[] = ["org", "sub-org"];
+
+/**
+ * An org or sub-org from the customers table
+ * Orgs carry their sub-orgs; client counts are kept up to date by db-update-org-client-counts
+ */
+export interface Customer {
+  id: string;
+  name: string;
+  customer_type: CustomerType;
+  // Unix timestamp
+  created: number;
+  client_count?: number;
+  client_count_paused?: number;
+  suborgs?: Customer[];
+  // Only set on sub-orgs listed outside their org, e.g. in the autocomplete
+  parent_org_name?: string;
+}
+
+export const customerSchema: Schema<Customer> = transform(
+  object({
+    Id: id,
+    name: nonEmptyString,
+    customer_type: oneOf(CUSTOMER_TYPES),
+    CreatedAt: timestamp,
+    client_count: optional(number),
+    client_count_paused: optional(number),
+    suborgs: optional(array((value, path) => customerSchema(value, path))),
+    parent_org_name: optional(string),
+  }),
+  (row) => ({
+    id: row.Id,
+    name: row.name,
+    customer_type: row.customer_type,
+    created: row.CreatedAt,
+    client_count: row.client_count ?? 0,
+    client_count_paused: row.client_count_paused ?? 0,
+    suborgs: row.suborgs ?? [],
+    parent_org_name: row.parent_org_name,
+  })
+);
+
+/**
+ * A client of a sub-org, with the Stripe subscription it is billed on
+ */
+export interface Client {
+  id: string;
+  name: string;
+  customer_id: string;
+  // Unix timestamp
+  created: number;
+  email?: string;
+  // The client's id in the customer's own systems
+  external_ref?: string;
+  // The Stripe customer of the client's subscription bucket
+  stripe_customer_id?: string;
+  stripe_subscription_id?: string;
+  stripe_subscription_status?: string;
+  stripe_price_id?: string;
+  plan_id?: string;
+  // Unix timestamp the subscription was or will be canceled at
+  cancel_at?: number;
+  // Stripe pause_collection settings while paused
+  pause_behavior?: PauseBehavior;
+  pause_resumes_at?: number;
+}
+
+export const clientSchema: Schema<Client> = transform(
+  object({
+    Id: id,
+    name: string,
+    customer_id: id,
+    CreatedAt: timestamp,
+    email: optional(string),
+    external_ref: optional(string),
+    stripe_customer_id: optional(string),
+    stripe_subscription_id: optional(string),
+    stripe_subscription_status: optional(string),
+    stripe_price_id: optional(string),
+    plan_id: optional(id),
+    cancel_at: optional(number),
+    pause_behavior: optional(oneOf(PAUSE_BEHAVIORS)),
+    pause_resumes_at: optional(number),
+  }),
+  ({ Id, CreatedAt, ...client }) => ({ ...client, id: Id, created: CreatedAt })
+);
+
+/**
+ * The Stripe customer a customer's client subscriptions are grouped under
+ */
+export interface SubscriptionBucket {
+  id: string;
+  customer_id: string;
+  total_clients_assigned: number;
+  stripe_customer_id: string | null;
+}
+
+export const subscriptionBucketSchema: Schema<SubscriptionBucket> = object({
+  id,
+  customer_id: id,
+  total_clients_assigned: number,
+  stripe_customer_id: nullable(string),
+});
+
+const clientCounts = {
+  client_count: number,
+  client_count_active: number,
+  client_count_paused: number,
+};
+
+/**
+ * An org or sub-org with its hierarchy, client counts, buckets and latest clients
+ * Shaped by the get-customer workflow
+ */
+export interface CustomerDetail {
+  customer: {
+    id: string;
+    name: string;
+    customer_type: CustomerType;
+    parent_org_id: string | null;
+    stripe_customer_id: string | null;
+    created_at?: string;
+    client_count: number;
+    client_count_active: number;
+    client_count_paused: number;
+  };
+  parent_org: { id: string; name: string } | null;
+  suborgs: {
+    id: string;
+    name: string;
+    created_at?: string;
+    client_count: number;
+    client_count_active: number;
+    client_count_paused: number;
+  }[];
+  buckets: SubscriptionBucket[];
+  recent_clients: {
+    id: string;
+    name: string;
+    customer_id: string;
+    stripe_subscription_id: string | null;
+    stripe_subscription_status: string | null;
+    created_at?: string;
+  }[];
+}
+
+export const customerDetailSchema: Schema<CustomerDetail> = object({
+  customer: object({
+    id,
+    name: string,
+    customer_type: oneOf(CUSTOMER_TYPES),
+    parent_org_id: nullable(id),
+    stripe_customer_id: nullable(string),
+    created_at: optional(string),
+    ...clientCounts,
+  }),
+  parent_org: nullable(object({ id, name: string })),
+  suborgs: array(object({ id, name: string, created_at: optional(string), ...clientCounts })),
+  buckets: array(subscriptionBucketSchema),
+  recent_clients: array(
+    object({
+      id,
+      name: string,
+      customer_id: id,
+      stripe_subscription_id: nullable(string),
+      stripe_subscription_status: nullable(string),
+      created_at: optional(string),
+    })
+  ),
+});
+
+/**
+ * Totals across every customer, cached by db-update-overall-stats
+ */
+export interface OverallStats {
+  totalOrgs: number;
+  totalSubOrgs: number;
+  totalClients: number;
+  totalActiveClients: number;
+  totalPausedClients: number;
+}
+
+// Reported until db-update-overall-stats has run for the first time
+export const EMPTY_OVERALL_STATS: OverallStats = {
+  totalOrgs: 0,
+  totalSubOrgs: 0,
+  totalClients: 0,
+  totalActiveClients: 0,
+  totalPausedClients: 0,
+};
+
+export const overallStatsSchema: Schema<OverallStats> = single(
+  object({
+    totalOrgs: number,
+    totalSubOrgs: number,
+    totalClients: number,
+    totalActiveClients: number,
+    totalPausedClients: number,
+  })
+);
+
+/**
+ * What deleting an org or sub-org would remove
+ * Returned by the delete-customer workflow when run as a dry run
+ */
+export interface CustomerDeletionPreview {
+  customer: { id: string; name: string; customer_type: CustomerType };
+  suborgs: { id: string; name: string; client_count: number }[];
+  buckets: { id: string; stripe_customer_id: string | null }[];
+  client_count: number;
+  active_subscriptions: number;
+  paused_subscriptions: number;
+}
+
+export const customerDeletionPreviewSchema: Schema<CustomerDeletionPreview> = object({
+  customer: object({ id, name: string, customer_type: oneOf(CUSTOMER_TYPES) }),
+  suborgs: array(object({ id, name: string, client_count: number })),
+  buckets: array(object({ id, stripe_customer_id: nullable(string) })),
+  client_count: number,
+  active_subscriptions: number,
+  paused_subscriptions: number,
+});
+
+/**
+ * Outcome for a single subscription, product, row or Stripe customer touched by a delete
+ */
+export interface DeletionItemResult {
+  type: "subscription" | "product" | "client" | "bucket" | "customer" | "stripe_customer";
+  id: string;
+  name: string;
+  status: "done" | "failed" | "skipped";
+  detail?: string;
+}
+
+/**
+ * Result of a cascading delete
+ * deleted is false when the customer rows were kept because something could not be cleaned up
+ */
+export interface CustomerDeletionResult {
+  success: boolean;
+  deleted: boolean;
+  results: DeletionItemResult[];
+}
+
+export const customerDeletionResultSchema: Schema<CustomerDeletionResult> = object({
+  success: boolean,
+  deleted: boolean,
+  results: array(
+    object({
+      type: oneOf(["subscription", "product", "client", "bucket", "customer", "stripe_customer"] as const),
+      id,
+      name: string,
+      status: oneOf(["done", "failed", "skipped"] as const),
+      detail: optional(string),
+    })
+  ),
+});
+
+/**
+ * Outcome for a single client of a whole-customer pause or resume
+ */
+export interface ClientCollectionResult {
+  client_id: string;
+  customer_id: string;
+  name: string;
+  status: "done" | "failed";
+  detail?: string;
+}
+
+/**
+ * Result of pausing or resuming every client of an org or sub-org
+ */
+export interface CustomerCollectionResult {
+  success: boolean;
+  action: "pause" | "resume";
+  total: number;
+  updated: number;
+  failed: number;
+  results: ClientCollectionResult[];
+}
+
+export const customerCollectionResultSchema: Schema<CustomerCollectionResult> = object({
+  success: boolean,
+  action: oneOf(["pause", "resume"] as const),
+  total: number,
+  updated: number,
+  failed: number,
+  results: array(
+    object({
+      client_id: id,
+      customer_id: id,
+      name: string,
+      status: oneOf(["done", "failed"] as const),
+      detail: optional(string),
+    })
+  ),
+});
+
+export const planSchema: Schema<Plan> = object({
+  Id: number,
+  name: string,
+  description: optional(string),
+  stripe_product_id: string,
+  stripe_price_id: string,
+  currency: string,
+  unit_amount: number,
+  recurring_interval: oneOf(RECURRING_INTERVALS),
+  recurring_quantity: number,
+  status: oneOf(["active", "archived"] as const),
+});
+
+/**
+ * Stripe's preview of the next invoice if a client's plan were changed now
+ * Amounts are in the currency's smallest unit
+ */
+export interface PlanChangePreview {
+  current: {
+    stripe_price_id: string;
+    quantity: number;
+  };
+  currency: string;
+  proration_amount: number;
+  amount_due: number;
+  next_invoice_date?: number;
+  lines: {
+    // Stripe leaves some invoice lines without a description
+    description: string | null;
+    amount: number;
+    proration: boolean;
+  }[];
+}
+
+export const planChangePreviewSchema: Schema<PlanChangePreview> = object({
+  current: object({ stripe_price_id: string, quantity: number }),
+  currency: string,
+  proration_amount: number,
+  amount_due: number,
+  next_invoice_date: optional(number),
+  lines: array(object({ description: nullable(string), amount: number, proration: boolean })),
+});
+
+/**
+ * Response of POST /api/clients
+ * existing is set when the idempotency key had already created the client - the new client's id is not
+ * always returned, as the create-client workflow answers with its last step
+ */
+export interface CreateClientResult {
+  id?: string;
+  existing: boolean;
+}
+
+export const createClientResultSchema: Schema<CreateClientResult> = transform(
+  single(object({ Id: optional(id), existing: optional(boolean) })),
+  ({ Id, existing }) => ({ id: Id, existing: existing ?? false })
+);
+
+// A plan or existing price, or a custom price - see ClientPricingPayload
+const clientPricingPayloadSchema: Schema<ClientPricingPayload> = (value, path) =>
+  typeof value === "object" && value !== null && "stripe_price_id" in value
+    ? object({ plan_id: optional(id), stripe_price_id: string })(value, path)
+    : object({
+        currency: string,
+        unit_amount: number,
+        recurring_interval: oneOf(RECURRING_INTERVALS),
+        recurring_quantity: number,
+      })(value, path);
+
+const batchJobFields = {
+  id: string,
+  status: oneOf(["running", "completed", "interrupted"] as const),
+  created_at: number,
+  updated_at: number,
+  finished_at: optional(number),
+  customer: object({
+    id: string,
+    name: string,
+    parent_org_id: optional(string),
+    parent_org_name: optional(string),
+  }),
+  total: number,
+  done: number,
+  failed: number,
+};
+
+const batchJobItemSchema: Schema<BatchJobItem> = object({
+  index: number,
+  name: string,
+  email: optional(string),
+  external_ref: optional(string),
+  pricing: clientPricingPayloadSchema,
+  idempotency_key: string,
+  status: oneOf(["pending", "running", "done", "failed"] as const),
+  attempts: number,
+  client_id: optional(id),
+  existing: optional(boolean),
+  error: optional(string),
+});
+
+export const batchJobSummarySchema: Schema<BatchJobSummary> = object(batchJobFields);
+
+export const batchJobSchema: Schema<BatchJob> = object({ ...batchJobFields, items: array(batchJobItemSchema) });
+
+const RECONCILE_ISSUE_TYPES = Object.keys(RECONCILE_ISSUE_LABELS) as ReconcileIssueType[];
+
+export const reconcileReportSchema: Schema<ReconcileReport> = object({
+  dry_run: (value, path) => {
+    if (value !== true) {
+      throw new SchemaError(path, "true", value);
+    }
+    return true as const;
+  },
+  checked_at: number,
+  buckets: number,
+  clients: number,
+  subscriptions: number,
+  issues: array(
+    object({
+      type: oneOf(RECONCILE_ISSUE_TYPES),
+      fix: nullable(oneOf(RECONCILE_FIX_ACTIONS)),
+      customer_id: nullable(id),
+      bucket_id: optional(id),
+      client: optional(
+        object({
+          id,
+          name: string,
+          customer_id: id,
+          bucket_id: nullable(id),
+          stripe_subscription_id: nullable(string),
+          status: nullable(string),
+        })
+      ),
+      subscription: optional(
+        object({
+          id: string,
+          stripe_customer_id: string,
+          bucket_id: nullable(id),
+          status: string,
+          stripe_price_id: nullable(string),
+          created: number,
+        })
+      ),
+    })
+  ),
+});
+
+/**
+ * Body of POST /api/customers - sub-orgs need their parent org
+ */
+export interface CreateCustomerBody {
+  name: string;
+  customer_type: CustomerType;
+  parent_org_id?: string;
+}
+
+/**
+ * Body of PATCH /api/customers/[id] - renaming is the only supported update
+ */
+export interface UpdateCustomerBody {
+  name: string;
+}
+
+/**
+ * Pause behavior and optional automatic resume (unix timestamp)
+ * Body of POST /api/customers/[id]/pause, and part of POST /api/subscriptions/pause
+ */
+export interface PauseBody {
+  behavior: PauseBehavior;
+  resumes_at?: number;
+}
@@ -0,0 +1,70 @@
+import Stripe from "stripe";
+import { ApiError } from "./errors";
+import { SubscriptionSyncRequest } from "./n8n";
+
+/**
+ * Server-only Stripe client for the routes that talk to Stripe directly
+ * Everything else reaches Stripe through the n8n workflows
+ */
+
+let client: Stripe | null = null;
+
+/**
+ * Get the shared Stripe client - pointed at STRIPE_API_BASE instead of api.stripe.com when set, e.g. the mock server
+ * @throws ApiError (503) if STRIPE_SECRET_KEY is not set
+ */
+export function getStripe(): Stripe {
+  if (!client) {
+    const secretKey = process.env.STRIPE_SECRET_KEY;
+    if (!secretKey) {
+      throw new ApiError("STRIPE_SECRET_KEY is not configured", 503);
+    }
+    const apiBase = process.env.STRIPE_API_BASE ? new URL(process.env.STRIPE_API_BASE) : null;
+    client = new Stripe(secretKey, {
+      apiVersion: "2023-10-16",
+      ...(apiBase && {
+        host: apiBase.hostname,
+        port: apiBase.port || undefined,
+        protocol: apiBase.protocol === "http:" ? "http" : "https",
+      }),
+    });
+  }
+  return client;
+}
+
+/**
+ * Verify a Stripe webhook payload against its Stripe-Signature header
+ * @throws ApiError (503) if STRIPE_WEBHOOK_SECRET is not set, (400) if the signature does not match
+ */
+export function constructWebhookEvent(payload: string, signature: string | null): Stripe.Event {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new ApiError("STRIPE_WEBHOOK_SECRET is not configured", 503);
+  }
+  if (!signature) {
+    throw new ApiError("Missing Stripe-Signature header", 400);
+  }
+
+  try {
+    return getStripe().webhooks.constructEvent(payload, signature, secret);
+  } catch (err) {
+    throw new ApiError(err instanceof Error ? err.message : "Invalid Stripe signature", 400);
+  }
+}
+
+/**
+ * Map a Stripe subscription onto the fields kept on its client row
+ * A subscription with pause_collection set is still "active" in Stripe, but "paused" in the portal
+ */
+export function toSubscriptionSync(subscription: Stripe.Subscription, eventType: string): SubscriptionSyncRequest {
+  const pause = subscription.status !== "canceled" ? subscription.pause_collection : null;
+
+  return {
+    stripe_subscription_id: subscription.id,
+    event_type: eventType,
+    status: pause ? "paused" : subscription.status,
+    pause_behavior: pause?.behavior ?? null,
+    pause_resumes_at: pause?.resumes_at ?? null,
+    cancel_at: subscription.status === "canceled" ? subscription.canceled_at : subscription.cancel_at,
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Subscription statuses and pause and cancel options shared by the client lists, subscription dialogs and API routes
+ */
+
+/**
+ * Badge color classes for a client's subscription status, as shown in the client lists
+ */
+export function getSubscriptionStatusBadgeClass(status?: string | null): string {
+  switch (status) {
+    case "active":
+      return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200";
+    case "paused":
+      return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200";
+    case "canceled":
+      return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200";
+    // Set by the Stripe webhook after a failed payment
+    case "past_due":
+    case "unpaid":
+      return "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200";
+    default:
+      return "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300";
+  }
+}
+
+export type PauseBehavior = "keep_as_draft" | "mark_uncollectible" | "void";
+
+export const PAUSE_BEHAVIORS: PauseBehavior[] = ["keep_as_draft", "mark_uncollectible", "void"];
+
+// Matches Stripe's descriptions of pause_collection.behavior
+export const PAUSE_BEHAVIOR_LABELS: Record<PauseBehavior, { label: string; description: string }> = {
+  keep_as_draft: {
+    label: "Keep as draft",
+    description: "Invoices are created but left as drafts, so they can be collected once the subscription resumes",
+  },
+  mark_uncollectible: {
+    label: "Mark uncollectible",
+    description: "Invoices are created and marked uncollectible - useful when the service is still provided for free",
+  },
+  void: {
+    label: "Void",
+    description: "Invoices are created and voided immediately - nothing is owed for the paused period",
+  },
+};
+
+/**
+ * Pause options as entered in the pause forms
+ * resume_date is a YYYY-MM-DD date, empty for an open-ended pause
+ */
+export interface PauseOptions {
+  behavior: PauseBehavior;
+  resume_date: string;
+}
+
+// Void matches the behavior every pause used before it was configurable
+export const DEFAULT_PAUSE_OPTIONS: PauseOptions = {
+  behavior: "void",
+  resume_date: "",
+};
+
+/**
+ * Convert a YYYY-MM-DD resume date to a unix timestamp at the start of that day in the browser's time zone
+ */
+export function toResumesAt(resumeDate: string): number | undefined {
+  return resumeDate ? Math.floor(new Date(`${resumeDate}T00:00:00`).getTime() / 1000) : undefined;
+}
+
+export type CancelWhen = "now" | "period_end";
+
+export const CANCEL_WHEN_OPTIONS: { value: CancelWhen; label: string; description: string }[] = [
+  {
+    value: "period_end",
+    label: "At period end",
+    description: "The client keeps access until the end of the paid period, then the subscription is canceled. No further invoices are created.",
+  },
+  {
+    value: "now",
+    label: "Now",
+    description: "The subscription is canceled immediately and the client no longer counts towards the sub-org. This cannot be undone.",
+  },
+];
@@ -0,0 +1,260 @@
+import { randomUUID } from "crypto";
+import { ClientListQuery, isClientSort } from "./clients";
+import { ApiError, requireString } from "./errors";
+import { CreateClientRequest, PlanChangeRequest } from "./n8n";
+import { EMAIL_PATTERN, MAX_EXTERNAL_REF_LENGTH } from "./imports";
+import { ClientPricingPayload, RecurringInterval, RECURRING_INTERVALS } from "./pricing";
+import { ReconcileFix, ReconcileFixAction, RECONCILE_FIX_ACTIONS } from "./reconcile";
+import { MAX_PAGE_SIZE, PageQuery } from "./pages";
+import { CreateCustomerBody, CUSTOMER_TYPES, CustomerType, PauseBody } from "./schema";
+import { PauseBehavior, PAUSE_BEHAVIORS } from "./subscriptions";
+
+/**
+ * Price fields shared by create-client (custom price) and create-plan requests
+ */
+export interface PriceFields {
+  currency: string;
+  unit_amount: number;
+  recurring_interval: RecurringInterval;
+  recurring_quantity: number;
+}
+
+/**
+ * Validate currency, unit_amount and the recurring fields of a request body
+ * @throws ApiError (400) if a field is missing or invalid
+ */
+export function requirePriceFields(body: Record<string, unknown>): PriceFields {
+  const currency = requireString(body, "currency").toLowerCase();
+  const unitAmount = Number(body.unit_amount);
+  const interval = requireString(body, "recurring_interval") as RecurringInterval;
+  const quantity = Number(body.recurring_quantity);
+
+  if (!/^[a-z]{3}$/.test(currency)) {
+    throw new ApiError("'currency' must be a three-letter ISO currency code", 400);
+  }
+  if (!Number.isInteger(unitAmount) || unitAmount < 1) {
+    throw new ApiError("'unit_amount' must be a positive integer in the currency's smallest unit", 400);
+  }
+  if (!RECURRING_INTERVALS.includes(interval)) {
+    throw new ApiError(`'recurring_interval' must be one of ${RECURRING_INTERVALS.join(", ")}`, 400);
+  }
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new ApiError("'recurring_quantity' must be a positive integer", 400);
+  }
+
+  return {
+    currency,
+    unit_amount: unitAmount,
+    recurring_interval: interval,
+    recurring_quantity: quantity,
+  };
+}
+
+/**
+ * Validate the pricing fields of a create-client or batch job request
+ * A plan or existing Stripe price wins; otherwise currency, unit_amount and the recurring fields are required
+ * @throws ApiError (400) if a field is missing or invalid
+ */
+export function requireClientPricing(body: Record<string, unknown>): ClientPricingPayload {
+  if (body.stripe_price_id) {
+    const priceId = String(body.stripe_price_id).trim();
+    if (!priceId.startsWith("price_")) {
+      throw new ApiError("'stripe_price_id' must be a Stripe price id (price_...)", 400);
+    }
+    return {
+      stripe_price_id: priceId,
+      plan_id: body.plan_id ? String(body.plan_id) : undefined,
+    };
+  }
+
+  return requirePriceFields(body);
+}
+
+/**
+ * Validate a create-customer request - sub-orgs need their parent org
+ * @throws ApiError (400) if the name or type is missing, the type is unknown or a sub-org has no parent
+ */
+export function requireCreateCustomer(body: Record<string, unknown>): CreateCustomerBody {
+  const name = requireString(body, "name");
+  const customerType = requireString(body, "customer_type") as CustomerType;
+
+  if (!CUSTOMER_TYPES.includes(customerType)) {
+    throw new ApiError("'customer_type' must be 'org' or 'sub-org'", 400);
+  }
+
+  return {
+    name,
+    customer_type: customerType,
+    parent_org_id: customerType === "sub-org" ? requireString(body, "parent_org_id") : undefined,
+  };
+}
+
+/**
+ * Validate the optional email and external reference of a create-client or batch job request
+ * @throws ApiError (400) if the email is malformed or the reference is too long
+ */
+export function requireClientContact(body: Record<string, unknown>): Pick<CreateClientRequest, "email" | "external_ref"> {
+  const email = body.email ? String(body.email).trim().toLowerCase() : undefined;
+  const externalRef = body.external_ref ? String(body.external_ref).trim() : undefined;
+
+  if (email && !EMAIL_PATTERN.test(email)) {
+    throw new ApiError("'email' must be a valid email address", 400);
+  }
+  if (externalRef && externalRef.length > MAX_EXTERNAL_REF_LENGTH) {
+    throw new ApiError(`'external_ref' must be at most ${MAX_EXTERNAL_REF_LENGTH} characters`, 400);
+  }
+
+  return { email: email || undefined, external_ref: externalRef || undefined };
+}
+
+/**
+ * Validate the offset and limit query parameters of a list request
+ * Parameters left out are not sent on, so the workflow's defaults apply
+ * @throws ApiError (400) if offset is negative or limit is outside 1 to 1000
+ */
+export function requirePageQuery(params: URLSearchParams): PageQuery {
+  const query: PageQuery = {};
+
+  const offset = params.get("offset");
+  if (offset) {
+    query.offset = Number(offset);
+    if (!Number.isInteger(query.offset) || query.offset < 0) {
+      throw new ApiError("'offset' must be a non-negative integer", 400);
+    }
+  }
+
+  const limit = params.get("limit");
+  if (limit) {
+    query.limit = Number(limit);
+    if (!Number.isInteger(query.limit) || query.limit < 1 || query.limit > MAX_PAGE_SIZE) {
+      throw new ApiError(`'limit' must be an integer from 1 to ${MAX_PAGE_SIZE}`, 400);
+    }
+  }
+
+  return query;
+}
+
+/**
+ * Validate the paging, sort and filter query parameters of a clients list request
+ * @throws ApiError (400) if a number is out of range, the sort is unknown or the status is not a status name
+ */
+export function requireClientListQuery(params: URLSearchParams): ClientListQuery {
+  const query: ClientListQuery = requirePageQuery(params);
+
+  const sort = params.get("sort");
+  if (sort) {
+    if (!isClientSort(sort)) {
+      throw new ApiError("'sort' must be name, created or status, optionally prefixed with -", 400);
+    }
+    query.sort = sort;
+  }
+
+  const status = params.get("status");
+  if (status) {
+    // Subscription statuses are lowercase words - anything else cannot match and could break the NocoDB filter
+    if (!/^[a-z_]+$/.test(status)) {
+      throw new ApiError("'status' must be a subscription status such as active or paused", 400);
+    }
+    query.status = status;
+  }
+
+  const search = params.get("search")?.trim();
+  if (search) {
+    query.search = search.slice(0, 100);
+  }
+
+  return query;
+}
+
+/**
+ * Validate the idempotency key of a create request, or generate one when the caller sent none
+ * Stripe accepts keys up to 255 characters; the workflow appends a short suffix per Stripe call
+ * @throws ApiError (400) if the key is too long or has characters other than letters, digits, - and _
+ */
+export function requireIdempotencyKey(body: Record<string, unknown>): string {
+  if (body.idempotency_key === undefined || body.idempotency_key === null || body.idempotency_key === "") {
+    return randomUUID();
+  }
+
+  const key = String(body.idempotency_key);
+  if (!/^[A-Za-z0-9_-]{1,200}$/.test(key)) {
+    throw new ApiError("'idempotency_key' must be up to 200 letters, digits, - or _", 400);
+  }
+  return key;
+}
+
+/**
+ * Validate a plan change request - the subscription, the new Stripe price and quantity
+ * @throws ApiError (400) if a field is missing or invalid
+ */
+export function requirePlanChange(body: Record<string, unknown>): PlanChangeRequest {
+  const priceId = requireString(body, "stripe_price_id").trim();
+  const quantity = Number(body.quantity ?? 1);
+
+  if (!priceId.startsWith("price_")) {
+    throw new ApiError("'stripe_price_id' must be a Stripe price id (price_...)", 400);
+  }
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new ApiError("'quantity' must be a positive integer", 400);
+  }
+
+  return {
+    customer_id: requireString(body, "customer_id"),
+    stripe_subscription_id: requireString(body, "stripe_subscription_id"),
+    stripe_price_id: priceId,
+    quantity,
+    plan_id: body.plan_id ? String(body.plan_id) : undefined,
+  };
+}
+
+/**
+ * Validate the pause behavior (defaults to "void") and the optional automatic resume time
+ * @throws ApiError (400) if the behavior is unknown or resumes_at is not a future unix timestamp
+ */
+export function requirePauseFields(body: Record<string, unknown>): PauseBody {
+  const behavior = (body.behavior ?? "void") as PauseBehavior;
+  if (!PAUSE_BEHAVIORS.includes(behavior)) {
+    throw new ApiError(`'behavior' must be one of ${PAUSE_BEHAVIORS.join(", ")}`, 400);
+  }
+
+  if (body.resumes_at === undefined || body.resumes_at === null || body.resumes_at === "") {
+    return { behavior };
+  }
+
+  const resumesAt = Number(body.resumes_at);
+  if (!Number.isInteger(resumesAt) || resumesAt <= Math.floor(Date.now() / 1000)) {
+    throw new ApiError("'resumes_at' must be a unix timestamp in the future", 400);
+  }
+
+  return { behavior, resumes_at: resumesAt };
+}
+
+/**
+ * Validate a reconciliation fix - each action needs the ids it acts on
+ * @throws ApiError (400) if the action is unknown or a required id is missing
+ */
+export function requireReconcileFix(body: Record<string, unknown>): ReconcileFix {
+  const action = requireString(body, "action") as ReconcileFixAction;
+  if (!RECONCILE_FIX_ACTIONS.includes(action)) {
+    throw new ApiError(`'action' must be one of ${RECONCILE_FIX_ACTIONS.join(", ")}`, 400);
+  }
+
+  switch (action) {
+    case "link":
+      return {
+        action,
+        customer_id: requireString(body, "customer_id"),
+        client_id: requireString(body, "client_id"),
+        stripe_subscription_id: requireString(body, "stripe_subscription_id"),
+        bucket_id: requireString(body, "bucket_id"),
+      };
+    case "mark_orphan":
+      return {
+        action,
+        customer_id: requireString(body, "customer_id"),
+        client_id: requireString(body, "client_id"),
+      };
+    case "cancel":
+      return { action, stripe_subscription_id: requireString(body, "stripe_subscription_id") };
+  }
+}
@@ -1,60 +1,123 @@
 "use client";
 
 import React, { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
 import { useCustomers, Customer } from "./contexts/CustomerContext";
-import { useApp } from "./contexts/AppContext";
+import { CustomerFilters, useApp } from "./contexts/AppContext";
+import { useQuery } from "./contexts/QueryContext";
 import CustomerAutocomplete from "./components/CustomerAutocomplete";
+import CustomerFilterBar from "./components/CustomerFilterBar";
+import DeleteCustomerDialog from "./components/DeleteCustomerDialog";
+import ExportButtons from "./components/ExportButtons";
+import PauseCustomerDialog from "./components/PauseCustomerDialog";
+import { fetchJson } from "./lib/api";
+import { queryKeys } from "./lib/query-cache";
+import { EMPTY_OVERALL_STATS, OverallStats, overallStatsSchema } from "./lib/schema";
 
 /**
- * Overall stats type
+ * Fetch the totals shown in the stats cards
  */
-interface OverallStats {
-  totalOrgs: number;
-  totalSubOrgs: number;
-  totalClients: number;
-  totalActiveClients: number;
-  totalPausedClients: number;
+const fetchStats = (): Promise<OverallStats> => fetchJson('/api/stats', overallStatsSchema, 'Failed to fetch stats');
+
+/**
+ * Unix timestamp of the start of a YYYY-MM-DD day in the browser's time zone
+ */
+const startOfDay = (date: string) => Math.floor(new Date(`${date}T00:00:00`).getTime() / 1000);
+
+/**
+ * Whether an org or sub-org passes the filter bar's client count, paused clients and created date filters
+ * An org's counts include the clients of all its sub-orgs
+ */
+function matchesCustomerFilters(customer: Customer, filters: CustomerFilters): boolean {
+  if (filters.minClients !== null && (customer.client_count || 0) < filters.minClients) {
+    return false;
+  }
+  if (filters.hasPausedClients && !customer.client_count_paused) {
+    return false;
+  }
+  if (filters.createdFrom && customer.created < startOfDay(filters.createdFrom)) {
+    return false;
+  }
+  // The end date is inclusive
+  if (filters.createdTo && customer.created >= startOfDay(filters.createdTo) + 24 * 60 * 60) {
+    return false;
+  }
+  return true;
 }
 
 /**
  * Homepage component
  * Displays a list of customers and quick access to main features
- * Uses CustomerContext for state management
+ * Orgs are fetched a page at a time (preferences.itemsPerPage); the search and filter bar work on the full list held in CustomerContext
  */
 export default function Home() {
-  const { customers, loading, error } = useCustomers();
-  const { searchQuery, setSearchQuery } = useApp();
+  const router = useRouter();
+  const { customers, loading, error, updateCustomer, fetchCustomerPage } = useCustomers();
+  const {
+    searchQuery,
+    setSearchQuery,
+    filterType,
+    customerFilters,
+    hasCustomerFilters,
+    clearCustomerFilters,
+    preferences,
+    updatePreferences,
+  } = useApp();
+  const [page, setPage] = useState(1);
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
-  const [stats, setStats] = useState<OverallStats>({
-    totalOrgs: 0,
-    totalSubOrgs: 0,
-    totalClients: 0,
-    totalActiveClients: 0,
-    totalPausedClients: 0,
-  });
-  const [statsLoading, setStatsLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [customerToDelete, setCustomerToDelete] = useState<Customer | null>(null);
+  const [customerToPause, setCustomerToPause] = useState<{ customer: Customer; action: "pause" | "resume" } | null>(null);
+  const statsQuery = useQuery(queryKeys.stats, fetchStats);
+  const stats = statsQuery.data ?? EMPTY_OVERALL_STATS;
+  const statsLoading = statsQuery.loading;
 
-  // Filter customers based on search
-  const filteredCustomers = customers.filter((customer) => {
-    // Add null safety checks
-    if (!customer || !customer.name) return false;
-    
-    // If no search query, show all
-    if (!searchQuery) return true;
-    
-    const searchLower = searchQuery.toLowerCase();
-    
-    // Check if customer name matches
-    const customerNameMatches = customer.name.toLowerCase().includes(searchLower);
-    
-    // Check if any sub-org name matches
-    const subOrgMatches = customer.suborgs?.some(
-      (suborg) => suborg.name?.toLowerCase().includes(searchLower)
-    ) || false;
-    
-    // Match if either customer name or any sub-org name matches
-    return customerNameMatches || subOrgMatches;
-  });
+  // An org or sub-org matches when its name contains the search and it passes the filter bar
+  const searchLower = searchQuery.toLowerCase();
+  const matchesFilters = (customer: Customer) =>
+    Boolean(customer?.name) &&
+    customer.name.toLowerCase().includes(searchLower) &&
+    matchesCustomerFilters(customer, customerFilters);
+
+  // Sub-orgs are listed on their own when filtering by type; otherwise an org is kept when it or one of its sub-orgs matches
+  const filteredCustomers =
+    filterType === "sub-org"
+      ? customers.flatMap((org) =>
+          (org.suborgs ?? []).map((suborg) => ({ ...suborg, parent_org_name: org.name })).filter(matchesFilters)
+        )
+      : customers.filter(
+          (customer) => matchesFilters(customer) || (filterType === "all" && (customer.suborgs ?? []).some(matchesFilters))
+        );
+
+  const itemsPerPage = preferences.itemsPerPage;
+
+  // Back to the first page whenever the search, filters or page size change
+  useEffect(() => {
+    setPage(1);
+  }, [searchQuery, filterType, customerFilters, itemsPerPage]);
+
+  // The current page of orgs, from the query cache - CustomerContext patches or invalidates it after a change
+  const offset = (page - 1) * itemsPerPage;
+  const customerPageQuery = useQuery(hasCustomerFilters ? null : queryKeys.customerPage(offset, itemsPerPage), () =>
+    fetchCustomerPage(offset, itemsPerPage)
+  );
+  const customerPage = customerPageQuery.data ?? null;
+  const pageError = customerPageQuery.error;
+
+  // Filtered results are paged here; otherwise the server's page is shown
+  const totalCustomers = hasCustomerFilters ? filteredCustomers.length : customerPage?.total ?? 0;
+  const visibleCustomers = hasCustomerFilters
+    ? filteredCustomers.slice((page - 1) * itemsPerPage, page * itemsPerPage)
+    : customerPage?.customers ?? [];
+  const totalPages = Math.max(1, Math.ceil(totalCustomers / itemsPerPage));
+  const rowLabel = filterType === "sub-org" ? "sub-orgs" : hasCustomerFilters ? "matching orgs" : "orgs";
+
+  // A delete can leave the last page empty
+  useEffect(() => {
+    if (page > totalPages) {
+      setPage(totalPages);
+    }
+  }, [page, totalPages]);
 
   // Create flattened list of all customers including sub-orgs for autocomplete
   // Add parent_org_name to sub-orgs for display purposes
@@ -78,58 +141,29 @@ export default function Home() {
     return acc;
   }, []);
 
-  // Fetch overall stats
-  useEffect(() => {
-    const fetchStats = async () => {
-      try {
-        setStatsLoading(true);
-        
-        const webhookUrl = process.env.NEXT_PUBLIC_WEBHOOK_GET_STATS;
-        
-        if (!webhookUrl) {
-          console.warn('NEXT_PUBLIC_WEBHOOK_GET_STATS is not configured');
-          setStatsLoading(false);
-          return;
-        }
-
-        const response = await fetch(webhookUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ key: 'overall_stats' }),
-        });
-        
-        if (!response.ok) {
-          throw new Error(`Failed to fetch stats: ${response.statusText}`);
-        }
-        
-        let data = await response.json();
-        
-        // Handle array response format
-        if (Array.isArray(data) && data.length > 0) {
-          data = data[0];
-        }
-        
-        setStats({
-          totalOrgs: data.totalOrgs || 0,
-          totalSubOrgs: data.totalSubOrgs || 0,
-          totalClients: data.totalClients || 0,
-          totalActiveClients: data.totalActiveClients || 0,
-          totalPausedClients: data.totalPausedClients || 0,
-        });
-      } catch (err) {
-        console.error('Error fetching stats:', err);
-      } finally {
-        setStatsLoading(false);
-      }
-    };
-
-    fetchStats();
-  }, []);
-
   // Handle selecting a customer from autocomplete
   const handleSelectCustomer = (customer: Customer) => {
-    // Optionally navigate to customer detail page when implemented
-    console.log("Selected customer:", customer);
+    router.push(`/customers/${customer.id}`);
+  };
+
+  /**
+   * Rename an org or sub-org
+   */
+  const handleRenameCustomer = async (customer: Customer) => {
+    const newName = window.prompt(`Rename "${customer.name}" to:`, customer.name)?.trim();
+    if (!newName || newName === customer.name) {
+      return;
+    }
+
+    setActionLoading(customer.id);
+    try {
+      await updateCustomer(customer.id, { name: newName });
+    } catch (err) {
+      console.error('Error renaming customer:', err);
+      alert(err instanceof Error ? err.message : 'Failed to rename customer');
+    } finally {
+      setActionLoading(null);
+    }
   };
 
   // Toggle row expansion
@@ -147,6 +181,21 @@ export default function Home() {
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {preferences.showWelcomeMessage && (
+        <div className="mb-8 p-4 rounded-lg bg-blue-50 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200 flex items-start justify-between gap-4">
+          <p className="text-sm">
+            Welcome to the B2B Subscription Portal. Create organizations and sub-organizations, add their clients,
+            and manage each client&apos;s Stripe subscription from here. Page size and defaults are under the settings button.
+          </p>
+          <button
+            onClick={() => updatePreferences({ showWelcomeMessage: false })}
+            className="text-sm font-medium whitespace-nowrap hover:text-blue-600 dark:hover:text-blue-100"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6 mb-8">
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 transition-colors">
@@ -198,27 +247,33 @@ export default function Home() {
             <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Customers</h2>
             
             {/* Search Controls */}
-            <div className="flex-1 sm:max-w-md">
-              <CustomerAutocomplete
-                customers={allCustomersFlattened}
-                value={searchQuery}
-                onChange={setSearchQuery}
-                onSelectCustomer={handleSelectCustomer}
-              />
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2 flex-1 sm:max-w-xl sm:justify-end">
+              <div className="flex-1">
+                <CustomerAutocomplete
+                  customers={allCustomersFlattened}
+                  value={searchQuery}
+                  onChange={setSearchQuery}
+                  onSelectCustomer={handleSelectCustomer}
+                />
+              </div>
+              <ExportButtons />
             </div>
           </div>
+          <div className="mt-4">
+            <CustomerFilterBar />
+          </div>
         </div>
         <div className="p-6">
-          {loading ? (
+          {loading || (!hasCustomerFilters && !customerPage && !pageError) ? (
             <div className="text-center py-12">
               <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 dark:border-blue-400"></div>
               <p className="mt-4 text-gray-600 dark:text-gray-300">Loading customers...</p>
             </div>
-          ) : error ? (
+          ) : error || (!hasCustomerFilters && pageError) ? (
             <div className="text-center py-12">
-              <p className="text-red-600 dark:text-red-400">{error}</p>
+              <p className="text-red-600 dark:text-red-400">{error || pageError}</p>
             </div>
-          ) : filteredCustomers.length === 0 && customers.length === 0 ? (
+          ) : customers.length === 0 && totalCustomers === 0 ? (
             <div className="text-center py-12">
               <svg
                 className="mx-auto h-12 w-12 text-gray-400 dark:text-gray-500"
@@ -248,190 +303,305 @@ export default function Home() {
                 </a>
               </div>
             </div>
-          ) : filteredCustomers.length === 0 ? (
+          ) : hasCustomerFilters && filteredCustomers.length === 0 ? (
             <div className="text-center py-12">
               <p className="text-gray-600 dark:text-gray-400">
                 No customers match your search or filter criteria.
               </p>
               <button
-                onClick={() => setSearchQuery("")}
+                onClick={clearCustomerFilters}
                 className="mt-4 text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 text-sm font-medium"
               >
-                Clear search
+                Clear filters
               </button>
             </div>
           ) : (
-            <div className="overflow-x-auto">
-              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
-                <thead className="bg-gray-50 dark:bg-gray-700">
-                  <tr>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider w-8">
-                      {/* Expand column */}
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                      Parent Org
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                      Name
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                      Type
-                    </th>
-                    <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                      Clients
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                      Created
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                      Actions
-                    </th>
-                  </tr>
-                </thead>
-                <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-                  {filteredCustomers.map((customer) => {
-                    const isExpanded = expandedRows.has(customer.id);
-                    const hasSubOrgs = customer.suborgs && customer.suborgs.length > 0;
+            <div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead className="bg-gray-50 dark:bg-gray-700">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider w-8">
+                        {/* Expand column */}
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Parent Org
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Name
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Type
+                      </th>
+                      <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Clients
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Created
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                    {visibleCustomers.map((customer) => {
+                      const isExpanded = expandedRows.has(customer.id);
+                      const hasSubOrgs = customer.suborgs && customer.suborgs.length > 0;
 
-                    return (
-                      <React.Fragment key={customer.id}>
-                        {/* Main Row */}
-                        <tr className="hover:bg-gray-50 dark:hover:bg-gray-700">
-                          {/* Expand Icon with Count */}
-                          <td className="px-4 py-4 whitespace-nowrap">
-                            {hasSubOrgs ? (
-                              <button
-                                onClick={() => toggleRowExpansion(customer.id)}
-                                className="flex items-center gap-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors"
-                                aria-label={isExpanded ? "Collapse" : "Expand"}
-                              >
-                                <span className="text-xs font-medium">
-                                  {customer.suborgs!.length} {customer.suborgs!.length === 1 ? 'org' : 'orgs'}
-                                </span>
-                                <svg
-                                  className={`w-4 h-4 transition-transform duration-200 ${
-                                    isExpanded ? "rotate-90" : ""
-                                  }`}
-                                  fill="none"
-                                  viewBox="0 0 24 24"
-                                  stroke="currentColor"
+                      return (
+                        <React.Fragment key={customer.id}>
+                          {/* Main Row */}
+                          <tr className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                            {/* Expand Icon with Count */}
+                            <td className="px-4 py-4 whitespace-nowrap">
+                              {hasSubOrgs ? (
+                                <button
+                                  onClick={() => toggleRowExpansion(customer.id)}
+                                  className="flex items-center gap-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors"
+                                  aria-label={isExpanded ? "Collapse" : "Expand"}
                                 >
-                                  <path
-                                    strokeLinecap="round"
-                                    strokeLinejoin="round"
-                                    strokeWidth={2}
-                                    d="M9 5l7 7-7 7"
-                                  />
-                                </svg>
-                              </button>
-                            ) : (
-                              <div className="w-5"></div>
-                            )}
-                          </td>
-                          
-                          {/* Parent Org - Empty for top-level orgs */}
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            {customer.customer_type === "sub-org" ? (
-                              <div className="text-sm text-gray-600 dark:text-gray-400">
-                                {/* Would show parent org name here if we had it */}
-                                -
-                              </div>
-                            ) : (
-                              <div className="text-sm text-gray-400 dark:text-gray-600">-</div>
-                            )}
-                          </td>
-                          
-                          {/* Customer Name */}
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="text-sm font-medium text-gray-900 dark:text-white">
-                              {customer.name}
-                            </div>
-                          </td>
-                          
-                          {/* Type */}
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                              customer.customer_type === "org"
-                                ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
-                                : "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
-                            }`}>
-                              {customer.customer_type}
-                            </span>
-                          </td>
-                          
-                          {/* Clients Count */}
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-center text-gray-900 dark:text-white">
-                            {customer.client_count || 0}
-                          </td>
-                          
-                          {/* Created Date */}
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                            {new Date(customer.created * 1000).toLocaleDateString()}
-                          </td>
-                          
-                          {/* Actions - org type has no actions */}
-                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-400 dark:text-gray-600">
-                            -
-                          </td>
-                        </tr>
-
-                        {/* Expanded Sub-Orgs Rows */}
-                        {isExpanded && hasSubOrgs && customer.suborgs!.map((suborg, index) => (
-                          <tr key={`${customer.id}-suborg-${suborg.id || index}`} className="bg-gray-50 dark:bg-gray-900 hover:bg-gray-100 dark:hover:bg-gray-800">
-                            {/* Empty cell for expand column */}
-                            <td className="px-4 py-3"></td>
+                                  <span className="text-xs font-medium">
+                                    {customer.suborgs!.length} {customer.suborgs!.length === 1 ? 'org' : 'orgs'}
+                                  </span>
+                                  <svg
+                                    className={`w-4 h-4 transition-transform duration-200 ${
+                                      isExpanded ? "rotate-90" : ""
+                                    }`}
+                                    fill="none"
+                                    viewBox="0 0 24 24"
+                                    stroke="currentColor"
+                                  >
+                                    <path
+                                      strokeLinecap="round"
+                                      strokeLinejoin="round"
+                                      strokeWidth={2}
+                                      d="M9 5l7 7-7 7"
+                                    />
+                                  </svg>
+                                </button>
+                              ) : (
+                                <div className="w-5"></div>
+                              )}
+                            </td>
                             
-                            {/* Parent Org Name */}
-                            <td className="px-6 py-3 whitespace-nowrap">
-                              <div className="text-sm text-gray-600 dark:text-gray-400 italic">
-                                ↳ {customer.name}
-                              </div>
+                            {/* Parent Org - Empty for top-level orgs */}
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              {customer.customer_type === "sub-org" ? (
+                                <div className="text-sm text-gray-600 dark:text-gray-400">
+                                  {customer.parent_org_name || "-"}
+                                </div>
+                              ) : (
+                                <div className="text-sm text-gray-400 dark:text-gray-600">-</div>
+                              )}
                             </td>
                             
-                            {/* Sub-Org Name */}
-                            <td className="px-6 py-3 whitespace-nowrap">
-                              <div className="text-sm font-medium text-gray-900 dark:text-white">
-                                {suborg.name}
-                              </div>
+                            {/* Customer Name */}
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <a
+                                href={`/customers/${customer.id}`}
+                                className="text-sm font-medium text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400"
+                              >
+                                {customer.name}
+                              </a>
                             </td>
                             
                             {/* Type */}
-                            <td className="px-6 py-3 whitespace-nowrap">
-                              <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
-                                sub-org
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                                customer.customer_type === "org"
+                                  ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+                                  : "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
+                              }`}>
+                                {customer.customer_type}
                               </span>
                             </td>
                             
                             {/* Clients Count */}
-                            <td className="px-6 py-3 whitespace-nowrap text-sm text-center text-gray-900 dark:text-white">
-                              {suborg.client_count || 0}
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-center text-gray-900 dark:text-white">
+                              {customer.client_count || 0}
                             </td>
                             
                             {/* Created Date */}
-                            <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                              {suborg.created ? new Date(suborg.created * 1000).toLocaleDateString() : '-'}
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                              {new Date(customer.created * 1000).toLocaleDateString()}
                             </td>
                             
                             {/* Actions */}
-                            <td className="px-6 py-3 whitespace-nowrap text-sm font-medium">
-                              <a
-                                href={`/clients-view?suborg=${suborg.id}&name=${encodeURIComponent(suborg.name)}&parent=${encodeURIComponent(customer.name)}`}
-                                className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
-                              >
-                                View Clients
-                              </a>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                              <div className="flex items-center gap-3">
+                                {customer.customer_type === "sub-org" && (
+                                  <a
+                                    href={`/clients-view?suborg=${customer.id}&name=${encodeURIComponent(customer.name)}&parent=${encodeURIComponent(customer.parent_org_name || "")}`}
+                                    className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
+                                  >
+                                    View Clients
+                                  </a>
+                                )}
+                                <button
+                                  onClick={() => handleRenameCustomer(customer)}
+                                  disabled={actionLoading === customer.id}
+                                  className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300 disabled:opacity-50"
+                                >
+                                  Rename
+                                </button>
+                                <button
+                                  onClick={() => setCustomerToPause({ customer: customer, action: "pause" })}
+                                  disabled={actionLoading === customer.id}
+                                  className="text-yellow-600 hover:text-yellow-900 dark:text-yellow-400 dark:hover:text-yellow-300 disabled:opacity-50"
+                                >
+                                  Pause all
+                                </button>
+                                <button
+                                  onClick={() => setCustomerToPause({ customer: customer, action: "resume" })}
+                                  disabled={actionLoading === customer.id}
+                                  className="text-green-600 hover:text-green-900 dark:text-green-400 dark:hover:text-green-300 disabled:opacity-50"
+                                >
+                                  Resume all
+                                </button>
+                                <button
+                                  onClick={() => setCustomerToDelete(customer)}
+                                  disabled={actionLoading === customer.id}
+                                  className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300 disabled:opacity-50"
+                                >
+                                  Delete
+                                </button>
+                              </div>
                             </td>
                           </tr>
-                        ))}
-                      </React.Fragment>
-                    );
-                  })}
-                </tbody>
-              </table>
+
+                          {/* Expanded Sub-Orgs Rows */}
+                          {isExpanded && hasSubOrgs && customer.suborgs!.map((suborg, index) => (
+                            <tr key={`${customer.id}-suborg-${suborg.id || index}`} className="bg-gray-50 dark:bg-gray-900 hover:bg-gray-100 dark:hover:bg-gray-800">
+                              {/* Empty cell for expand column */}
+                              <td className="px-4 py-3"></td>
+                              
+                              {/* Parent Org Name */}
+                              <td className="px-6 py-3 whitespace-nowrap">
+                                <div className="text-sm text-gray-600 dark:text-gray-400 italic">
+                                  ↳ {customer.name}
+                                </div>
+                              </td>
+                              
+                              {/* Sub-Org Name */}
+                              <td className="px-6 py-3 whitespace-nowrap">
+                                <a
+                                  href={`/customers/${suborg.id}`}
+                                  className="text-sm font-medium text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400"
+                                >
+                                  {suborg.name}
+                                </a>
+                              </td>
+                              
+                              {/* Type */}
+                              <td className="px-6 py-3 whitespace-nowrap">
+                                <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+                                  sub-org
+                                </span>
+                              </td>
+                              
+                              {/* Clients Count */}
+                              <td className="px-6 py-3 whitespace-nowrap text-sm text-center text-gray-900 dark:text-white">
+                                {suborg.client_count || 0}
+                              </td>
+                              
+                              {/* Created Date */}
+                              <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                                {suborg.created ? new Date(suborg.created * 1000).toLocaleDateString() : '-'}
+                              </td>
+                              
+                              {/* Actions */}
+                              <td className="px-6 py-3 whitespace-nowrap text-sm font-medium">
+                                <div className="flex items-center gap-3">
+                                  <a
+                                    href={`/clients-view?suborg=${suborg.id}&name=${encodeURIComponent(suborg.name)}&parent=${encodeURIComponent(customer.name)}`}
+                                    className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
+                                  >
+                                    View Clients
+                                  </a>
+                                  <button
+                                    onClick={() => handleRenameCustomer(suborg)}
+                                    disabled={actionLoading === suborg.id}
+                                    className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300 disabled:opacity-50"
+                                  >
+                                    Rename
+                                  </button>
+                                  <button
+                                    onClick={() => setCustomerToPause({ customer: suborg, action: "pause" })}
+                                    disabled={actionLoading === suborg.id}
+                                    className="text-yellow-600 hover:text-yellow-900 dark:text-yellow-400 dark:hover:text-yellow-300 disabled:opacity-50"
+                                  >
+                                    Pause all
+                                  </button>
+                                  <button
+                                    onClick={() => setCustomerToPause({ customer: suborg, action: "resume" })}
+                                    disabled={actionLoading === suborg.id}
+                                    className="text-green-600 hover:text-green-900 dark:text-green-400 dark:hover:text-green-300 disabled:opacity-50"
+                                  >
+                                    Resume all
+                                  </button>
+                                  <button
+                                    onClick={() => setCustomerToDelete(suborg)}
+                                    disabled={actionLoading === suborg.id}
+                                    className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300 disabled:opacity-50"
+                                  >
+                                    Delete
+                                  </button>
+                                </div>
+                              </td>
+                            </tr>
+                          ))}
+                        </React.Fragment>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Pagination */}
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 pt-4 text-sm text-gray-600 dark:text-gray-300">
+                <span>
+                  {totalCustomers === 0
+                    ? `0 ${rowLabel}`
+                    : `${Math.min((page - 1) * itemsPerPage + 1, totalCustomers)}-${Math.min(page * itemsPerPage, totalCustomers)} of ${totalCustomers} ${rowLabel}`}
+                </span>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setPage(page - 1)}
+                    disabled={page <= 1}
+                    className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                  >
+                    Previous
+                  </button>
+                  <span>Page {page} of {totalPages}</span>
+                  <button
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= totalPages}
+                    className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                  >
+                    Next
+                  </button>
+                </div>
+              </div>
             </div>
           )}
         </div>
       </div>
+
+      {customerToDelete && (
+        <DeleteCustomerDialog
+          customer={customerToDelete}
+          onClose={() => setCustomerToDelete(null)}
+        />
+      )}
+
+      {customerToPause && (
+        <PauseCustomerDialog
+          customer={customerToPause.customer}
+          action={customerToPause.action}
+          onClose={() => setCustomerToPause(null)}
+        />
+      )}
     </div>
   );
 }
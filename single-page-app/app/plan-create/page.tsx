@@ -0,0 +1,191 @@
+"use client";
+
+import { useState, FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import PricingFields from "../components/PricingFields";
+import { getErrorMessage } from "../lib/api";
+import { ClientPricing, ClientPricingPayload, DEFAULT_PRICING, getPricingPayload } from "../lib/pricing";
+
+/**
+ * Plan creation page component
+ * Creates a plan backed by a Stripe product and recurring price
+ */
+export default function PlanCreate() {
+  const router = useRouter();
+
+  const [formData, setFormData] = useState({
+    name: "",
+    description: "",
+  });
+  const [pricing, setPricing] = useState<ClientPricing>({ ...DEFAULT_PRICING, mode: "new" });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  /**
+   * Handles form submission
+   */
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    // Validate pricing
+    let pricingPayload: ClientPricingPayload;
+    try {
+      pricingPayload = getPricingPayload(pricing);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid pricing");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch('/api/plans', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: formData.name,
+          description: formData.description,
+          ...pricingPayload,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to create plan'));
+      }
+
+      setSuccess(true);
+
+      // Redirect to the plans list after 2 seconds
+      setTimeout(() => {
+        router.push("/plans");
+      }, 2000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create plan");
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Handles input changes
+   */
+  const handleInputChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => {
+    const { name, value } = e.target;
+    setFormData({
+      ...formData,
+      [name]: value,
+    });
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md transition-colors">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Create New Plan</h1>
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">
+            Add a plan to the price catalogue that clients can subscribe to
+          </p>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="px-6 py-6 space-y-6">
+          {/* Success Message */}
+          {success && (
+            <div className="rounded-md bg-green-50 dark:bg-green-900/20 p-4 border border-green-200 dark:border-green-800">
+              <p className="text-sm font-medium text-green-800 dark:text-green-200">
+                Plan created successfully! Redirecting...
+              </p>
+            </div>
+          )}
+
+          {/* Error Message */}
+          {error && (
+            <div className="rounded-md bg-red-50 dark:bg-red-900/20 p-4 border border-red-200 dark:border-red-800">
+              <p className="text-sm font-medium text-red-800 dark:text-red-200">{error}</p>
+            </div>
+          )}
+
+          {/* Plan Name Field */}
+          <div>
+            <label
+              htmlFor="name"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+            >
+              Plan Name <span className="text-red-500 dark:text-red-400">*</span>
+            </label>
+            <input
+              type="text"
+              id="name"
+              name="name"
+              required
+              value={formData.name}
+              onChange={handleInputChange}
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-gray-900 dark:text-white dark:bg-gray-700"
+              placeholder="e.g. Standard Monthly"
+              disabled={isSubmitting || success}
+            />
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Shown in the plan dropdown and used as the Stripe product name
+            </p>
+          </div>
+
+          {/* Description Field */}
+          <div>
+            <label
+              htmlFor="description"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+            >
+              Description
+            </label>
+            <textarea
+              id="description"
+              name="description"
+              rows={3}
+              value={formData.description}
+              onChange={handleInputChange}
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-gray-900 dark:text-white dark:bg-gray-700"
+              disabled={isSubmitting || success}
+            />
+          </div>
+
+          {/* Pricing Fields */}
+          <PricingFields
+            value={pricing}
+            onChange={setPricing}
+            disabled={isSubmitting || success}
+            appliesTo="clients on this plan"
+            modes={["new"]}
+          />
+
+          {/* Form Actions */}
+          <div className="flex gap-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <button
+              type="submit"
+              disabled={isSubmitting || success}
+              className="flex-1 inline-flex justify-center items-center px-6 py-3 border border-transparent text-base font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isSubmitting ? (
+                <>
+                  <div className="inline-block animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                  Creating...
+                </>
+              ) : (
+                "Create Plan"
+              )}
+            </button>
+            <a
+              href="/plans"
+              className="flex-1 inline-flex justify-center items-center px-6 py-3 border border-gray-300 dark:border-gray-600 text-base font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+            >
+              Cancel
+            </a>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
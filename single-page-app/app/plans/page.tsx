@@ -0,0 +1,181 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { fetchJson, getErrorMessage } from "../lib/api";
+import { formatInterval, formatPrice, Plan } from "../lib/pricing";
+import { array, planSchema } from "../lib/schema";
+
+/**
+ * Plans page component
+ * Lists the price catalogue and archives plans that should no longer be offered
+ */
+export default function Plans() {
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState<number | null>(null);
+
+  /**
+   * Fetch plans from the plans API route
+   */
+  const fetchPlans = async (includeArchived: boolean) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      setPlans(
+        await fetchJson(
+          `/api/plans${includeArchived ? '?include_archived=true' : ''}`,
+          array(planSchema),
+          'Failed to fetch plans'
+        )
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to fetch plans";
+      setError(message);
+      console.error('Error fetching plans:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPlans(showArchived);
+  }, [showArchived]);
+
+  /**
+   * Archive a plan after confirmation
+   */
+  const handleArchivePlan = async (plan: Plan) => {
+    if (!window.confirm(`Archive "${plan.name}"? Existing clients keep their subscription, but new clients can no longer choose it.`)) {
+      return;
+    }
+
+    setActionLoading(plan.Id);
+    try {
+      const response = await fetch(`/api/plans/${plan.Id}/archive`, { method: 'POST' });
+
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to archive plan'));
+      }
+
+      await fetchPlans(showArchived);
+    } catch (err) {
+      console.error('Error archiving plan:', err);
+      alert(err instanceof Error ? err.message : 'Failed to archive plan');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md transition-colors">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <h1 className="text-xl font-semibold text-gray-900 dark:text-white">Plans</h1>
+            <div className="flex items-center gap-4">
+              <label className="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={showArchived}
+                  onChange={(e) => setShowArchived(e.target.checked)}
+                />
+                Show archived
+              </label>
+              <a
+                href="/plan-create"
+                className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600"
+              >
+                Create Plan
+              </a>
+            </div>
+          </div>
+        </div>
+        <div className="p-6">
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 dark:border-blue-400"></div>
+              <p className="mt-4 text-gray-600 dark:text-gray-300">Loading plans...</p>
+            </div>
+          ) : error ? (
+            <div className="text-center py-12">
+              <p className="text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          ) : plans.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-sm font-medium text-gray-900 dark:text-white">No plans</h3>
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                Create a plan so clients can be subscribed to a shared price.
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Name</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Price</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Billed Every</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Stripe Price</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                  {plans.map((plan) => (
+                    <tr key={plan.Id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                      <td className="px-6 py-4 text-sm">
+                        <div className="font-medium text-gray-900 dark:text-white">{plan.name}</div>
+                        {plan.description && (
+                          <div className="text-gray-500 dark:text-gray-400">{plan.description}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {formatPrice(plan.unit_amount, plan.currency)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {formatInterval(plan.recurring_interval, plan.recurring_quantity)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <a
+                          href={`https://dashboard.stripe.com/test/prices/${plan.stripe_price_id}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-mono text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
+                        >
+                          {plan.stripe_price_id}
+                        </a>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                          plan.status === "active"
+                            ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+                            : "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300"
+                        }`}>
+                          {plan.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        {plan.status === "active" && (
+                          <button
+                            onClick={() => handleArchivePlan(plan)}
+                            disabled={actionLoading === plan.Id}
+                            className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300 disabled:opacity-50"
+                          >
+                            {actionLoading === plan.Id ? 'Archiving...' : 'Archive'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
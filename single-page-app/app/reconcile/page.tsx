@@ -0,0 +1,322 @@
+"use client";
+
+import { useState } from "react";
+import { fetchJson, getErrorMessage, runWithConcurrency } from "../lib/api";
+import {
+  ReconcileIssue,
+  ReconcileReport,
+  RECONCILE_FIX_LABELS,
+  RECONCILE_ISSUE_LABELS,
+  toReconcileFix,
+} from "../lib/reconcile";
+import { reconcileReportSchema } from "../lib/schema";
+
+// Fixes in flight at once - keeps Stripe and n8n well under their rate limits
+const FIX_CONCURRENCY = 4;
+
+/**
+ * Stable key for an issue - an issue is about a client, a subscription, a bucket or a pair of them
+ */
+const getIssueKey = (issue: ReconcileIssue) =>
+  [issue.type, issue.client?.id, issue.subscription?.id, issue.bucket_id].join(":");
+
+/**
+ * Reconcile page component
+ * Runs a dry-run comparison of the clients table with Stripe and applies the selected fix-ups
+ */
+export default function Reconcile() {
+  const [customerId, setCustomerId] = useState("");
+  const [report, setReport] = useState<ReconcileReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [isApplying, setIsApplying] = useState(false);
+  const [progress, setProgress] = useState({ current: 0, total: 0 });
+  const [failures, setFailures] = useState<{ item: ReconcileIssue; error: string }[]>([]);
+
+  /**
+   * Fetch the dry-run report from the reconcile API route
+   */
+  const fetchReport = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const query = customerId.trim() ? `?customer_id=${encodeURIComponent(customerId.trim())}` : '';
+      setReport(await fetchJson(`/api/reconcile${query}`, reconcileReportSchema, 'Failed to build reconciliation report'));
+      setSelectedKeys([]);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to build reconciliation report";
+      setError(message);
+      console.error('Error building reconciliation report:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const issues = report?.issues ?? [];
+  const fixableIssues = issues.filter((issue) => issue.fix);
+  const selectedIssues = fixableIssues.filter((issue) => selectedKeys.includes(getIssueKey(issue)));
+  const allSelected = fixableIssues.length > 0 && selectedIssues.length === fixableIssues.length;
+
+  const toggleIssue = (key: string) => {
+    setSelectedKeys((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+  };
+
+  const toggleAll = () => {
+    setSelectedKeys(allSelected ? [] : fixableIssues.map(getIssueKey));
+  };
+
+  /**
+   * Apply the selected fixes a few at a time, then re-run the report
+   */
+  const handleApplyFixes = async () => {
+    const cancelCount = selectedIssues.filter((issue) => issue.fix === "cancel").length;
+    const message = cancelCount > 0
+      ? `Apply ${selectedIssues.length} fixes? ${cancelCount} Stripe subscriptions will be canceled immediately.`
+      : `Apply ${selectedIssues.length} fixes?`;
+    if (!window.confirm(message)) {
+      return;
+    }
+
+    setIsApplying(true);
+    setFailures([]);
+    setProgress({ current: 0, total: selectedIssues.length });
+
+    const result = await runWithConcurrency(
+      selectedIssues,
+      FIX_CONCURRENCY,
+      async (issue) => {
+        const response = await fetch('/api/reconcile/fix', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(toReconcileFix(issue)),
+        });
+
+        if (!response.ok) {
+          throw new Error(await getErrorMessage(response, 'Failed to apply fix'));
+        }
+      },
+      (completed) => setProgress({ current: completed, total: selectedIssues.length })
+    );
+
+    setFailures(result);
+    setIsApplying(false);
+    await fetchReport();
+  };
+
+  const progressPercentage = progress.total > 0
+    ? Math.round((progress.current / progress.total) * 100)
+    : 0;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md transition-colors">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <h1 className="text-xl font-semibold text-gray-900 dark:text-white">Reconcile with Stripe</h1>
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                Compares every client with the subscriptions on its bucket&apos;s Stripe customer. Nothing changes until fixes are applied.
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <input
+                type="text"
+                value={customerId}
+                onChange={(e) => setCustomerId(e.target.value)}
+                placeholder="Sub-org id (optional)"
+                className="w-44 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm text-gray-900 dark:text-white dark:bg-gray-700"
+              />
+              <button
+                onClick={fetchReport}
+                disabled={loading || isApplying}
+                className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 disabled:opacity-50"
+              >
+                {loading ? "Checking..." : "Run dry run"}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200 text-sm">
+              {error}
+            </div>
+          )}
+
+          {isApplying && (
+            /* Progress Bar */
+            <div>
+              <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-2">
+                <span>Applying fixes...</span>
+                <span>{progress.current} / {progress.total} ({progressPercentage}%)</span>
+              </div>
+              <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-3">
+                <div
+                  className="bg-blue-600 dark:bg-blue-500 h-3 rounded-full transition-all duration-300"
+                  style={{ width: `${progressPercentage}%` }}
+                ></div>
+              </div>
+            </div>
+          )}
+
+          {failures.length > 0 && (
+            <div>
+              <div className="p-4 rounded-lg bg-yellow-50 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200 text-sm">
+                {failures.length} {failures.length === 1 ? "fix" : "fixes"} failed - the report below has been refreshed.
+              </div>
+              <ul className="mt-2 divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+                {failures.map(({ item, error: fixError }) => (
+                  <li key={getIssueKey(item)} className="px-4 py-2 text-sm">
+                    <div className="text-gray-900 dark:text-white">
+                      {item.client?.name ?? item.subscription?.id} - {item.fix && RECONCILE_FIX_LABELS[item.fix]}
+                    </div>
+                    <div className="text-xs text-red-600 dark:text-red-400">{fixError}</div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {!report ? (
+            !loading && (
+              <div className="text-center py-12">
+                <h3 className="text-sm font-medium text-gray-900 dark:text-white">No report yet</h3>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  Run a dry run to see clients and subscriptions that do not match.
+                </p>
+              </div>
+            )
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                {[
+                  { label: "Buckets", value: report.buckets },
+                  { label: "Clients", value: report.clients },
+                  { label: "Stripe Subscriptions", value: report.subscriptions },
+                  { label: "Issues", value: issues.length },
+                ].map((stat) => (
+                  <div key={stat.label} className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700">
+                    <div className="text-sm font-medium text-gray-500 dark:text-gray-400">{stat.label}</div>
+                    <div className="text-2xl font-bold text-gray-900 dark:text-white">{stat.value}</div>
+                  </div>
+                ))}
+              </div>
+
+              {issues.length === 0 ? (
+                <div className="text-center py-12">
+                  <h3 className="text-sm font-medium text-gray-900 dark:text-white">Everything matches</h3>
+                  <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                    Checked {new Date(report.checked_at * 1000).toLocaleString()}.
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                    <span className="text-gray-600 dark:text-gray-300">
+                      {selectedIssues.length} of {fixableIssues.length} fixable issues selected
+                    </span>
+                    <button
+                      onClick={handleApplyFixes}
+                      disabled={selectedIssues.length === 0 || isApplying || loading}
+                      className="px-3 py-1 rounded-md text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 disabled:opacity-50"
+                    >
+                      Apply {selectedIssues.length} {selectedIssues.length === 1 ? "fix" : "fixes"}
+                    </button>
+                  </div>
+
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                      <thead className="bg-gray-50 dark:bg-gray-700">
+                        <tr>
+                          <th className="px-4 py-3 text-left">
+                            <input
+                              type="checkbox"
+                              checked={allSelected}
+                              onChange={toggleAll}
+                              disabled={fixableIssues.length === 0 || isApplying}
+                              aria-label="Select all fixable issues"
+                            />
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Issue</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Client</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Stripe Subscription</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Fix</th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                        {issues.map((issue) => {
+                          const key = getIssueKey(issue);
+                          return (
+                            <tr key={key} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                              <td className="px-4 py-4">
+                                {issue.fix && (
+                                  <input
+                                    type="checkbox"
+                                    checked={selectedKeys.includes(key)}
+                                    onChange={() => toggleIssue(key)}
+                                    disabled={isApplying}
+                                    aria-label={`Select ${RECONCILE_ISSUE_LABELS[issue.type].label}`}
+                                  />
+                                )}
+                              </td>
+                              <td className="px-6 py-4 text-sm">
+                                <div className="font-medium text-gray-900 dark:text-white">{RECONCILE_ISSUE_LABELS[issue.type].label}</div>
+                                <div className="text-gray-500 dark:text-gray-400">{RECONCILE_ISSUE_LABELS[issue.type].description}</div>
+                                {issue.bucket_id != null && (
+                                  <div className="text-xs text-gray-500 dark:text-gray-400">Bucket {issue.bucket_id}</div>
+                                )}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                {issue.client ? (
+                                  <>
+                                    <div className="text-gray-900 dark:text-white">{issue.client.name}</div>
+                                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                                      #{issue.client.id} · {issue.client.status || "no status"}
+                                    </div>
+                                  </>
+                                ) : (
+                                  <span className="text-gray-400 dark:text-gray-500">-</span>
+                                )}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                {issue.subscription ? (
+                                  <>
+                                    <a
+                                      href={`https://dashboard.stripe.com/test/subscriptions/${issue.subscription.id}`}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="font-mono text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
+                                    >
+                                      {issue.subscription.id}
+                                    </a>
+                                    <div className="text-xs text-gray-500 dark:text-gray-400">{issue.subscription.status}</div>
+                                  </>
+                                ) : issue.client?.stripe_subscription_id ? (
+                                  <span className="font-mono text-gray-500 dark:text-gray-400">{issue.client.stripe_subscription_id}</span>
+                                ) : (
+                                  <span className="text-gray-400 dark:text-gray-500">-</span>
+                                )}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                                {issue.fix ? RECONCILE_FIX_LABELS[issue.fix] : (
+                                  <span className="text-gray-400 dark:text-gray-500">Manual</span>
+                                )}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
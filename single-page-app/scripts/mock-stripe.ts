@@ -0,0 +1,13 @@
+import { createMockStripeServer } from "../app/lib/mock-stripe";
+
+/**
+ * Run the mock Stripe server - npm run mock-stripe
+ * MOCK_STRIPE_PORT sets the port (12111 by default) and MOCK_STRIPE_NOW freezes the clock at a unix time
+ */
+
+const port = Number(process.env.MOCK_STRIPE_PORT || 12111);
+const now = process.env.MOCK_STRIPE_NOW ? Number(process.env.MOCK_STRIPE_NOW) : undefined;
+
+createMockStripeServer({ now }).listen(port, () => {
+  console.log(`Mock Stripe listening on http://localhost:${port} - set STRIPE_API_BASE to this URL`);
+});
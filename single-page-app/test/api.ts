@@ -0,0 +1,51 @@
+import { vi } from "vitest";
+
+/**
+ * Mocked backend for page tests - answers the pages' fetch calls to /api routes from canned handlers
+ */
+
+export interface ApiCall {
+  method: string;
+  url: URL;
+  body: unknown;
+}
+
+// A response body, or a function of the request returning one - return apiError(...) to fail
+type RouteHandler = unknown | ((call: ApiCall) => unknown);
+
+export const apiError = (status: number, message: string) =>
+  new Response(JSON.stringify({ error: message }), { status, headers: { "Content-Type": "application/json" } });
+
+/**
+ * Replace fetch with handlers keyed by "METHOD /api/path" - the query string is not part of the key
+ * Requests without a handler fail with 404. Returns every call made, in order
+ */
+export function mockApi(routes: Record<string, RouteHandler>) {
+  const calls: ApiCall[] = [];
+
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (input: string | URL, init?: RequestInit) => {
+      const url = new URL(String(input), "http://localhost");
+      const method = init?.method ?? "GET";
+      const call = { method, url, body: typeof init?.body === "string" ? JSON.parse(init.body) : undefined };
+      calls.push(call);
+
+      const key = `${method} ${url.pathname}`;
+      if (!(key in routes)) {
+        return apiError(404, `No mock for ${key}`);
+      }
+      const route = routes[key];
+      const result = typeof route === "function" ? await route(call) : route;
+      return result instanceof Response
+        ? result
+        : new Response(JSON.stringify(result), { status: 200, headers: { "Content-Type": "application/json" } });
+    })
+  );
+
+  return {
+    calls,
+    // Calls to one route, e.g. callsTo("POST /api/clients")
+    callsTo: (key: string) => calls.filter((call) => `${call.method} ${call.url.pathname}` === key),
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Backend rows shared by the page tests, in the shapes the n8n workflows return
+ */
+
+export const customerPage = {
+  total: 1,
+  is_last_page: true,
+  data: [
+    {
+      Id: 1,
+      name: "Acme Health",
+      customer_type: "org",
+      CreatedAt: "2026-01-05 10:00:00+00:00",
+      client_count: 3,
+      client_count_paused: 1,
+      suborgs: [
+        { Id: 2, name: "North Clinic", customer_type: "sub-org", CreatedAt: "2026-01-06 10:00:00+00:00" },
+        { Id: 3, name: "South Clinic", customer_type: "sub-org", CreatedAt: "2026-01-07 10:00:00+00:00" },
+      ],
+    },
+  ],
+};
+
+export const plans = [
+  {
+    Id: 7,
+    name: "Standard",
+    stripe_product_id: "prod_standard",
+    stripe_price_id: "price_standard",
+    currency: "aud",
+    unit_amount: 999,
+    recurring_interval: "month",
+    recurring_quantity: 1,
+    status: "active",
+  },
+];
+
+export const clientRow = (id: number, name: string, status: string) => ({
+  Id: id,
+  name,
+  customer_id: 2,
+  CreatedAt: "2026-02-01 09:00:00+00:00",
+  stripe_subscription_id: `sub_${id}`,
+  stripe_subscription_status: status,
+  stripe_price_id: "price_standard",
+});
+
+// A batch job as POST /api/jobs returns it, before its first client is created
+export const batchJob = (id: string, customerId: string, customerName: string) => ({
+  id,
+  status: "running",
+  created_at: 1772352000,
+  updated_at: 1772352000,
+  customer: { id: customerId, name: customerName, parent_org_id: "1", parent_org_name: "Acme Health" },
+  total: 0,
+  done: 0,
+  failed: 0,
+  items: [],
+});
@@ -0,0 +1,34 @@
+import { vi } from "vitest";
+
+/**
+ * Stand-in for next/navigation - pages get this router and the search params set by the test
+ */
+
+export const router = {
+  push: vi.fn(),
+  replace: vi.fn(),
+  back: vi.fn(),
+  forward: vi.fn(),
+  refresh: vi.fn(),
+  prefetch: vi.fn(),
+};
+
+let searchParams = new URLSearchParams();
+
+/**
+ * Set the query string the page under test reads through useSearchParams
+ */
+export function setSearchParams(params: Record<string, string>) {
+  searchParams = new URLSearchParams(params);
+}
+
+export function resetNavigation() {
+  Object.values(router).forEach((fn) => fn.mockReset());
+  searchParams = new URLSearchParams();
+}
+
+export const navigationMock = {
+  useRouter: () => router,
+  useSearchParams: () => searchParams,
+  usePathname: () => "/",
+};
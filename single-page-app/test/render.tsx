@@ -0,0 +1,22 @@
+import { render } from "@testing-library/react";
+import { ReactElement } from "react";
+import { AppProvider } from "../app/contexts/AppContext";
+import { CustomerProvider } from "../app/contexts/CustomerContext";
+import { QueryProvider } from "../app/contexts/QueryContext";
+
+const withProviders = (ui: ReactElement) => (
+  <AppProvider>
+    <QueryProvider>
+      <CustomerProvider>{ui}</CustomerProvider>
+    </QueryProvider>
+  </AppProvider>
+);
+
+/**
+ * Render a page inside the providers the root layout wraps it in
+ * rerender keeps the providers mounted, like a client-side navigation to another page
+ */
+export function renderWithProviders(ui: ReactElement) {
+  const result = render(withProviders(ui));
+  return { ...result, rerender: (next: ReactElement) => result.rerender(withProviders(next)) };
+}
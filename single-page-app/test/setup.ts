@@ -0,0 +1,15 @@
+import "@testing-library/jest-dom/vitest";
+import { cleanup } from "@testing-library/react";
+import { afterEach, vi } from "vitest";
+import { resetNavigation } from "./navigation";
+
+vi.mock("next/navigation", async () => (await import("./navigation")).navigationMock);
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  sessionStorage.clear();
+  resetNavigation();
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
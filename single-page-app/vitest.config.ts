@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+
+// Unit and page tests - npm test runs them once
+export default defineConfig({
+  esbuild: { jsx: "automatic" },
+  test: {
+    environment: "jsdom",
+    include: ["app/**/*.test.{ts,tsx}"],
+    setupFiles: ["./test/setup.ts"],
+  },
+});